@@ -5,6 +5,17 @@
 
 export {
   formatPendingTxNotification,
+  formatApprovalCodeMessage,
+  formatWalletNotification,
+  createNotificationDispatcher,
+  createWebhookNotifier,
+  createOutboxNotifier,
+  createStdoutNotifier,
+  signWebhookBody,
+  verifyWebhookSignature,
+  WEBHOOK_TOLERANCE_SECONDS,
+  NOTIFICATION_EVENTS,
+  checkSentTx,
   resolveWalletChains,
   resolveDefaultChainId,
   resolveWalletChainConfig,
@@ -18,9 +29,48 @@ export {
   createKeychainAdapter,
   createWalletService,
   createRpcClient,
+  MULTICALL3_ADDRESS,
+  readContracts,
+  decodeNftCall,
+  readNftHoldings,
+  formatTypedDataPreview,
+  parseTypedData,
+  previewTypedData,
+  signTypedDataWithKey,
   createPendingStore,
   createStateStore,
   createAuditLog,
+  createContactStore,
+  createDailySpendStore,
+  createAbiStore,
+  createTokenRegistry,
+  parseTokenList,
+  coerceValue,
+  decodeResult,
+  encodeCall,
+  parseAbiInput,
+  selectFunction,
+  summarizeFunction,
+  decodeLog,
+  eventTopics,
+  resolveEvent,
+  lookupEventTopic,
+  lookupSelector,
+  createApprovalCodeStore,
+  createNonceManager,
+  simulateTx,
+  decodeRevertReason,
+  formatSimulation,
+  formatAssetDiff,
+  simulateAssetChanges,
+  createCalldataDecoder,
+  formatDecodedCall,
+  createNameResolver,
+  isEnsName,
+  createChainlinkPriceSource,
+  createStaticPriceSource,
+  resolveQuorum,
+  createQuorumIndex,
   privateKeyToAddress,
   buildAndSignTx,
   SEPOLIA_CHAIN_ID,
@@ -29,14 +79,95 @@ export {
 export type {
   WalletService,
   WalletServiceConfig,
+  ApprovalCodeDelivery,
+  Notifier,
+  NotifyConfig,
+  NotifyRetryConfig,
+  NotificationDispatcher,
+  NotificationEvent,
+  NotificationFailure,
+  WalletNotification,
+  WebhookNotifierConfig,
   PendingTx,
   WalletMeta,
   WalletState,
   WalletConfig,
   WalletsLimits,
+  TokenLimit,
+  TxWarning,
+  TxReceiptInfo,
+  ReceiptCheck,
+  ReceiptTrackingConfig,
+  NonceKey,
+  NonceManager,
+  NonceState,
+  SimulationConfig,
+  TxSimulation,
+  AssetApproval,
+  AssetChange,
+  AssetDiff,
+  AssetDiffTx,
+  CalldataDecoder,
+  DecodedArg,
+  DecodedCall,
+  DecodedValue,
+  RegisteredAbi,
+  TokenInfo,
+  Contact,
+  ContractAbi,
+  AbiStore,
+  ContractRead,
+  ContractReadResult,
+  NftCall,
+  NftCollectionConfig,
+  NftHolding,
+  NftStandard,
+  TypedDataApproval,
+  TypedDataAsset,
+  TypedDataField,
+  TypedDataKind,
+  TypedDataPreview,
+  TypedDataRequest,
+  ImportedTokenList,
+  TokenConfigEntry,
+  TokenEntry,
+  TokenListing,
+  TokenRegistry,
+  TokenRegistryConfig,
+  AbiFunctionSummary,
+  CallArgs,
+  DecodedLog,
+  EventSource,
+  RawLog,
+  ResolvedName,
+  NameResolver,
+  NameServiceConfig,
+  ApprovalCodeConfig,
+  ApprovalLimits,
+  ApprovalVote,
+  QuorumRule,
+  SpendBudget,
+  SpendWindow,
+  DailySpendStore,
+  SpendFilter,
+  SpendLeg,
+  BudgetLine,
   WalletIntegrationConfig,
   AuditEntry,
   AuditLogFilter,
+  PolicyAction,
+  PolicyDecision,
+  PolicyRuleConfig,
+  PolicyTraceEntry,
+  PriceQuote,
+  PriceSource,
+  PriceSourceConfig,
+  Quorum,
+  QuorumRequest,
+  QuorumIndex,
+  QuorumIndexEntry,
+  ApprovalCodeCheck,
+  ApprovalCodeStore,
 } from "./wallet/index.js";
 
 export { resolveStateDir } from "./wallet/index.js";
@@ -1,18 +1,37 @@
 import { Type } from "@sinclair/typebox";
+import { AsyncLocalStorage } from "node:async_hooks";
 import fs from "node:fs";
+import path from "node:path";
 import { jsonResult } from "openclaw/plugin-sdk";
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import {
   createEncryptedFileKeychainAdapter,
+  createPendingStore,
+  createQuorumIndex,
   createRpcClient,
   createWalletService,
+  decodeResult,
+  DEFAULT_RECEIPT_POLL_INTERVAL_SECONDS,
+  encodeCall,
+  formatApprovalCodeMessage,
+  formatAssetDiff,
+  formatDecodedCall,
+  formatSimulation,
+  formatTypedDataPreview,
   getBlockExplorerAddressUrl,
   getBlockExplorerTxUrl,
+  getWalletsDir,
+  parseAbiInput,
   resolveDefaultChainId,
+  resolveStateDir,
   resolveStateDirForPeer,
   resolveWalletChainConfigForBalance,
   resolveWalletChains,
+  selectFunction,
   SEPOLIA_CHAIN_ID,
+  type CallArgs,
+  type Notifier,
+  type PendingTx,
   type WalletIntegrationConfig,
   type WalletService,
 } from "./wallet/index.js";
@@ -30,6 +49,91 @@ function extractPeerId(sessionKey?: string): string {
   return dmIdx >= 0 && parts[dmIdx + 1] ? parts[dmIdx + 1]! : "default";
 }
 
+/** "<channel>:<peerId>" of a direct-message session key; undefined for other sessions. */
+function extractDmPeer(sessionKey?: string): string | undefined {
+  if (!sessionKey) return undefined;
+  const parts = sessionKey.split(":");
+  const dmIdx = parts.indexOf("dm");
+  if (dmIdx > 0 && parts[dmIdx + 1]) return `${parts[dmIdx - 1]}:${parts[dmIdx + 1]}`;
+  return undefined;
+}
+
+/**
+ * Resolve a notify channel spec to a chat: "telegram:<chatId>" is a fixed chat, a bare
+ * "telegram" means the peer of the DM session on that channel, and "" the peer of the DM
+ * session on any channel. Without a DM session (txs from the CLI or from before origins were
+ * recorded), a bare channel falls back to `walletPeerId`, the peer owning the wallet's state dir.
+ */
+function resolveChannelTarget(
+  spec: string,
+  sessionKey: string | undefined,
+  walletPeerId?: string,
+): { channel: string; to: string } {
+  const trimmed = spec.trim();
+  const sep = trimmed.indexOf(":");
+  if (sep > 0) return { channel: trimmed.slice(0, sep), to: trimmed.slice(sep + 1) };
+  const peer = extractDmPeer(sessionKey);
+  const peerSep = peer?.indexOf(":") ?? -1;
+  if (!peer || peerSep <= 0) {
+    if (trimmed && walletPeerId && walletPeerId !== "default") return { channel: trimmed, to: walletPeerId };
+    throw new Error("Not a direct-message session; configure a fixed chat as <channel>:<chatId>");
+  }
+  const channel = peer.slice(0, peerSep);
+  if (trimmed && channel !== trimmed) {
+    throw new Error(`No chat for "${trimmed}" in a ${channel} session (use "${trimmed}:<chatId>")`);
+  }
+  return { channel, to: peer.slice(peerSep + 1) };
+}
+
+/** Send a message through a channel's runtime sender, bypassing the agent. */
+async function sendChannelMessage(
+  api: OpenClawPluginApi,
+  target: { channel: string; to: string },
+  text: string,
+): Promise<void> {
+  const senders = api.runtime.channel;
+  const { to } = target;
+  switch (target.channel) {
+    case "telegram":
+      await senders.telegram.sendMessageTelegram(to, text);
+      return;
+    case "discord":
+      await senders.discord.sendMessageDiscord(to, text);
+      return;
+    case "slack":
+      await senders.slack.sendMessageSlack(to, text);
+      return;
+    case "signal":
+      await senders.signal.sendMessageSignal(to, text);
+      return;
+    case "imessage":
+      await senders.imessage.sendMessageIMessage(to, text);
+      return;
+    case "whatsapp":
+      await senders.whatsapp.sendMessageWhatsApp(to, text, { verbose: false });
+      return;
+    case "line":
+      await senders.line.sendMessageLine(to, text);
+      return;
+    default:
+      throw new Error(`Channel "${target.channel}" cannot send messages`);
+  }
+}
+
+/**
+ * Notifier that posts notification text to a chat channel. Bare channel specs go to the
+ * session that made the request, falling back to the wallet's peer for txs without one.
+ */
+function createChannelNotifier(api: OpenClawPluginApi, spec: string, walletPeerId: string): Notifier {
+  return {
+    name: `channel:${spec}`,
+    async send(notification) {
+      const target = resolveChannelTarget(spec, notification.pending.origin, walletPeerId);
+      await sendChannelMessage(api, target, notification.text);
+    },
+  };
+}
+
 /* ------------------------------------------------------------------ */
 /*  Helpers                                                           */
 /* ------------------------------------------------------------------ */
@@ -120,6 +224,24 @@ function parseHumanAmount(params: Record<string, unknown>, weiKey: string): stri
   return parseUnitsToWei(amountStr, decimals);
 }
 
+/**
+ * ERC20 `amount` without `unit` or `decimals` is scaled by the token's decimals from the
+ * token registry (read from the contract when the token is unknown).
+ */
+async function withTokenDecimals(
+  svc: WalletService,
+  params: Record<string, unknown>,
+  tokenAddress: string,
+  chainId: number | undefined,
+): Promise<Record<string, unknown>> {
+  const hasRawAmount = typeof params.amountWei === "string" && params.amountWei.trim() !== "";
+  if (hasRawAmount || params.amount == null || typeof params.decimals === "number") return params;
+  if (typeof params.unit === "string" && params.unit.trim()) return params;
+  const token = await svc.resolveToken({ address: tokenAddress, chainId });
+  if (!token) throw new Error(`Could not determine decimals of token ${tokenAddress}; pass \`decimals\``);
+  return { ...params, decimals: token.decimals };
+}
+
 /**
  * Parse a decimal string to wei given a number of decimals.
  * e.g. parseUnitsToWei("1.5", 18) => "1500000000000000000"
@@ -172,8 +294,21 @@ const walletPluginConfigSchema = {
     "wallets.defaults.spending.mode": { label: "Spending mode", advanced: true },
     "wallets.defaults.spending.limitPerTx": { label: "Per-tx limit (wei)" },
     "wallets.defaults.spending.dailyLimit": { label: "Daily limit (wei)" },
+    "wallets.defaults.spending.limitPerTxUsd": { label: "Per-tx limit (USD)" },
+    "wallets.defaults.spending.dailyLimitUsd": { label: "Daily limit (USD)" },
+    "wallets.defaults.spending.window": { label: "Daily limit window", advanced: true },
+    "wallets.defaults.spending.chainLimits": { label: "Per-chain limits (wei)", advanced: true },
     "wallets.defaults.spending.allowedChains": { label: "Allowed chains", advanced: true },
     "wallets.defaults.spending.allowedRecipients": { label: "Allowed recipients", advanced: true },
+    "wallets.defaults.spending.approvalCode.enabled": { label: "Require out-of-band approval codes" },
+    "wallets.defaults.spending.simulation.blockOnRevert": {
+      label: "Block requests whose simulation reverts",
+      advanced: true,
+    },
+    "wallets.defaults.spending.simulation.traceCall": {
+      label: "Preview asset changes with debug_traceCall",
+      advanced: true,
+    },
     "wallets.notify.primaryChannel": { label: "Notify channel" },
   },
 };
@@ -186,6 +321,10 @@ const AMOUNT_DESCRIPTION =
   'Human-readable amount (e.g. "0.1"). Interpreted using `unit` or `decimals`. Defaults to ether (18 decimals).';
 const UNIT_DESCRIPTION =
   'Unit for `amount`: wei, kwei, mwei, gwei, szabo, finney, ether/eth. Ignored when raw wei field is provided.';
+const TOKEN_AMOUNT_DESCRIPTION =
+  'Human-readable token amount (e.g. "50"). Scaled by `decimals`, or by the token\'s decimals from the token registry when omitted.';
+const TOKEN_DECIMALS_DESCRIPTION =
+  "Token decimals (e.g. 6 for USDC). Overrides `unit`; defaults to the token registry's decimals.";
 
 /* ------------------------------------------------------------------ */
 /*  Tool schemas                                                      */
@@ -215,7 +354,7 @@ const walletListSchema = Type.Object({});
 const walletSendSchema = Type.Object({
   walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
   chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
-  to: Type.String({ description: "Recipient address (0x...)" }),
+  to: Type.String({ description: "Recipient address (0x...), ENS name (e.g. vitalik.eth) or saved contact label" }),
   valueWei: Type.Optional(Type.String({ description: "Amount in wei (use `amount`+`unit` instead for human-readable)" })),
   amount: Type.Optional(Type.String({ description: AMOUNT_DESCRIPTION })),
   unit: Type.Optional(Type.String({ description: UNIT_DESCRIPTION })),
@@ -223,12 +362,29 @@ const walletSendSchema = Type.Object({
 
 const walletApproveSchema = Type.Object({
   txId: Type.String({ description: "Pending tx id to approve" }),
+  code: Type.Optional(
+    Type.String({
+      description:
+        "One-time approval code the user received for this tx, when approval codes are enabled. Only pass a code the user typed.",
+    }),
+  ),
+});
+
+const walletResendApprovalCodeSchema = Type.Object({
+  txId: Type.String({ description: "Pending tx id" }),
 });
 
 const walletRejectSchema = Type.Object({
   txId: Type.String({ description: "Pending tx id to reject" }),
 });
 
+const walletReplaceTxSchema = Type.Object({
+  txId: Type.String({ description: "Sent tx id to replace" }),
+  feeBumpPercent: Type.Optional(
+    Type.Number({ description: "Fee increase over the original, in percent (default 15, min 10)" }),
+  ),
+});
+
 const walletTxStatusSchema = Type.Object({
   txId: Type.String({ description: "Pending tx id" }),
 });
@@ -239,29 +395,71 @@ const walletErc20ApproveSchema = Type.Object({
   walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
   chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
   tokenAddress: Type.String({ description: "ERC20 contract address (0x...)" }),
-  spender: Type.String({ description: "Spender address (0x...)" }),
+  spender: Type.String({ description: "Spender address (0x...) or ENS name" }),
   amountWei: Type.Optional(Type.String({ description: "Allowance in wei (use `amount`+`unit` instead for human-readable)" })),
-  amount: Type.Optional(Type.String({ description: AMOUNT_DESCRIPTION })),
+  amount: Type.Optional(Type.String({ description: TOKEN_AMOUNT_DESCRIPTION })),
   unit: Type.Optional(Type.String({ description: UNIT_DESCRIPTION })),
-  decimals: Type.Optional(Type.Number({ description: "Token decimals (e.g. 6 for USDC). Overrides `unit`." })),
+  decimals: Type.Optional(Type.Number({ description: TOKEN_DECIMALS_DESCRIPTION })),
 });
 
 const walletErc20TransferSchema = Type.Object({
   walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
   chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
   tokenAddress: Type.String({ description: "ERC20 contract address (0x...)" }),
-  to: Type.String({ description: "Recipient address (0x...)" }),
+  to: Type.String({ description: "Recipient address (0x...), ENS name (e.g. vitalik.eth) or saved contact label" }),
   amountWei: Type.Optional(Type.String({ description: "Amount in wei (use `amount`+`unit` instead for human-readable)" })),
-  amount: Type.Optional(Type.String({ description: AMOUNT_DESCRIPTION })),
+  amount: Type.Optional(Type.String({ description: TOKEN_AMOUNT_DESCRIPTION })),
   unit: Type.Optional(Type.String({ description: UNIT_DESCRIPTION })),
-  decimals: Type.Optional(Type.Number({ description: "Token decimals (e.g. 6 for USDC). Overrides `unit`." })),
+  decimals: Type.Optional(Type.Number({ description: TOKEN_DECIMALS_DESCRIPTION })),
+});
+
+const COLLECTION_DESCRIPTION = "NFT collection contract address (0x...)";
+const TOKEN_ID_DESCRIPTION = "Token id (decimal string)";
+
+const walletErc721TransferSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+  chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
+  collectionAddress: Type.String({ description: COLLECTION_DESCRIPTION }),
+  to: Type.String({ description: "Recipient address (0x...), ENS name (e.g. vitalik.eth) or saved contact label" }),
+  tokenId: Type.String({ description: TOKEN_ID_DESCRIPTION }),
+});
+
+const walletErc1155TransferSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+  chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
+  collectionAddress: Type.String({ description: COLLECTION_DESCRIPTION }),
+  to: Type.String({ description: "Recipient address (0x...), ENS name (e.g. vitalik.eth) or saved contact label" }),
+  tokenId: Type.String({ description: TOKEN_ID_DESCRIPTION }),
+  amount: Type.Optional(Type.String({ description: "Number of copies of the token to send (default 1)" })),
+});
+
+const walletSetApprovalForAllSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+  chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
+  collectionAddress: Type.String({ description: COLLECTION_DESCRIPTION }),
+  operator: Type.String({ description: "Operator address (0x...) or ENS name, e.g. a marketplace contract" }),
+  approved: Type.Boolean({ description: "true to let the operator move every NFT of the collection, false to revoke" }),
+});
+
+const walletNftsSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+  chainId: Type.Optional(Type.Number({ description: "Only collections on this chain (default: all configured collections)" })),
+});
+
+const walletSignTypedDataSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+  chainId: Type.Optional(Type.Number({ description: "Chain id; defaults to domain.chainId of the typed data" })),
+  typedData: Type.Union([Type.String(), Type.Record(Type.String(), Type.Unknown())], {
+    description:
+      "EIP-712 payload for eth_signTypedData_v4: { types, primaryType, domain, message }, as an object or JSON string. Pass it exactly as the protocol or API returned it.",
+  }),
 });
 
 // Simplified: flat params only, no nested transactionRequest
 const walletContractCallSchema = Type.Object({
   walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
   chainId: Type.Optional(Type.Number({ description: "Target chain id. ALWAYS extract from user message (e.g. 'on Base' → 8453, 'on Polygon' → 137, 'on Arbitrum' → 42161, 'on Ethereum' → 1). Only omit if user does not mention any chain." })),
-  to: Type.String({ description: "Contract address (0x...)" }),
+  to: Type.String({ description: "Contract address (0x...) or ENS name" }),
   data: Type.String({ description: "Calldata hex (0x...). Use wallet_encodeCall to build this." }),
   valueWei: Type.Optional(Type.String({ description: "ETH value in wei (use `amount`+`unit` instead for human-readable)" })),
   amount: Type.Optional(Type.String({ description: AMOUNT_DESCRIPTION })),
@@ -274,24 +472,135 @@ const walletSetDefaultSchema = Type.Object({
   walletId: Type.String({ description: "Wallet id to set as default" }),
 });
 
+const CONTRACT_DESCRIPTION =
+  "Label or address of a contract registered with wallet_registerAbi. Use with `functionName` + `args`.";
+const FUNCTION_NAME_DESCRIPTION =
+  'Function of the registered contract, by name ("balanceOf") or full signature for overloads ("safeTransferFrom(address,address,uint256)")';
+const CALL_ARGS_DESCRIPTION =
+  'Arguments keyed by parameter name (e.g. {"to":"0x...","amount":"1000000"}) or in ABI order. uint/int as decimal strings; structs as objects keyed by field name.';
+
 const walletReadContractSchema = Type.Object({
   chainId: Type.Optional(Type.Number({ description: "Chain id (defaults to configured default)" })),
-  to: Type.String({ description: "Contract address (0x...)" }),
-  data: Type.String({ description: "Calldata hex (0x...). Use wallet_encodeCall to build this." }),
+  to: Type.Optional(Type.String({ description: "Contract address (0x...), with raw `data`" })),
+  data: Type.Optional(
+    Type.String({ description: "Calldata hex (0x...). Use wallet_encodeCall to build this." }),
+  ),
+  contract: Type.Optional(Type.String({ description: CONTRACT_DESCRIPTION })),
+  functionName: Type.Optional(Type.String({ description: FUNCTION_NAME_DESCRIPTION })),
+  args: Type.Optional(
+    Type.Union([Type.Array(Type.Unknown()), Type.Record(Type.String(), Type.Unknown())], {
+      description: CALL_ARGS_DESCRIPTION,
+    }),
+  ),
   from: Type.Optional(Type.String({ description: "Caller address override (for msg.sender-dependent calls)" })),
 });
 
 const walletEncodeCallSchema = Type.Object({
-  functionSignature: Type.String({
+  functionSignature: Type.Optional(
+    Type.String({
+      description:
+        'Solidity function signature, e.g. "transfer(address,uint256)" or "swap(address,address,uint256,uint256,uint256)". Not needed with `contract`.',
+    }),
+  ),
+  contract: Type.Optional(Type.String({ description: CONTRACT_DESCRIPTION })),
+  functionName: Type.Optional(Type.String({ description: FUNCTION_NAME_DESCRIPTION })),
+  chainId: Type.Optional(Type.Number({ description: "Chain id, to pick the registered contract's chain" })),
+  args: Type.Union([Type.Array(Type.Unknown()), Type.Record(Type.String(), Type.Unknown())], {
     description:
-      'Solidity function signature, e.g. "transfer(address,uint256)" or "swap(address,address,uint256,uint256,uint256)"',
+      "Ordered arguments matching the function signature, or keyed by parameter name (with `contract`, or a signature that names its parameters). Addresses as hex strings, uint/int as decimal strings (negative for int), bool as true/false, bytes/bytesN as hex (bytesN also as short text), arrays as JSON arrays, structs as objects keyed by field name or arrays in field order.",
   }),
-  args: Type.Array(Type.Union([Type.String(), Type.Number(), Type.Boolean()]), {
+});
+
+const walletDecodeCallSchema = Type.Object({
+  data: Type.String({ description: "Calldata hex (0x...), e.g. `transactionRequest.data` from a protocol API" }),
+  to: Type.Optional(
+    Type.String({ description: "Target contract address (0x...); enables its registered ABI and token amounts" }),
+  ),
+  chainId: Type.Optional(Type.Number({ description: "Chain id (defaults to configured default)" })),
+});
+
+const BLOCK_DESCRIPTION = 'Block number or "latest"';
+
+const walletGetLogsSchema = Type.Object({
+  chainId: Type.Optional(Type.Number({ description: "Chain id (defaults to configured default)" })),
+  address: Type.Optional(Type.String({ description: "Emitting contract address (0x...)" })),
+  contract: Type.Optional(Type.String({ description: "Registered contract label or address, instead of `address`" })),
+  event: Type.Optional(
+    Type.String({
+      description:
+        'Event signature with `indexed` markers, e.g. "Transfer(address indexed from, address indexed to, uint256 value)", or a name ("Transfer") from the registered contract or common standards',
+    }),
+  ),
+  args: Type.Optional(
+    Type.Record(Type.String(), Type.Unknown(), {
+      description: 'Filter on indexed event params by name, e.g. {"to":"0x..."}; an array matches any of its values',
+    }),
+  ),
+  topics: Type.Optional(
+    Type.Array(Type.Union([Type.String(), Type.Array(Type.String()), Type.Null()]), {
+      description: "Raw topics filter (instead of `event`); null matches any value",
+    }),
+  ),
+  fromBlock: Type.Optional(Type.Union([Type.Number(), Type.Literal("latest")], { description: BLOCK_DESCRIPTION })),
+  toBlock: Type.Optional(Type.Union([Type.Number(), Type.Literal("latest")], { description: BLOCK_DESCRIPTION })),
+  limit: Type.Optional(Type.Number({ description: "Max logs returned; the most recent are kept (default 100, max 1000)" })),
+});
+
+const walletRegisterAbiSchema = Type.Object({
+  label: Type.String({ description: 'Contract name (unique, e.g. "Aave Pool")' }),
+  address: Type.String({ description: "Contract address (0x...)" }),
+  chainId: Type.Optional(Type.Number({ description: "Chain the contract is on (default: any chain)" })),
+  abi: Type.Union([Type.String(), Type.Array(Type.Unknown())], {
     description:
-      "Ordered arguments matching the function signature. Addresses as hex strings, uint/int as decimal strings, bool as true/false.",
+      'JSON ABI (array, or a JSON string of it or of a build artifact with an `abi` field), or human-readable signatures like ["function deposit(uint256 assets, address receiver) returns (uint256)"]',
   }),
 });
 
+const walletListAbisSchema = Type.Object({});
+
+const walletContractFunctionsSchema = Type.Object({
+  contract: Type.String({ description: "Registered contract label or address" }),
+  chainId: Type.Optional(Type.Number({ description: "Chain id override" })),
+});
+
+const walletRemoveAbiSchema = Type.Object({
+  label: Type.String({ description: "Contract label to remove" }),
+});
+
+const walletTokensSchema = Type.Object({
+  chainId: Type.Optional(Type.Number({ description: "Chain id (default: the default chain)" })),
+  includeHidden: Type.Optional(Type.Boolean({ description: "Include hidden and spam tokens" })),
+});
+
+const walletAddTokenSchema = Type.Object({
+  tokenAddress: Type.String({ description: "ERC20 contract address (0x...)" }),
+  chainId: Type.Optional(Type.Number({ description: "Chain id (default: the default chain)" })),
+  symbol: Type.Optional(Type.String({ description: "Symbol (default: read from the contract)" })),
+  decimals: Type.Optional(Type.Number({ description: "Decimals (default: read from the contract)" })),
+  name: Type.Optional(Type.String({ description: "Display name" })),
+});
+
+const walletRemoveTokenSchema = Type.Object({
+  tokenAddress: Type.String({ description: "Custom token address (0x...)" }),
+  chainId: Type.Optional(Type.Number({ description: "Chain id (default: the default chain)" })),
+});
+
+const walletHideTokenSchema = Type.Object({
+  tokenAddress: Type.String({ description: "Token address (0x...)" }),
+  chainId: Type.Optional(Type.Number({ description: "Chain id (default: the default chain)" })),
+  spam: Type.Optional(Type.Boolean({ description: "Mark the token as spam" })),
+  hidden: Type.Optional(Type.Boolean({ description: "false to show a hidden token again (default true)" })),
+});
+
+const walletImportTokenListSchema = Type.Object({
+  url: Type.Optional(Type.String({ description: "Token list URL (https://...)" })),
+  json: Type.Optional(
+    Type.Union([Type.String(), Type.Object({}, { additionalProperties: true })], {
+      description: "Token list JSON (Uniswap token-list format: { name, tokens: [{ chainId, address, symbol, decimals, name }] })",
+    }),
+  ),
+});
+
 const walletChainsSchema = Type.Object({});
 
 const walletHistorySchema = Type.Object({
@@ -300,12 +609,36 @@ const walletHistorySchema = Type.Object({
   action: Type.Optional(
     Type.String({
       description:
-        "Filter by action type (e.g. send_requested, send_approved, send_failed, send_rejected, erc20_approve_requested, erc20_transfer_requested, contract_call_requested, wallet_created, wallet_imported)",
+        "Filter by action type (e.g. send_requested, send_approved, send_failed, send_rejected, request_denied, erc20_approve_requested, erc20_transfer_requested, erc721_transfer_requested, erc1155_transfer_requested, nft_approve_all_requested, contract_call_requested, sign_typed_data_requested, typed_data_signed, typed_data_rejected, wallet_created, wallet_imported)",
     }),
   ),
   limit: Type.Optional(Type.Number({ description: "Max entries to return (default 50)" })),
 });
 
+const walletAddContactSchema = Type.Object({
+  label: Type.String({ description: "Contact name (unique, e.g. \"Acme Hosting\")" }),
+  address: Type.String({ description: "Contact address (0x...)" }),
+  chains: Type.Optional(
+    Type.Array(Type.Number(), { description: "Chain ids the contact can be paid on (default: all)" }),
+  ),
+  notes: Type.Optional(Type.String({ description: "Free-form notes (e.g. invoice reference)" })),
+});
+
+const walletListContactsSchema = Type.Object({});
+
+const walletRemoveContactSchema = Type.Object({
+  label: Type.String({ description: "Contact label to remove" }),
+});
+
+const walletBudgetSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+});
+
+const walletNoncesSchema = Type.Object({
+  walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
+  chainId: Type.Optional(Type.Number({ description: "Chain id override" })),
+});
+
 const walletSendTransactionSchema = Type.Object({
   walletId: Type.Optional(Type.String({ description: "Wallet id override" })),
   transactionRequest: Type.Object(
@@ -362,6 +695,17 @@ const WELL_KNOWN_CHAIN_NAMES: Record<number, string> = {
   81457: "Blast",
 };
 
+/** Per-chain budget for `wallet_balance` with `allChains`. */
+const BALANCE_CHAIN_TIMEOUT_MS = 10_000;
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
 /* ------------------------------------------------------------------ */
 /*  Plugin                                                            */
 /* ------------------------------------------------------------------ */
@@ -373,18 +717,76 @@ const walletPlugin = {
   configSchema: walletPluginConfigSchema,
   register(api: OpenClawPluginApi) {
     const config = walletPluginConfigSchema.parse(api.pluginConfig);
+    // Services by state dir: one per peer.
     const serviceCache = new Map<string, WalletService>();
+    // Parent of every peer's state dir (see resolveStateDirForPeer).
+    const usersDir = path.join(resolveStateDir(), "users");
+    // Quorum txs of every peer's wallet, so approvers in other sessions can vote on them.
+    const quorumIndex = createQuorumIndex(usersDir);
+    /**
+     * Approver identity for quorum votes: "<channel>:<peerId>" of a DM session. Group sessions
+     * have none: the tool context does not say who wrote the message that started the call.
+     */
+    function approverIdFor(ctx: ToolContext): string | undefined {
+      return extractDmPeer(ctx.sessionKey);
+    }
+
+    /** Quorum votes need an approver identity, which only DM sessions have. */
+    async function checkQuorumVoter(ctx: ToolContext, svc: WalletService, txId: string): Promise<string | null> {
+      if (approverIdFor(ctx)) return null;
+      const pending = await svc.getPendingTx(txId);
+      return pending?.requiredApprovals != null
+        ? "Quorum votes can only be cast from a direct-message session with the wallet"
+        : null;
+    }
 
     const chains = resolveWalletChains(config);
     const defaultChainId = resolveDefaultChainId(config);
     const limits = config.wallets?.defaults?.spending;
     const notify = config.wallets?.notify;
+    // Chat channels for lifecycle notifications: the primary channel plus notifyChannels.
+    const notifyChannels = [
+      ...new Set(
+        [notify?.primaryChannel, ...(limits?.notifyChannels ?? [])]
+          .map((c) => c?.trim())
+          .filter((c): c is string => Boolean(c)),
+      ),
+    ];
+
+    function getServiceForContext(ctx: ToolContext): Promise<WalletService> {
+      return getServiceForStateDir(resolveStateDirForPeer(extractPeerId(ctx.sessionKey)));
+    }
 
-    async function getServiceForContext(ctx: ToolContext): Promise<WalletService> {
-      const peerId = extractPeerId(ctx.sessionKey);
-      const cached = serviceCache.get(peerId);
+    /**
+     * Service holding a tx: the caller's own, or the owning peer's service for a quorum tx that
+     * lists the caller among its approvers.
+     */
+    async function getServiceForTx(ctx: ToolContext, txId: string): Promise<WalletService> {
+      const own = await getServiceForContext(ctx);
+      if (!txId || (await own.getPendingTx(txId))) return own;
+      const entry = await quorumIndex.get(txId);
+      const approver = approverIdFor(ctx);
+      if (!entry || !approver || !entry.approvers.includes(approver)) return own;
+      return getServiceForStateDir(entry.stateDir);
+    }
+
+    /**
+     * Signatures are returned only to the session that asked for them, or to the owning peer
+     * for requests stored without an origin; other approvers only see that the tx was signed.
+     */
+    async function canReadSignature(ctx: ToolContext, svc: WalletService, pending: PendingTx): Promise<boolean> {
+      if (pending.origin) return pending.origin === ctx.sessionKey;
+      return svc === (await getServiceForContext(ctx));
+    }
+
+    /**
+     * Service for a peer's state dir, shared by every session that touches it. Notifications
+     * and codes go to the requesting session, else to the peer the dir belongs to.
+     */
+    async function getServiceForStateDir(stateDir: string): Promise<WalletService> {
+      const cached = serviceCache.get(stateDir);
       if (cached) return cached;
-      const stateDir = resolveStateDirForPeer(peerId);
+      const walletPeerId = path.basename(stateDir);
       const keychainAdapter =
         process.platform === "darwin"
           ? undefined
@@ -407,20 +809,37 @@ const walletPlugin = {
         interactWithUnverifiedContracts: config.wallets?.interactWithUnverifiedContracts,
         verifiedTokenAddresses: config.wallets?.defaults?.verifiedTokenAddresses,
         verifiedContractAddresses: config.wallets?.defaults?.verifiedContractAddresses,
+        prices: config.wallets?.prices,
+        receipts: config.wallets?.receipts,
+        abis: config.wallets?.abis,
+        tokens: config.wallets?.tokens,
+        nfts: config.wallets?.nfts,
         keychainAdapter,
+        notifiers: notifyChannels.map((spec) => createChannelNotifier(api, spec, walletPeerId)),
+        deliverApprovalCode: (delivery) =>
+          sendChannelMessage(
+            api,
+            resolveChannelTarget(notify?.primaryChannel || "", delivery.pending.origin, walletPeerId),
+            formatApprovalCodeMessage(delivery),
+          ),
+        quorumIndex,
+        requestOrigin: () => toolSession.getStore(),
       });
       if (config.wallets?.autoCreateOnStartup === true) {
         await svc.ensureDefaultWallet();
       }
-      serviceCache.set(peerId, svc);
+      serviceCache.set(stateDir, svc);
       return svc;
     }
 
+    // Session of the tool call being executed; txs it creates remember it as their origin.
+    const toolSession = new AsyncLocalStorage<string | undefined>();
+
     const withErrors =
-      (handler: (params: Record<string, unknown>) => Promise<unknown>) =>
+      (ctx: ToolContext, handler: (params: Record<string, unknown>) => Promise<unknown>) =>
       async (_toolCallId: string, params: Record<string, unknown>) => {
         try {
-          return jsonResult(await handler(params));
+          return jsonResult(await toolSession.run(ctx.sessionKey, () => handler(params)));
         } catch (error) {
           return jsonResult({ error: error instanceof Error ? error.message : String(error) });
         }
@@ -432,7 +851,7 @@ const walletPlugin = {
       label: "Wallet Address",
       description: "Get the default wallet address (or an explicit walletId).",
       parameters: walletAddressSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const walletId = typeof params.walletId === "string" ? params.walletId : undefined;
         const address = await svc.getAddress(walletId);
@@ -457,7 +876,7 @@ const walletPlugin = {
       description:
         "Fetch native balance and optional ERC20 balances. Use `allChains: true` to get balances across all configured chains. Use `tokenAddress` to query any arbitrary ERC20.",
       parameters: walletBalanceSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const walletId = typeof params.walletId === "string" ? params.walletId : undefined;
         const address = await svc.getAddress(walletId);
@@ -469,27 +888,42 @@ const walletPlugin = {
         const includeTokens = params.includeTokens === true;
         const arbitraryToken =
           typeof params.tokenAddress === "string" ? params.tokenAddress.trim() : undefined;
+        // Built-in, config and custom tokens that are not hidden.
+        const trackedTokens = async (cid: number) =>
+          (await svc.listTokens({ chainId: cid })).tokens.filter((t) => t.tracked);
 
         if (allChains) {
           const chains = resolveWalletChains(config);
           const chainIds = Object.keys(chains).map(Number).filter(Number.isFinite);
-          const results: Array<Record<string, unknown>> = [];
-          for (const cid of chainIds) {
-            const chainConfig = resolveWalletChainConfigForBalance(config, cid);
-            if (!chainConfig) continue;
-            const rpc = createRpcClient(chainConfig.rpcUrl, cid);
-            const balance = await rpc.getBalance(address);
-            const tokens = includeTokens
-              ? await getTokenBalances(rpc.publicClient, cid, address)
-              : [];
-            results.push({
-              chainId: cid,
-              chainName: WELL_KNOWN_CHAIN_NAMES[cid] ?? `Chain ${cid}`,
-              balanceWei: balance.toString(),
-              tokens,
-              explorerUrl: getBlockExplorerAddressUrl(config, cid, address),
-            });
-          }
+          // Chains are queried in parallel; a slow or failing RPC only fails its own entry.
+          const results = await Promise.all(
+            chainIds.flatMap((cid) => {
+              const chainConfig = resolveWalletChainConfigForBalance(config, cid);
+              if (!chainConfig) return [];
+              const entry = {
+                chainId: cid,
+                chainName: WELL_KNOWN_CHAIN_NAMES[cid] ?? `Chain ${cid}`,
+                explorerUrl: getBlockExplorerAddressUrl(config, cid, address),
+              };
+              const query = async () => {
+                const rpc = createRpcClient(chainConfig.rpcUrl, cid, {
+                  multicall3Address: chainConfig.multicall3Address,
+                });
+                const [balance, tokens] = await Promise.all([
+                  rpc.getBalance(address),
+                  includeTokens
+                    ? trackedTokens(cid).then((t) => getTokenBalances(rpc.publicClient, cid, address, t))
+                    : [],
+                ]);
+                return { ...entry, balanceWei: balance.toString(), tokens };
+              };
+              return [
+                withTimeout(query(), BALANCE_CHAIN_TIMEOUT_MS, `Chain ${cid} did not respond in time`).catch(
+                  (err: unknown) => ({ ...entry, error: err instanceof Error ? err.message : String(err) }),
+                ),
+              ];
+            }),
+          );
           return { address, chains: results };
         }
 
@@ -499,48 +933,40 @@ const walletPlugin = {
         if (!chainConfig) {
           throw new Error(`Chain ${chainId} not configured and no public RPC available.`);
         }
-        const rpc = createRpcClient(chainConfig.rpcUrl, chainId);
-        const balance = await rpc.getBalance(address);
-        const tokens = includeTokens
-          ? await getTokenBalances(rpc.publicClient, chainId, address)
-          : [];
+        const rpc = createRpcClient(chainConfig.rpcUrl, chainId, {
+          multicall3Address: chainConfig.multicall3Address,
+        });
+        const [balance, tokens] = await Promise.all([
+          rpc.getBalance(address),
+          includeTokens
+            ? trackedTokens(chainId).then((t) => getTokenBalances(rpc.publicClient, chainId, address, t))
+            : [],
+        ]);
 
         // Query arbitrary token balance if provided
         let arbitraryTokenBalance: Record<string, unknown> | undefined;
         if (arbitraryToken && arbitraryToken.startsWith("0x") && arbitraryToken.length === 42) {
           try {
             const { parseAbi } = await import("viem");
-            const abi = parseAbi([
-              "function balanceOf(address account) view returns (uint256)",
-              "function symbol() view returns (string)",
-              "function decimals() view returns (uint8)",
-            ]);
-            const bal = await rpc.publicClient.readContract({
-              address: arbitraryToken as `0x${string}`,
-              abi,
-              functionName: "balanceOf",
-              args: [address as `0x${string}`],
-            });
-            let symbol = "UNKNOWN";
-            let decimals = 18;
-            try {
-              symbol = (await rpc.publicClient.readContract({
-                address: arbitraryToken as `0x${string}`,
-                abi,
-                functionName: "symbol",
-              })) as string;
-              decimals = (await rpc.publicClient.readContract({
+            const abi = parseAbi(["function balanceOf(address account) view returns (uint256)"]);
+            // Registry entry, or metadata read from the contract (cached for next time).
+            const [bal, token] = await Promise.all([
+              rpc.publicClient.readContract({
                 address: arbitraryToken as `0x${string}`,
                 abi,
-                functionName: "decimals",
-              })) as number;
-            } catch {
-              // some tokens don't implement symbol/decimals
-            }
+                functionName: "balanceOf",
+                args: [address as `0x${string}`],
+              }),
+              svc
+                .resolveToken({ address: arbitraryToken, chainId, publicClient: rpc.publicClient })
+                .catch(() => null),
+            ]);
             arbitraryTokenBalance = {
               tokenAddress: arbitraryToken,
-              symbol,
-              decimals,
+              symbol: token?.symbol ?? "UNKNOWN",
+              decimals: token?.decimals ?? 18,
+              ...(token?.name ? { name: token.name } : {}),
+              ...(token?.spam ? { spam: true } : {}),
               balanceWei: (bal as bigint).toString(),
             };
           } catch {
@@ -568,7 +994,7 @@ const walletPlugin = {
       label: "Wallet Create",
       description: "Create a new wallet (address only; keys are never exposed).",
       parameters: walletCreateSchema,
-      execute: withErrors(async () => {
+      execute: withErrors(ctx, async () => {
         const svc = await getServiceForContext(ctx);
         const meta = await svc.createWallet();
         return {
@@ -586,15 +1012,21 @@ const walletPlugin = {
       label: "Wallet List",
       description: "List known wallets and the current default wallet.",
       parameters: walletListSchema,
-      execute: withErrors(async () => {
+      execute: withErrors(ctx, async () => {
         const svc = await getServiceForContext(ctx);
         const { wallets, defaultWalletId } = await svc.listWallets();
         return {
           defaultWalletId,
-          wallets: wallets.map((wallet) => ({
-            ...wallet,
-            isDefault: wallet.walletId === defaultWalletId,
-          })),
+          wallets: await Promise.all(
+            wallets.map(async (wallet) => {
+              const ensName = await svc.lookupName(wallet.address);
+              return {
+                ...wallet,
+                ...(ensName ? { ensName } : {}),
+                isDefault: wallet.walletId === defaultWalletId,
+              };
+            }),
+          ),
         };
       }),
     }));
@@ -605,7 +1037,7 @@ const walletPlugin = {
       label: "Wallet Set Default",
       description: "Set the default wallet by id.",
       parameters: walletSetDefaultSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const walletId = typeof params.walletId === "string" ? params.walletId : "";
         if (!walletId) {
@@ -628,7 +1060,7 @@ const walletPlugin = {
       description:
         'Create a pending native send transaction. IMPORTANT: If the user specifies a chain (e.g. "on Base", "on Polygon"), you MUST pass the corresponding chainId (Base=8453, Polygon=137, Arbitrum=42161, Ethereum=1, Sepolia=11155111). Supports human-readable amounts: use `amount` + `unit` (e.g. amount:"0.5", unit:"ether") OR raw `valueWei`.',
       parameters: walletSendSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const rawTo = params.to;
         if (typeof rawTo !== "string" || !rawTo.trim()) {
@@ -649,15 +1081,18 @@ const walletPlugin = {
       name: "wallet_erc20_approve",
       label: "Wallet ERC20 Approve",
       description:
-        'Create a pending ERC20 approve transaction. Supports human-readable amounts: use `amount` + `decimals` (e.g. amount:"100", decimals:6 for USDC) OR raw `amountWei`.',
+        'Create a pending ERC20 approve transaction. Supports human-readable amounts: use `amount` (e.g. amount:"100"; `decimals` defaults to the token\'s) OR raw `amountWei`.',
       parameters: walletErc20ApproveSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const tokenAddress = typeof params.tokenAddress === "string" ? params.tokenAddress : "";
         const spender = typeof params.spender === "string" ? params.spender : "";
-        const amountWei = parseHumanAmount(params, "amountWei");
-        if (!amountWei) throw new Error("Either `amountWei` or `amount` is required");
         const chainId = typeof params.chainId === "number" ? params.chainId : undefined;
+        const amountWei = parseHumanAmount(
+          await withTokenDecimals(svc, params, tokenAddress, chainId),
+          "amountWei",
+        );
+        if (!amountWei) throw new Error("Either `amountWei` or `amount` is required");
         const walletId = typeof params.walletId === "string" ? params.walletId : undefined;
         const result = await svc.requestErc20Approve({
           walletId,
@@ -675,15 +1110,18 @@ const walletPlugin = {
       name: "wallet_erc20_transfer",
       label: "Wallet ERC20 Transfer",
       description:
-        'Create a pending ERC20 transfer transaction. Supports human-readable amounts: use `amount` + `decimals` (e.g. amount:"50", decimals:6 for USDC) OR raw `amountWei`.',
+        'Create a pending ERC20 transfer transaction. Supports human-readable amounts: use `amount` (e.g. amount:"50"; `decimals` defaults to the token\'s) OR raw `amountWei`.',
       parameters: walletErc20TransferSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const tokenAddress = typeof params.tokenAddress === "string" ? params.tokenAddress : "";
         const to = typeof params.to === "string" ? params.to : "";
-        const amountWei = parseHumanAmount(params, "amountWei");
-        if (!amountWei) throw new Error("Either `amountWei` or `amount` is required");
         const chainId = typeof params.chainId === "number" ? params.chainId : undefined;
+        const amountWei = parseHumanAmount(
+          await withTokenDecimals(svc, params, tokenAddress, chainId),
+          "amountWei",
+        );
+        if (!amountWei) throw new Error("Either `amountWei` or `amount` is required");
         const walletId = typeof params.walletId === "string" ? params.walletId : undefined;
         const result = await svc.requestErc20Transfer({
           walletId,
@@ -696,6 +1134,89 @@ const walletPlugin = {
       }),
     }));
 
+    /* ---- wallet_erc721_transfer / wallet_erc1155_transfer / wallet_setApprovalForAll (NFTs) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_erc721_transfer",
+      label: "Wallet ERC721 Transfer",
+      description:
+        "Create a pending ERC721 (NFT) transfer with safeTransferFrom. Use wallet_nfts to find the token ids the wallet holds.",
+      parameters: walletErc721TransferSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const result = await svc.requestErc721Transfer({
+          walletId: typeof params.walletId === "string" ? params.walletId : undefined,
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          collectionAddress: typeof params.collectionAddress === "string" ? params.collectionAddress : "",
+          to: typeof params.to === "string" ? params.to : "",
+          tokenId: typeof params.tokenId === "string" ? params.tokenId : String(params.tokenId ?? ""),
+        });
+        return { txId: result.txId, pending: result.pending };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_erc1155_transfer",
+      label: "Wallet ERC1155 Transfer",
+      description:
+        "Create a pending ERC1155 transfer of `amount` (default 1) copies of a token id with safeTransferFrom.",
+      parameters: walletErc1155TransferSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const result = await svc.requestErc1155Transfer({
+          walletId: typeof params.walletId === "string" ? params.walletId : undefined,
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          collectionAddress: typeof params.collectionAddress === "string" ? params.collectionAddress : "",
+          to: typeof params.to === "string" ? params.to : "",
+          tokenId: typeof params.tokenId === "string" ? params.tokenId : String(params.tokenId ?? ""),
+          amount: typeof params.amount === "string" ? params.amount : undefined,
+        });
+        return { txId: result.txId, pending: result.pending };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_setApprovalForAll",
+      label: "Wallet NFT Approval For All",
+      description:
+        "Create a pending setApprovalForAll on an ERC721 / ERC1155 collection. Approving lets the operator move EVERY NFT of the collection, so it always needs the user's approval; only do it when the user explicitly asks (e.g. to list on a marketplace). `approved: false` revokes.",
+      parameters: walletSetApprovalForAllSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const result = await svc.requestSetApprovalForAll({
+          walletId: typeof params.walletId === "string" ? params.walletId : undefined,
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          collectionAddress: typeof params.collectionAddress === "string" ? params.collectionAddress : "",
+          operator: typeof params.operator === "string" ? params.operator : "",
+          approved: params.approved as boolean,
+        });
+        return { txId: result.txId, pending: result.pending };
+      }),
+    }));
+
+    /* ---- wallet_signTypedData ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_signTypedData",
+      label: "Wallet Sign Typed Data",
+      description:
+        "Create a pending EIP-712 signature request (eth_signTypedData_v4), e.g. for CoW Swap orders, Permit2 or gasless relayers. Nothing is broadcast: once the user approves with wallet_approve, the signature is returned. Permits and Seaport orders let someone else take tokens from the wallet; always show `summary` and any warnings to the user.",
+      parameters: walletSignTypedDataSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const result = await svc.requestSignTypedData({
+          walletId: typeof params.walletId === "string" ? params.walletId : undefined,
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          typedData: params.typedData,
+        });
+        return {
+          txId: result.txId,
+          pending: result.pending,
+          summary: result.pending.typedDataPreview
+            ? formatTypedDataPreview(result.pending.typedDataPreview)
+            : undefined,
+        };
+      }),
+    }));
+
     /* ---- wallet_contract_call (simplified, with human-readable amounts) ---- */
     api.registerTool((ctx: ToolContext) => ({
       name: "wallet_contract_call",
@@ -703,7 +1224,7 @@ const walletPlugin = {
       description:
         'Create a pending contract call transaction. Use wallet_encodeCall to build the `data` param. Supports human-readable ETH value: use `amount` + `unit` OR raw `valueWei`.',
       parameters: walletContractCallSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const to = typeof params.to === "string" ? params.to : "";
         const data = typeof params.data === "string" ? params.data : "";
@@ -730,15 +1251,18 @@ const walletPlugin = {
     api.registerTool((ctx: ToolContext) => ({
       name: "wallet_txStatus",
       label: "Wallet Transaction Status",
-      description: "Get the status of a pending transaction (pending=awaiting approval).",
+      description:
+        "Get the status of a transaction (pending=awaiting approval). Sent transactions are checked on-chain: confirmed, reverted or dropped.",
       parameters: walletTxStatusSchema,
-      execute: withErrors(async (params) => {
-        const svc = await getServiceForContext(ctx);
+      execute: withErrors(ctx, async (params) => {
         const txId = typeof params.txId === "string" ? params.txId : "";
-        const pending = await svc.getPendingTx(txId);
-        if (!pending) {
+        const svc = await getServiceForTx(ctx, txId);
+        const refreshed = await svc.refreshTxStatus(txId);
+        if (!refreshed) {
           return { found: false };
         }
+        const readable = await canReadSignature(ctx, svc, refreshed);
+        const pending = readable ? refreshed : { ...refreshed, signature: undefined };
         const statusLabel = pending.status === "pending" ? "awaiting approval" : pending.status;
         let statusNote: string | undefined;
         switch (pending.status) {
@@ -746,7 +1270,23 @@ const walletPlugin = {
             statusNote = "Pending means awaiting user approval; it has not been broadcast.";
             break;
           case "sent":
-            statusNote = "Sent means broadcast to the network; it may still be unconfirmed.";
+            statusNote = pending.receipt
+              ? `Mined in block ${pending.receipt.blockNumber} with ${pending.receipt.confirmations} confirmation(s); waiting for more.`
+              : "Sent means broadcast to the network; not mined yet.";
+            break;
+          case "confirmed":
+            statusNote = "Confirmed means mined and executed successfully.";
+            break;
+          case "reverted":
+            statusNote = "Reverted means mined but execution failed; gas was still spent.";
+            break;
+          case "dropped":
+            statusNote = "Dropped means it will not be mined (replaced or evicted); nothing was executed.";
+            break;
+          case "signed":
+            statusNote = readable
+              ? "Signed means the signature request was approved; the signature is in pending.signature."
+              : "Signed means the signature request was approved; the signature was returned to the requesting session.";
             break;
           case "failed":
             statusNote = "Failed means signing or broadcast failed.";
@@ -762,6 +1302,10 @@ const walletPlugin = {
           pending,
           statusLabel,
           statusNote,
+          simulationNote: formatSimulation(pending.simulation),
+          callSummary: pending.decodedCall ? formatDecodedCall(pending.decodedCall) : undefined,
+          typedDataSummary: pending.typedDataPreview ? formatTypedDataPreview(pending.typedDataPreview) : undefined,
+          assetChanges: pending.simulation?.assetDiff ? formatAssetDiff(pending.simulation.assetDiff) : undefined,
           explorerUrl:
             pending.txHash != null
               ? getBlockExplorerTxUrl(config, pending.chainId, pending.txHash)
@@ -774,15 +1318,39 @@ const walletPlugin = {
     api.registerTool((ctx: ToolContext) => ({
       name: "wallet_approve",
       label: "Wallet Approve Transaction",
-      description: "Approve and broadcast a pending transaction.",
+      description:
+        "Approve and broadcast a pending transaction, or sign a pending signature request (returns `signature` to the session that requested it). For requests that need several approvers, this records the current user's approval and proceeds once the quorum is met. When the pending tx has approvalCodeExpiresAt, pass the one-time `code` the user received privately; never guess it.",
       parameters: walletApproveSchema,
-      execute: withErrors(async (params) => {
-        const svc = await getServiceForContext(ctx);
+      execute: withErrors(ctx, async (params) => {
         const txId = typeof params.txId === "string" ? params.txId : "";
-        const result = await svc.approveTx(txId);
+        const svc = await getServiceForTx(ctx, txId);
+        const code = typeof params.code === "string" ? params.code : undefined;
+        const refused = await checkQuorumVoter(ctx, svc, txId);
+        if (refused) return { ok: false, error: refused };
+        const before = await svc.getPendingTx(txId);
+        const result = await svc.approveTx(txId, approverIdFor(ctx), code);
         if ("error" in result) {
           return { ok: false, error: result.error };
         }
+        if ("status" in result) {
+          return {
+            ok: true,
+            status: result.status,
+            approvals: result.approvals,
+            requiredApprovals: result.requiredApprovals,
+          };
+        }
+        if ("signature" in result) {
+          if (before && !(await canReadSignature(ctx, svc, before))) {
+            return {
+              ok: true,
+              status: "signed",
+              chainId: result.chainId,
+              note: "Signed; the signature was returned to the session that requested it (wallet_txStatus there).",
+            };
+          }
+          return { ok: true, signature: result.signature, chainId: result.chainId };
+        }
         return {
           ok: true,
           txHash: result.txHash,
@@ -792,16 +1360,66 @@ const walletPlugin = {
       }),
     }));
 
+    /* ---- wallet_resendApprovalCode ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_resendApprovalCode",
+      label: "Wallet Resend Approval Code",
+      description:
+        "Send a new one-time approval code for a pending transaction to the user (e.g. when the previous code expired). The code is never returned to you.",
+      parameters: walletResendApprovalCodeSchema,
+      execute: withErrors(ctx, async (params) => {
+        const txId = typeof params.txId === "string" ? params.txId : "";
+        const svc = await getServiceForTx(ctx, txId);
+        return svc.resendApprovalCode(txId);
+      }),
+    }));
+
     /* ---- wallet_reject ---- */
     api.registerTool((ctx: ToolContext) => ({
       name: "wallet_reject",
       label: "Wallet Reject Transaction",
       description: "Reject/cancel a pending transaction (marks it as rejected, never broadcasts).",
       parameters: walletRejectSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
+        const txId = typeof params.txId === "string" ? params.txId : "";
+        const svc = await getServiceForTx(ctx, txId);
+        const refused = await checkQuorumVoter(ctx, svc, txId);
+        if (refused) return { ok: false, error: refused };
+        return svc.rejectTx(txId, approverIdFor(ctx));
+      }),
+    }));
+
+    /* ---- wallet_speedUp ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_speedUp",
+      label: "Wallet Speed Up Transaction",
+      description:
+        "Create a pending replacement for a sent (not yet mined) transaction: same nonce, same call, higher fees. It needs approval like any other transaction.",
+      parameters: walletReplaceTxSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const txId = typeof params.txId === "string" ? params.txId : "";
+        const feeBumpPercent =
+          typeof params.feeBumpPercent === "number" ? params.feeBumpPercent : undefined;
+        const result = await svc.requestSpeedUp({ txId, feeBumpPercent });
+        return { txId: result.txId, pending: result.pending };
+      }),
+    }));
+
+    /* ---- wallet_cancel ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_cancel",
+      label: "Wallet Cancel Transaction",
+      description:
+        "Create a pending cancellation for a sent (not yet mined) transaction: a 0-value transfer to the wallet itself with the same nonce and higher fees. It needs approval like any other transaction. Use wallet_reject for transactions that were never broadcast.",
+      parameters: walletReplaceTxSchema,
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const txId = typeof params.txId === "string" ? params.txId : "";
-        return svc.rejectTx(txId);
+        const feeBumpPercent =
+          typeof params.feeBumpPercent === "number" ? params.feeBumpPercent : undefined;
+        const result = await svc.requestCancel({ txId, feeBumpPercent });
+        return { txId: result.txId, pending: result.pending };
       }),
     }));
 
@@ -810,14 +1428,27 @@ const walletPlugin = {
       name: "wallet_listPending",
       label: "Wallet List Pending",
       description:
-        "List all pending transactions awaiting approval. Returns only transactions with status 'pending'.",
+        "List all pending transactions awaiting approval, including other users' transactions that need the current user's vote. Returns only transactions with status 'pending'.",
       parameters: walletListPendingSchema,
-      execute: withErrors(async () => {
+      execute: withErrors(ctx, async () => {
         const svc = await getServiceForContext(ctx);
         const pending = await svc.listPending();
+        const approver = approverIdFor(ctx);
+        const shared = approver ? await quorumIndex.load() : [];
+        for (const entry of shared) {
+          if (!approver || !entry.approvers.includes(approver)) continue;
+          if (pending.some((p) => p.txId === entry.txId)) continue;
+          const tx = await (await getServiceForStateDir(entry.stateDir)).getPendingTx(entry.txId);
+          if (tx?.status === "pending") pending.push(tx);
+        }
         return {
           count: pending.length,
-          pending,
+          pending: pending.map((p) => ({
+            ...p,
+            simulationNote: formatSimulation(p.simulation),
+            callSummary: p.decodedCall ? formatDecodedCall(p.decodedCall) : undefined,
+            assetChanges: p.simulation?.assetDiff ? formatAssetDiff(p.simulation.assetDiff) : undefined,
+          })),
         };
       }),
     }));
@@ -827,16 +1458,25 @@ const walletPlugin = {
       name: "wallet_readContract",
       label: "Wallet Read Contract",
       description:
-        "Perform a read-only contract call (eth_call). No transaction, no approval needed. Use wallet_encodeCall to build `data`. Returns raw hex result.",
+        "Perform a read-only contract call (eth_call). No transaction, no approval needed. Either call a registered contract by `contract` + `functionName` + `args` (the result is decoded to JSON), or pass `to` + raw `data` from wallet_encodeCall (returns raw hex).",
       parameters: walletReadContractSchema,
-      execute: withErrors(async (params) => {
-        const to = typeof params.to === "string" ? params.to.trim() : "";
-        if (!to.startsWith("0x") || to.length !== 42) throw new Error("Invalid contract address");
-        const data = typeof params.data === "string" ? params.data.trim() : "";
-        if (!data.startsWith("0x")) throw new Error("data must be hex (0x...)");
+      execute: withErrors(ctx, async (params) => {
         const from = typeof params.from === "string" ? params.from.trim() : undefined;
         const chainId =
           typeof params.chainId === "number" ? params.chainId : resolveDefaultChainId(config);
+        const contract = typeof params.contract === "string" ? params.contract.trim() : "";
+        const encoded = contract
+          ? await (await getServiceForContext(ctx)).encodeContractCall({
+              contract,
+              chainId,
+              functionName: typeof params.functionName === "string" ? params.functionName : "",
+              args: params.args as CallArgs | undefined,
+            })
+          : null;
+        const to = encoded?.to ?? (typeof params.to === "string" ? params.to.trim() : "");
+        if (!to.startsWith("0x") || to.length !== 42) throw new Error("Invalid contract address");
+        const data = encoded?.data ?? (typeof params.data === "string" ? params.data.trim() : "");
+        if (!data.startsWith("0x")) throw new Error("data must be hex (0x...)");
         const chainConfig = resolveWalletChainConfigForBalance(config, chainId);
         if (!chainConfig) {
           throw new Error(`Chain ${chainId} not configured and no public RPC available.`);
@@ -851,6 +1491,13 @@ const walletPlugin = {
           chainId,
           to,
           result: result.data ?? "0x",
+          ...(encoded
+            ? {
+                contract: encoded.label,
+                functionSignature: encoded.signature,
+                decoded: decodeResult(encoded.function, result.data ?? "0x"),
+              }
+            : {}),
         };
       }),
     }));
@@ -860,42 +1507,88 @@ const walletPlugin = {
       name: "wallet_encodeCall",
       label: "Wallet Encode Call",
       description:
-        'Encode calldata for a contract function. Provide a Solidity function signature and ordered args. Returns hex calldata for use with wallet_contract_call or wallet_readContract. Example: functionSignature="transfer(address,uint256)", args=["0xRecipient","1000000"].',
+        'Encode calldata for a contract function. Either give a registered `contract` + `functionName` + named args (e.g. contract="USDC", functionName="transfer", args={"to":"0xRecipient","amount":"1000000"}; the contract address is returned as `to`), or a Solidity function signature and ordered args (functionSignature="transfer(address,uint256)", args=["0xRecipient","1000000"]). Returns hex calldata for use with wallet_contract_call or wallet_readContract.',
       parameters: walletEncodeCallSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
+        const contract = typeof params.contract === "string" ? params.contract.trim() : "";
+        if (contract) {
+          const svc = await getServiceForContext(ctx);
+          const encoded = await svc.encodeContractCall({
+            contract,
+            chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+            functionName: typeof params.functionName === "string" ? params.functionName : "",
+            args: params.args as CallArgs | undefined,
+          });
+          return {
+            data: encoded.data,
+            to: encoded.to,
+            contract: encoded.label,
+            functionSignature: encoded.signature,
+            args: params.args,
+          };
+        }
         const sig = typeof params.functionSignature === "string" ? params.functionSignature.trim() : "";
         if (!sig) throw new Error("functionSignature is required");
-        const args = Array.isArray(params.args) ? params.args : [];
-
-        const viem = await import("viem");
+        const args = params.args as CallArgs;
 
-        // Build a minimal ABI from the signature
-        // Wrap it as "function <sig> returns ()" so parseAbi accepts it
+        // Build a minimal ABI from the signature; args are coerced by the parsed parameter types.
         const abiStr = sig.startsWith("function ") ? sig : `function ${sig}`;
-        const abi = viem.parseAbi([abiStr]);
-        // Extract function name from signature
         const fnName = sig.replace(/^function\s+/, "").split("(")[0].trim();
+        const fn = selectFunction(parseAbiInput([abiStr]), fnName);
+        const encoded = encodeCall(fn, args);
 
-        // Coerce args: addresses stay as strings, numbers as bigints for uint
-        const coercedArgs = args.map((arg) => {
-          if (typeof arg === "boolean") return arg;
-          if (typeof arg === "string") {
-            if (arg.startsWith("0x")) return arg;
-            if (/^-?\d+$/.test(arg)) return BigInt(arg);
-            return arg;
-          }
-          if (typeof arg === "number") return BigInt(arg);
-          return arg;
-        });
+        return { data: encoded, functionSignature: sig, args };
+      }),
+    }));
 
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- runtime ABI from user input
-        const encoded = viem.encodeFunctionData({
-          abi: abi as any,
-          functionName: fnName as any,
-          args: coercedArgs as any,
-        } as any);
+    /* ---- wallet_decodeCall (calldata decoding) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_decodeCall",
+      label: "Wallet Decode Call",
+      description:
+        "Decode calldata into the function and its named args, using registered ABIs, built-in standard ABIs (ERC20/721/1155, WETH, Multicall, Permit2, Uniswap routers) and an offline selector database. Batched calls are decoded too. Use it to explain what a protocol API's `transactionRequest` will do before calling wallet_sendTransaction.",
+      parameters: walletDecodeCallSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const data = typeof params.data === "string" ? params.data.trim() : "";
+        const decoded = await svc.decodeCall({
+          data,
+          to: typeof params.to === "string" && params.to.trim() ? params.to : undefined,
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+        });
+        if (!decoded) {
+          return {
+            selector: data.slice(0, 10),
+            decoded: null,
+            note: "Unknown function selector. Register the contract's ABI with wallet_registerAbi to decode it.",
+          };
+        }
+        return { selector: data.slice(0, 10), decoded, summary: formatDecodedCall(decoded) };
+      }),
+    }));
 
-        return { data: encoded, functionSignature: sig, args };
+    /* ---- wallet_getLogs (event log query) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_getLogs",
+      label: "Wallet Get Logs",
+      description:
+        "Query event logs over a block range (default: the last 1000 blocks, max 10000) by contract address, event signature or name (optionally filtered by indexed args), or raw topics. Logs are decoded with the queried event, registered ABIs and common standard events.",
+      parameters: walletGetLogsSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const str = (v: unknown) => (typeof v === "string" && v.trim() ? v : undefined);
+        const block = (v: unknown) => (typeof v === "number" || v === "latest" ? v : undefined);
+        return await svc.getLogs({
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          address: str(params.address),
+          contract: str(params.contract),
+          event: str(params.event),
+          args: params.args as Record<string, unknown> | undefined,
+          topics: params.topics as Array<string | string[] | null> | undefined,
+          fromBlock: block(params.fromBlock),
+          toBlock: block(params.toBlock),
+          limit: typeof params.limit === "number" ? params.limit : undefined,
+        });
       }),
     }));
 
@@ -906,7 +1599,7 @@ const walletPlugin = {
       description:
         "List all configured chains with their IDs, names, RPC URLs, and block explorer URLs. Use this to discover available chains before sending transactions or checking balances.",
       parameters: walletChainsSchema,
-      execute: withErrors(async () => {
+      execute: withErrors(ctx, async () => {
         const chains = resolveWalletChains(config);
         const defaultChainId = resolveDefaultChainId(config);
         const entries = Object.entries(chains).map(([idStr, chain]) => {
@@ -933,7 +1626,7 @@ const walletPlugin = {
       description:
         "Query wallet transaction history from the audit log. Returns recent entries (most recent first). Filter by walletId, chainId, or action type.",
       parameters: walletHistorySchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const filter: Record<string, unknown> = {};
         if (typeof params.walletId === "string") filter.walletId = params.walletId;
@@ -948,6 +1641,243 @@ const walletPlugin = {
       }),
     }));
 
+    /* ---- wallet_addContact / wallet_listContacts / wallet_removeContact (address book) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_addContact",
+      label: "Wallet Add Contact",
+      description:
+        "Save an address under a label in the address book. The label can then be used as `to` in wallet_send and wallet_erc20_transfer.",
+      parameters: walletAddContactSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const label = typeof params.label === "string" ? params.label : "";
+        const address = typeof params.address === "string" ? params.address : "";
+        const chains = Array.isArray(params.chains)
+          ? params.chains.filter((c): c is number => typeof c === "number")
+          : undefined;
+        const notes = typeof params.notes === "string" ? params.notes : undefined;
+        const contact = await svc.addContact({ label, address, chains, notes });
+        return { contact };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_listContacts",
+      label: "Wallet List Contacts",
+      description: "List saved contacts (label, address, allowed chains, notes).",
+      parameters: walletListContactsSchema,
+      execute: withErrors(ctx, async () => {
+        const svc = await getServiceForContext(ctx);
+        const contacts = await svc.listContacts();
+        return { count: contacts.length, contacts };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_removeContact",
+      label: "Wallet Remove Contact",
+      description: "Remove a contact from the address book by label.",
+      parameters: walletRemoveContactSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const label = typeof params.label === "string" ? params.label : "";
+        return await svc.removeContact(label);
+      }),
+    }));
+
+    /* ---- wallet_registerAbi / wallet_listAbis / wallet_contractFunctions / wallet_removeAbi (ABI registry) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_registerAbi",
+      label: "Wallet Register ABI",
+      description:
+        "Save a contract's ABI under a label and address. The label can then be used as `contract` in wallet_encodeCall and wallet_readContract, and calls to the contract are decoded for approvers. Registering an existing label replaces it.",
+      parameters: walletRegisterAbiSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const entry = await svc.registerContractAbi({
+          label: typeof params.label === "string" ? params.label : "",
+          address: typeof params.address === "string" ? params.address : "",
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          abi: params.abi as string | string[],
+        });
+        const { functions } = await svc.getContractFunctions(entry.label);
+        return {
+          label: entry.label,
+          address: entry.address,
+          chainId: entry.chainId,
+          functions: functions.map((f) => f.signature),
+        };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_listAbis",
+      label: "Wallet List ABIs",
+      description: "List registered contract ABIs (label, address, chain, number of functions).",
+      parameters: walletListAbisSchema,
+      execute: withErrors(ctx, async () => {
+        const svc = await getServiceForContext(ctx);
+        const contracts = await svc.listContractAbis();
+        return { count: contracts.length, contracts };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_contractFunctions",
+      label: "Wallet Contract Functions",
+      description:
+        "List the functions of a registered contract: name, signature, selector, state mutability (view/pure functions can be read with wallet_readContract), and named inputs and outputs.",
+      parameters: walletContractFunctionsSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const contract = typeof params.contract === "string" ? params.contract : "";
+        const chainId = typeof params.chainId === "number" ? params.chainId : undefined;
+        return await svc.getContractFunctions(contract, chainId);
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_removeAbi",
+      label: "Wallet Remove ABI",
+      description: "Remove a contract ABI from the registry by label.",
+      parameters: walletRemoveAbiSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const label = typeof params.label === "string" ? params.label : "";
+        return await svc.removeContractAbi(label);
+      }),
+    }));
+
+    /* ---- wallet_tokens / wallet_addToken / wallet_removeToken / wallet_hideToken / wallet_importTokenList (token registry) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_tokens",
+      label: "Wallet Tokens",
+      description:
+        "List known tokens on a chain: built-in, config, imported token lists, custom tokens and tokens read from their contract. `tracked` tokens are included in wallet_balance; hidden and spam tokens are left out unless `includeHidden`.",
+      parameters: walletTokensSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const result = await svc.listTokens({
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          includeHidden: params.includeHidden === true,
+        });
+        return { ...result, count: result.tokens.length };
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_addToken",
+      label: "Wallet Add Token",
+      description:
+        "Add a custom ERC20 token so it is included in balances and its amounts are scaled correctly. Symbol and decimals are read from the contract when omitted.",
+      parameters: walletAddTokenSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        return await svc.addToken({
+          address: typeof params.tokenAddress === "string" ? params.tokenAddress : "",
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          symbol: typeof params.symbol === "string" ? params.symbol : undefined,
+          decimals: typeof params.decimals === "number" ? params.decimals : undefined,
+          name: typeof params.name === "string" ? params.name : undefined,
+        });
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_removeToken",
+      label: "Wallet Remove Token",
+      description: "Remove a custom token added with wallet_addToken.",
+      parameters: walletRemoveTokenSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        return await svc.removeToken({
+          address: typeof params.tokenAddress === "string" ? params.tokenAddress : "",
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+        });
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_hideToken",
+      label: "Wallet Hide Token",
+      description:
+        "Hide a token from balances, e.g. an airdropped spam token (`spam: true` flags it as spam). Pass `hidden: false` to show it again.",
+      parameters: walletHideTokenSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        return await svc.hideToken({
+          address: typeof params.tokenAddress === "string" ? params.tokenAddress : "",
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+          hidden: typeof params.hidden === "boolean" ? params.hidden : undefined,
+          spam: params.spam === true,
+        });
+      }),
+    }));
+
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_importTokenList",
+      label: "Wallet Import Token List",
+      description:
+        "Import a token list in the Uniswap token-list format from a URL or inline JSON. Its tokens are used for symbols and decimals; add one with wallet_addToken to include it in balances. Importing a list with the same name replaces it.",
+      parameters: walletImportTokenListSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        return await svc.importTokenList({
+          url: typeof params.url === "string" ? params.url : undefined,
+          json: params.json,
+        });
+      }),
+    }));
+
+    /* ---- wallet_nfts (NFT holdings in configured collections) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_nfts",
+      label: "Wallet NFTs",
+      description:
+        "NFT holdings of the wallet in the collections configured under wallets.nfts: ERC721 balance and owned token ids, ERC1155 amounts per configured token id.",
+      parameters: walletNftsSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const result = await svc.getNftHoldings({
+          walletId: typeof params.walletId === "string" ? params.walletId : undefined,
+          chainId: typeof params.chainId === "number" ? params.chainId : undefined,
+        });
+        if (result.collections.length === 0) {
+          return { ...result, note: "No NFT collections configured (wallets.nfts)" };
+        }
+        return result;
+      }),
+    }));
+
+    /* ---- wallet_budget (remaining daily spend) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_budget",
+      label: "Wallet Budget",
+      description:
+        "Show how much of the daily spending limits a wallet has used (broadcast) or reserved (pending txs) in the current window and how much remains, per chain (wei), per token limit and in USD.",
+      parameters: walletBudgetSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const walletId = typeof params.walletId === "string" ? params.walletId : undefined;
+        return await svc.getSpendBudget(walletId);
+      }),
+    }));
+
+    /* ---- wallet_nonces (local nonce state) ---- */
+    api.registerTool((ctx: ToolContext) => ({
+      name: "wallet_nonces",
+      label: "Wallet Nonces",
+      description:
+        "Show the wallet's local nonce state on a chain: the next nonce, gaps left by transactions that failed to broadcast or were dropped (the next approved transaction fills the lowest gap), and the node's latest and pending counts.",
+      parameters: walletNoncesSchema,
+      execute: withErrors(ctx, async (params) => {
+        const svc = await getServiceForContext(ctx);
+        const walletId = typeof params.walletId === "string" ? params.walletId : undefined;
+        const chainId = typeof params.chainId === "number" ? params.chainId : undefined;
+        return await svc.getNonceState({ walletId, chainId });
+      }),
+    }));
+
     /* ---- wallet_sendTransaction (raw tx request passthrough) ---- */
     api.registerTool((ctx: ToolContext) => ({
       name: "wallet_sendTransaction",
@@ -957,7 +1887,7 @@ const walletPlugin = {
         "Pass the transactionRequest object directly -- hex values for value/gasLimit/gasPrice are auto-converted. " +
         "The transaction still goes through the approval flow.",
       parameters: walletSendTransactionSchema,
-      execute: withErrors(async (params) => {
+      execute: withErrors(ctx, async (params) => {
         const svc = await getServiceForContext(ctx);
         const txReq = isObject(params.transactionRequest)
           ? params.transactionRequest
@@ -1004,12 +1934,65 @@ const walletPlugin = {
     }));
 
     /* ---- background service ---- */
+    // Receipt polling covers every peer's wallet with sent txs; wallet_txStatus refreshes any tx
+    // on demand.
+    let receiptTimer: ReturnType<typeof setInterval> | undefined;
+    let tracking = false;
+
+    /**
+     * Services with sent txs to track: every cached one, plus peers that have not used the
+     * wallet since a restart but still have sent txs on disk.
+     */
+    async function servicesWithSentTxs(): Promise<WalletService[]> {
+      let dirs: string[] = [];
+      try {
+        const entries = await fs.promises.readdir(usersDir, { withFileTypes: true });
+        dirs = entries.filter((e) => e.isDirectory()).map((e) => path.join(usersDir, e.name));
+      } catch {
+        // no peer has used the wallet yet
+      }
+      const services: WalletService[] = [];
+      for (const stateDir of new Set([...serviceCache.keys(), ...dirs])) {
+        const cached = serviceCache.get(stateDir);
+        if (cached) {
+          services.push(cached);
+          continue;
+        }
+        const txs = await createPendingStore(getWalletsDir(stateDir)).load();
+        if (txs.some((t) => t.status === "sent")) services.push(await getServiceForStateDir(stateDir));
+      }
+      return services;
+    }
     api.registerService({
       id: "openclast-wallet",
-      start: async () => {
+      start: async (serviceCtx) => {
         /* Per-user wallets are created on first getServiceForContext when autoCreateOnStartup is true. */
+        const intervalSeconds =
+          config.wallets?.receipts?.pollIntervalSeconds ?? DEFAULT_RECEIPT_POLL_INTERVAL_SECONDS;
+        receiptTimer = setInterval(async () => {
+          if (tracking) return;
+          tracking = true;
+          try {
+            for (const svc of await servicesWithSentTxs()) {
+              await svc.trackSentTxs().catch((err: unknown) => {
+                serviceCtx.logger.warn(
+                  `wallet receipt tracking failed: ${err instanceof Error ? err.message : String(err)}`,
+                );
+              });
+            }
+          } catch (err) {
+            serviceCtx.logger.warn(
+              `wallet receipt tracking failed: ${err instanceof Error ? err.message : String(err)}`,
+            );
+          } finally {
+            tracking = false;
+          }
+        }, intervalSeconds * 1000);
+        receiptTimer.unref?.();
       },
       stop: async () => {
+        if (receiptTimer) clearInterval(receiptTimer);
+        receiptTimer = undefined;
         serviceCache.clear();
       },
     });
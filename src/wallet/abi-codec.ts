@@ -0,0 +1,304 @@
+/**
+ * ABI helpers for calling contracts by function name: parsing user-supplied ABIs, picking a
+ * function (overloads included), ordering named args, and JSON-safe decoding of results.
+ */
+
+import {
+  decodeFunctionResult,
+  encodeFunctionData,
+  getAddress,
+  isAddress,
+  isHex,
+  numberToHex,
+  padHex,
+  parseAbi,
+  size,
+  stringToHex,
+  toFunctionSelector,
+  toFunctionSignature,
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+} from "viem";
+
+/** JSON-safe decoded value: integers as decimal strings, tuples as objects keyed by component. */
+export type DecodedValue = string | boolean | DecodedValue[] | { [name: string]: DecodedValue };
+
+/** Arguments in ABI order, or keyed by input name. */
+export type CallArgs = unknown[] | Record<string, unknown>;
+
+export type AbiFunctionSummary = {
+  name: string;
+  /** Canonical signature, e.g. "transfer(address,uint256)". */
+  signature: string;
+  selector: string;
+  stateMutability: AbiFunction["stateMutability"];
+  inputs: Array<{ name: string; type: string }>;
+  outputs: Array<{ name: string; type: string }>;
+};
+
+/** JSON ABI (array or string), or human-readable signatures such as "function deposit(uint256 amount)". */
+export function parseAbiInput(input: Abi | string[] | string): Abi {
+  let abi: unknown = input;
+  if (typeof input === "string") {
+    try {
+      abi = JSON.parse(input);
+    } catch {
+      throw new Error("ABI must be a JSON array");
+    }
+    // Artifacts from Hardhat / Foundry wrap the ABI.
+    if (abi && typeof abi === "object" && !Array.isArray(abi) && "abi" in abi) {
+      abi = (abi as { abi: unknown }).abi;
+    }
+  }
+  if (!Array.isArray(abi)) throw new Error("ABI must be a JSON array");
+  if (abi.length > 0 && abi.every((item) => typeof item === "string")) {
+    return parseAbi(abi as string[]);
+  }
+  if (!abi.every((item) => item && typeof item === "object" && typeof item.type === "string")) {
+    throw new Error("ABI entries must be objects with a `type`");
+  }
+  return abi as Abi;
+}
+
+export function abiFunctions(abi: Abi): AbiFunction[] {
+  return abi.filter((item): item is AbiFunction => item.type === "function");
+}
+
+function paramName(param: AbiParameter, index: number): string {
+  return param.name || String(index);
+}
+
+export function summarizeFunction(fn: AbiFunction): AbiFunctionSummary {
+  return {
+    name: fn.name,
+    signature: toFunctionSignature(fn),
+    selector: toFunctionSelector(fn),
+    stateMutability: fn.stateMutability,
+    inputs: fn.inputs.map((p, i) => ({ name: paramName(p, i), type: p.type })),
+    outputs: fn.outputs.map((p, i) => ({ name: paramName(p, i), type: p.type })),
+  };
+}
+
+/**
+ * Function by name or full signature ("transfer(address,uint256)"). Overloads are narrowed by
+ * the number of args (or the names, for named args).
+ */
+export function selectFunction(abi: Abi, functionName: string, args?: CallArgs): AbiFunction {
+  const wanted = functionName.trim().replace(/^function\s+/, "").replace(/\s+/g, "");
+  const fns = abiFunctions(abi);
+  const bySignature = fns.find((fn) => toFunctionSignature(fn) === wanted);
+  if (bySignature) return bySignature;
+  const named = fns.filter((fn) => fn.name === wanted);
+  if (named.length === 0) {
+    const available = [...new Set(fns.map((fn) => fn.name))].sort().join(", ");
+    throw new Error(`Function "${wanted}" not found in ABI${available ? ` (available: ${available})` : ""}`);
+  }
+  if (named.length === 1) return named[0];
+  const fits = named.filter((fn) =>
+    Array.isArray(args)
+      ? fn.inputs.length === args.length
+      : args != null &&
+        fn.inputs.length === Object.keys(args).length &&
+        fn.inputs.every((p, i) => paramName(p, i) in args),
+  );
+  if (fits.length === 1) return fits[0];
+  throw new Error(
+    `"${wanted}" is overloaded; pass the full signature: ${named.map((fn) => toFunctionSignature(fn)).join(", ")}`,
+  );
+}
+
+/** Args in ABI order; named args must cover every input and nothing else. */
+export function orderArgs(fn: AbiFunction, args: CallArgs | undefined): unknown[] {
+  const signature = toFunctionSignature(fn);
+  if (args == null) args = [];
+  if (Array.isArray(args)) {
+    if (args.length !== fn.inputs.length) {
+      throw new Error(`${signature} takes ${fn.inputs.length} args, got ${args.length}`);
+    }
+    return args;
+  }
+  const names = fn.inputs.map(paramName);
+  const unknown = Object.keys(args).filter((key) => !names.includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown args for ${signature}: ${unknown.join(", ")} (expected: ${names.join(", ")})`);
+  }
+  const missing = names.filter((name) => !(name in args));
+  if (missing.length > 0) throw new Error(`Missing args for ${signature}: ${missing.join(", ")}`);
+  return names.map((name) => (args as Record<string, unknown>)[name]);
+}
+
+/** Integers as bigint: decimal or 0x strings, safe JS integers, bigints. */
+function toInteger(value: unknown): bigint | null {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") return Number.isSafeInteger(value) ? BigInt(value) : null;
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim();
+  if (/^-?\d+$/.test(trimmed)) return BigInt(trimmed);
+  if (/^0x[0-9a-fA-F]+$/.test(trimmed)) return BigInt(trimmed);
+  return null;
+}
+
+function describe(value: unknown): string {
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "bigint") return value.toString();
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Arrays and tuples may also be given as JSON strings. */
+function parseJsonIfString(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const trimmed = value.trim();
+  if (!trimmed.startsWith("[") && !trimmed.startsWith("{")) return value;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Convert a JSON-ish value to what viem expects for the ABI type, recursing into arrays and
+ * tuples. Errors name the argument path (e.g. `params.path[1]`).
+ */
+export function coerceValue(param: AbiParameter, value: unknown, argPath: string): unknown {
+  const type = param.type;
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid argument ${argPath}: expected ${expected}, got ${describe(value)}`);
+  };
+
+  const array = /^(.*)\[(\d*)\]$/.exec(type);
+  if (array) {
+    const items = parseJsonIfString(value);
+    if (!Array.isArray(items)) return fail(type);
+    if (array[2] !== "" && items.length !== Number(array[2])) {
+      return fail(`${type} (${array[2]} items, got ${items.length})`);
+    }
+    const item = { ...param, type: array[1] } as AbiParameter;
+    return items.map((v, i) => coerceValue(item, v, `${argPath}[${i}]`));
+  }
+
+  if (type === "tuple") {
+    const components = "components" in param ? param.components : [];
+    const tuple = parseJsonIfString(value);
+    if (Array.isArray(tuple)) {
+      if (tuple.length !== components.length) {
+        return fail(`tuple of ${components.length} values`);
+      }
+      return components.map((c, i) => coerceValue(c, tuple[i], `${argPath}.${c.name || i}`));
+    }
+    if (tuple == null || typeof tuple !== "object") return fail("tuple (object or array)");
+    const record = tuple as Record<string, unknown>;
+    const names = components.map((c, i) => c.name || String(i));
+    const unknown = Object.keys(record).filter((k) => !names.includes(k));
+    if (unknown.length > 0) {
+      throw new Error(`Invalid argument ${argPath}: unknown fields ${unknown.join(", ")} (expected: ${names.join(", ")})`);
+    }
+    const missing = names.filter((n) => !(n in record));
+    if (missing.length > 0) {
+      throw new Error(`Invalid argument ${argPath}: missing fields ${missing.join(", ")}`);
+    }
+    return components.map((c, i) => coerceValue(c, record[names[i]], `${argPath}.${names[i]}`));
+  }
+
+  if (type === "address") {
+    if (typeof value === "string" && isAddress(value.trim(), { strict: false })) {
+      return getAddress(value.trim());
+    }
+    // Addresses given as (decimal) integers, e.g. address(1).
+    const n = typeof value === "string" && value.trim().startsWith("0x") ? null : toInteger(value);
+    if (n == null || n < 0n || n >= 1n << 160n) return fail("address");
+    return getAddress(numberToHex(n, { size: 20 }));
+  }
+
+  const int = /^(u?)int(\d*)$/.exec(type);
+  if (int) {
+    const n = toInteger(value);
+    if (n == null) {
+      return fail(typeof value === "number" ? `${type} (pass large integers as strings)` : type);
+    }
+    const bits = BigInt(int[2] || "256");
+    const [min, max] = int[1] ? [0n, (1n << bits) - 1n] : [-(1n << (bits - 1n)), (1n << (bits - 1n)) - 1n];
+    if (n < min || n > max) return fail(`${type} in range ${min}..${max}`);
+    return n;
+  }
+
+  if (type === "bool") {
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === 1 || value === "1") return true;
+    if (value === "false" || value === 0 || value === "0") return false;
+    return fail("bool");
+  }
+
+  if (type === "string") {
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "bigint") return value.toString();
+    return fail("string");
+  }
+
+  const bytes = /^bytes(\d*)$/.exec(type);
+  if (bytes) {
+    if (typeof value !== "string") return fail(type);
+    const isHexValue = isHex(value, { strict: true }) && value.length % 2 === 0;
+    if (!bytes[1]) return isHexValue ? value : stringToHex(value);
+    const length = Number(bytes[1]);
+    if (isHexValue) {
+      if (size(value as Hex) !== length) return fail(`${type} (${length} bytes of hex)`);
+      return value;
+    }
+    // Plain text, as with ethers' formatBytes32String: UTF-8, right-padded with zeros.
+    const hex = stringToHex(value);
+    if (size(hex) > length) return fail(`${type} (text of at most ${length} bytes)`);
+    return padHex(hex, { dir: "right", size: length });
+  }
+
+  return value;
+}
+
+export function encodeCall(fn: AbiFunction, args: CallArgs | undefined): Hex {
+  const ordered = orderArgs(fn, args).map((value, i) =>
+    coerceValue(fn.inputs[i], value, paramName(fn.inputs[i], i)),
+  );
+  return encodeFunctionData({ abi: [fn], functionName: fn.name, args: ordered });
+}
+
+export function toDecodedValue(value: unknown, param?: AbiParameter): DecodedValue {
+  if (typeof value === "bigint" || typeof value === "number") return value.toString();
+  if (typeof value === "boolean" || typeof value === "string") return value;
+  const components = param && "components" in param ? param.components : undefined;
+  if (Array.isArray(value)) {
+    // Unnamed tuples decode as arrays too; name their members after the components.
+    if (components && !param?.type.endsWith("]")) {
+      return Object.fromEntries(
+        value.map((v, i) => [components[i]?.name || String(i), toDecodedValue(v, components[i])]),
+      );
+    }
+    const item = param ? { ...param, type: param.type.replace(/\[\d*\]$/, "") } : undefined;
+    return value.map((v) => toDecodedValue(v, item));
+  }
+  if (value != null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toDecodedValue(v, components?.find((c) => c.name === k))]),
+    );
+  }
+  return String(value);
+}
+
+/**
+ * Return data as JSON: the value itself for a single output, an object keyed by output name
+ * (or index) for several, null for none.
+ */
+export function decodeResult(fn: AbiFunction, data: string): DecodedValue | null {
+  if (fn.outputs.length === 0) return null;
+  const decoded = decodeFunctionResult({ abi: [fn], functionName: fn.name, data: data as Hex });
+  if (fn.outputs.length === 1) return toDecodedValue(decoded, fn.outputs[0]);
+  const values = decoded as readonly unknown[];
+  return Object.fromEntries(
+    fn.outputs.map((p, i) => [paramName(p, i), toDecodedValue(values[i], p)]),
+  );
+}
@@ -0,0 +1,75 @@
+/**
+ * Per-peer contract ABI registry (abis.json next to state.json). Labels are unique, case-insensitive.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { ContractAbi } from "./types.js";
+
+const ABIS_FILENAME = "abis.json";
+
+export type AbiStore = {
+  dir: string;
+  load(): Promise<ContractAbi[]>;
+  /** Adds the entry, replacing any entry with the same label. */
+  put(entry: ContractAbi): Promise<void>;
+  /** Returns false when no entry has the label. */
+  remove(label: string): Promise<boolean>;
+  findByLabel(label: string): Promise<ContractAbi | null>;
+  /** Entry for the address, preferring one bound to chainId over a chain-less one. */
+  findByAddress(address: string, chainId?: number): Promise<ContractAbi | null>;
+};
+
+function sameLabel(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function createAbiStore(walletsDir: string): AbiStore {
+  const filePath = path.join(walletsDir, ABIS_FILENAME);
+
+  async function load(): Promise<ContractAbi[]> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(raw);
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function save(items: ContractAbi[]): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, JSON.stringify(items, null, 2), { mode: 0o600 });
+  }
+
+  return {
+    dir: walletsDir,
+    load,
+    async put(entry) {
+      const items = (await load()).filter((e) => !sameLabel(e.label, entry.label));
+      items.push(entry);
+      await save(items);
+    },
+    async remove(label) {
+      const items = await load();
+      const kept = items.filter((e) => !sameLabel(e.label, label));
+      if (kept.length === items.length) return false;
+      await save(kept);
+      return true;
+    },
+    async findByLabel(label) {
+      const items = await load();
+      return items.find((e) => sameLabel(e.label, label)) ?? null;
+    },
+    async findByAddress(address, chainId) {
+      const normalized = address.trim().toLowerCase();
+      const matches = (await load()).filter(
+        (e) =>
+          e.address.toLowerCase() === normalized &&
+          (chainId == null || e.chainId == null || e.chainId === chainId),
+      );
+      return matches.find((e) => e.chainId === chainId) ?? matches[0] ?? null;
+    },
+  };
+}
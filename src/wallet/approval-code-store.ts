@@ -0,0 +1,107 @@
+/**
+ * One-time approval codes for pending txs (approval-codes.json). Only a salted hash bound to
+ * the txId is stored; the plain code exists just long enough to be delivered.
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+const CODES_FILENAME = "approval-codes.json";
+
+export const DEFAULT_APPROVAL_CODE_TTL_SECONDS = 600;
+export const DEFAULT_APPROVAL_CODE_MAX_ATTEMPTS = 5;
+export const DEFAULT_APPROVAL_CODE_DIGITS = 6;
+
+type StoredCode = {
+  txId: string;
+  salt: string;
+  hash: string;
+  expiresAt: number;
+  /** Failed attempts for the tx; kept across re-issued codes. */
+  attempts: number;
+  maxAttempts: number;
+};
+
+export type ApprovalCodeCheck =
+  | { ok: true }
+  | { ok: false; reason: "missing" | "expired" | "invalid" | "locked"; attemptsLeft: number };
+
+export type ApprovalCodeStore = {
+  dir: string;
+  /** Issue a fresh code for the tx (replacing any previous one) and return it in plain text. */
+  issue(
+    txId: string,
+    opts: { ttlSeconds: number; maxAttempts: number; digits: number },
+  ): Promise<{ code: string; expiresAt: number }>;
+  /**
+   * Check a code. Failed attempts are counted; a valid code stays usable (e.g. for further
+   * quorum votes) until remove() is called when the tx leaves "pending".
+   */
+  verify(txId: string, code: string): Promise<ApprovalCodeCheck>;
+  remove(txId: string): Promise<void>;
+};
+
+function hashCode(salt: string, txId: string, code: string): string {
+  return createHash("sha256").update(`${salt}:${txId}:${code}`).digest("hex");
+}
+
+export function createApprovalCodeStore(walletsDir: string): ApprovalCodeStore {
+  const filePath = path.join(walletsDir, CODES_FILENAME);
+
+  async function load(): Promise<StoredCode[]> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(raw);
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function save(items: StoredCode[]): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, JSON.stringify(items, null, 2), { mode: 0o600 });
+  }
+
+  return {
+    dir: walletsDir,
+    async issue(txId, opts) {
+      const items = await load();
+      const previous = items.find((c) => c.txId === txId);
+      const code = String(randomInt(0, 10 ** opts.digits)).padStart(opts.digits, "0");
+      const salt = randomBytes(16).toString("hex");
+      const expiresAt = Date.now() + opts.ttlSeconds * 1000;
+      const entry: StoredCode = {
+        txId,
+        salt,
+        hash: hashCode(salt, txId, code),
+        expiresAt,
+        attempts: previous?.attempts ?? 0,
+        maxAttempts: opts.maxAttempts,
+      };
+      await save([...items.filter((c) => c.txId !== txId), entry]);
+      return { code, expiresAt };
+    },
+    async verify(txId, code) {
+      const items = await load();
+      const entry = items.find((c) => c.txId === txId);
+      if (!entry) return { ok: false, reason: "missing", attemptsLeft: 0 };
+      const attemptsLeft = Math.max(0, entry.maxAttempts - entry.attempts);
+      if (attemptsLeft === 0) return { ok: false, reason: "locked", attemptsLeft };
+      if (Date.now() > entry.expiresAt) return { ok: false, reason: "expired", attemptsLeft };
+      const expected = Buffer.from(entry.hash, "hex");
+      const actual = Buffer.from(hashCode(entry.salt, txId, code.trim()), "hex");
+      if (timingSafeEqual(expected, actual)) return { ok: true };
+      entry.attempts += 1;
+      await save(items);
+      const left = Math.max(0, entry.maxAttempts - entry.attempts);
+      return { ok: false, reason: left === 0 ? "locked" : "invalid", attemptsLeft: left };
+    },
+    async remove(txId) {
+      const items = await load();
+      const kept = items.filter((c) => c.txId !== txId);
+      if (kept.length !== items.length) await save(kept);
+    },
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * Asset-change preview: what leaves the wallet and what comes back. The tx is replayed on a
+ * local fork (anvil-compatible: impersonation plus snapshot / revert) or traced with
+ * `debug_traceCall`; native balance deltas and the ERC20 / ERC721 Transfer and Approval events
+ * involving the wallet are turned into a per-asset diff.
+ */
+
+import { formatEther, formatUnits, maxUint256, numberToHex } from "viem";
+
+import type { TokenInfo } from "./calldata-decoder.js";
+import { decodeLog, type RawLog } from "./event-logs.js";
+import type { RpcClient } from "./rpc.js";
+
+export type AssetChange = {
+  kind: "native" | "erc20" | "erc721";
+  /** Token contract; unset for native. */
+  token?: string;
+  symbol?: string;
+  /** Signed change for the wallet in base units (wei); "1" / "-1" for an ERC721 token. */
+  amount: string;
+  /** Signed change in whole units, e.g. "-1.5 USDC". */
+  formatted?: string;
+  tokenId?: string;
+};
+
+export type AssetApproval = {
+  kind: "erc20" | "erc721" | "erc721_all";
+  token: string;
+  symbol?: string;
+  spender: string;
+  /** ERC20 allowance in base units and whole units ("unlimited" for the max value). */
+  amount?: string;
+  formatted?: string;
+  tokenId?: string;
+  /** ApprovalForAll: granted or revoked. */
+  approved?: boolean;
+};
+
+export type AssetDiff = {
+  backend: "fork" | "trace";
+  /** "error" when the backend could not run the tx (node unreachable, method unsupported). */
+  status: "success" | "reverted" | "error";
+  error?: string;
+  /** Net changes for the wallet, excluding gas. */
+  changes: AssetChange[];
+  /** Allowances the wallet grants or revokes. */
+  approvals: AssetApproval[];
+  /** Gas used on the fork and its cost in wei (not reported by traces). */
+  gasUsed?: string;
+  gasCostWei?: string;
+  simulatedAt: number;
+};
+
+export type AssetDiffTx = {
+  from: string;
+  to: string;
+  valueWei: bigint;
+  data?: string;
+  gasLimit?: bigint;
+};
+
+type Replay = {
+  status: "success" | "reverted";
+  nativeDeltaWei: bigint;
+  logs: RawLog[];
+  gasUsed?: bigint;
+  gasCostWei?: bigint;
+};
+
+/** callTracer frame, with `withLog: true`. */
+type CallFrame = {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  calls?: CallFrame[];
+  logs?: Array<{ address: string; topics: string[]; data: string }>;
+};
+
+/** JSON-RPC methods viem does not type (anvil_*, evm_*, debug_*). */
+function request(rpc: RpcClient, method: string, params: unknown[]): Promise<unknown> {
+  return rpc.publicClient.request({ method, params } as never);
+}
+
+function callParams(tx: AssetDiffTx) {
+  return {
+    from: tx.from,
+    to: tx.to,
+    value: numberToHex(tx.valueWei),
+    ...(tx.data ? { data: tx.data } : {}),
+    ...(tx.gasLimit != null ? { gas: numberToHex(tx.gasLimit) } : {}),
+  };
+}
+
+function same(a: string | undefined, b: string): boolean {
+  return a != null && a.toLowerCase() === b.toLowerCase();
+}
+
+/** Send the tx as the impersonated wallet on the fork, then revert the fork to where it was. */
+async function replayOnFork(fork: RpcClient, tx: AssetDiffTx): Promise<Replay> {
+  const snapshot = await request(fork, "evm_snapshot", []);
+  try {
+    await request(fork, "anvil_impersonateAccount", [tx.from]);
+    const before = await fork.getBalance(tx.from);
+    const hash = (await request(fork, "eth_sendTransaction", [callParams(tx)])) as string;
+    let receipt = await fork.getTransactionReceipt(hash);
+    if (!receipt) {
+      // Automine is off on this fork.
+      await request(fork, "evm_mine", []);
+      receipt = await fork.getTransactionReceipt(hash);
+    }
+    if (!receipt) throw new Error("The fork did not mine the tx");
+    const after = await fork.getBalance(tx.from);
+    const gasCostWei = receipt.gasUsed * receipt.effectiveGasPrice;
+    return {
+      status: receipt.status === "success" ? "success" : "reverted",
+      nativeDeltaWei: after - before + gasCostWei,
+      logs: receipt.status === "success" ? (receipt.logs as unknown as RawLog[]) : [],
+      gasUsed: receipt.gasUsed,
+      gasCostWei,
+    };
+  } finally {
+    await request(fork, "anvil_stopImpersonatingAccount", [tx.from]).catch(() => undefined);
+    await request(fork, "evm_revert", [snapshot]).catch(() => undefined);
+  }
+}
+
+/** Value moved and logs emitted by the frames that did not revert. */
+async function replayWithTrace(rpc: RpcClient, tx: AssetDiffTx): Promise<Replay> {
+  const root = (await request(rpc, "debug_traceCall", [
+    callParams(tx),
+    "latest",
+    { tracer: "callTracer", tracerConfig: { withLog: true } },
+  ])) as CallFrame;
+  if (root.error) return { status: "reverted", nativeDeltaWei: 0n, logs: [] };
+  let nativeDeltaWei = 0n;
+  const logs: RawLog[] = [];
+  const walk = (frame: CallFrame) => {
+    if (frame.error) return;
+    // Delegate and static calls carry the caller's context; no value moves.
+    const moves = frame.type !== "DELEGATECALL" && frame.type !== "STATICCALL";
+    const value = moves ? BigInt(frame.value ?? "0x0") : 0n;
+    if (same(frame.from, tx.from)) nativeDeltaWei -= value;
+    if (same(frame.to, tx.from)) nativeDeltaWei += value;
+    for (const log of frame.logs ?? []) {
+      logs.push({ ...log, blockNumber: null, transactionHash: null, logIndex: null });
+    }
+    for (const child of frame.calls ?? []) walk(child);
+  };
+  walk(root);
+  return { status: "success", nativeDeltaWei, logs };
+}
+
+function signed(value: bigint, format: (abs: bigint) => string): string {
+  return `${value < 0n ? "-" : "+"}${format(value < 0n ? -value : value)}`;
+}
+
+async function buildDiff(
+  wallet: string,
+  replay: Replay,
+  getTokenInfo: (token: string) => Promise<TokenInfo | null>,
+): Promise<Pick<AssetDiff, "changes" | "approvals">> {
+  const info = new Map<string, TokenInfo | null>();
+  const tokenInfo = async (token: string) => {
+    const key = token.toLowerCase();
+    if (!info.has(key)) info.set(key, await getTokenInfo(token).catch(() => null));
+    return info.get(key) ?? null;
+  };
+  const erc20 = new Map<string, { token: string; delta: bigint }>();
+  const nfts = new Map<string, AssetChange>();
+  const approvals: AssetApproval[] = [];
+
+  for (const raw of replay.logs) {
+    const log = decodeLog(raw, []);
+    const args = log.args ?? {};
+    const token = log.address;
+    if (log.eventName === "Transfer" && "value" in args) {
+      const amount = BigInt(args.value as string);
+      const entry = erc20.get(token.toLowerCase()) ?? { token, delta: 0n };
+      if (same(args.from as string, wallet)) entry.delta -= amount;
+      if (same(args.to as string, wallet)) entry.delta += amount;
+      erc20.set(token.toLowerCase(), entry);
+    } else if (log.eventName === "Transfer" && "tokenId" in args) {
+      const key = `${token.toLowerCase()}:${args.tokenId}`;
+      const delta =
+        (same(args.to as string, wallet) ? 1 : 0) - (same(args.from as string, wallet) ? 1 : 0) +
+        Number(nfts.get(key)?.amount ?? 0);
+      if (delta === 0) nfts.delete(key);
+      else nfts.set(key, { kind: "erc721", token, amount: String(delta), tokenId: String(args.tokenId) });
+    } else if (log.eventName === "Approval" && same(args.owner as string, wallet)) {
+      if ("value" in args) {
+        const amount = BigInt(args.value as string);
+        const meta = await tokenInfo(token);
+        approvals.push({
+          kind: "erc20",
+          token,
+          ...(meta?.symbol ? { symbol: meta.symbol } : {}),
+          spender: args.spender as string,
+          amount: amount.toString(),
+          ...(amount === maxUint256
+            ? { formatted: `unlimited${meta?.symbol ? ` ${meta.symbol}` : ""}` }
+            : meta
+              ? { formatted: `${formatUnits(amount, meta.decimals)}${meta.symbol ? ` ${meta.symbol}` : ""}` }
+              : {}),
+        });
+      } else {
+        approvals.push({ kind: "erc721", token, spender: args.approved as string, tokenId: String(args.tokenId) });
+      }
+    } else if (log.eventName === "ApprovalForAll" && same(args.owner as string, wallet)) {
+      approvals.push({
+        kind: "erc721_all",
+        token,
+        spender: args.operator as string,
+        approved: args.approved === true,
+      });
+    }
+  }
+
+  const changes: AssetChange[] = [];
+  if (replay.nativeDeltaWei !== 0n) {
+    changes.push({
+      kind: "native",
+      amount: replay.nativeDeltaWei.toString(),
+      formatted: `${signed(replay.nativeDeltaWei, formatEther)} native`,
+    });
+  }
+  for (const { token, delta } of erc20.values()) {
+    if (delta === 0n) continue;
+    const meta = await tokenInfo(token);
+    changes.push({
+      kind: "erc20",
+      token,
+      ...(meta?.symbol ? { symbol: meta.symbol } : {}),
+      amount: delta.toString(),
+      ...(meta
+        ? { formatted: `${signed(delta, (v) => formatUnits(v, meta.decimals))}${meta.symbol ? ` ${meta.symbol}` : ""}` }
+        : {}),
+    });
+  }
+  changes.push(...nfts.values());
+  return { changes, approvals };
+}
+
+/**
+ * Preview the wallet's asset changes for a tx. Never throws: failures are reported as
+ * `status: "error"` so the request itself goes ahead.
+ */
+export async function simulateAssetChanges(
+  backend: { kind: "fork" | "trace"; rpc: RpcClient },
+  tx: AssetDiffTx,
+  getTokenInfo: (token: string) => Promise<TokenInfo | null>,
+): Promise<AssetDiff> {
+  const simulatedAt = Date.now();
+  try {
+    const replay =
+      backend.kind === "fork" ? await replayOnFork(backend.rpc, tx) : await replayWithTrace(backend.rpc, tx);
+    return {
+      backend: backend.kind,
+      status: replay.status,
+      ...(await buildDiff(tx.from, replay, getTokenInfo)),
+      ...(replay.gasUsed != null ? { gasUsed: replay.gasUsed.toString() } : {}),
+      ...(replay.gasCostWei != null ? { gasCostWei: replay.gasCostWei.toString() } : {}),
+      simulatedAt,
+    };
+  } catch (err) {
+    return {
+      backend: backend.kind,
+      status: "error",
+      error: err instanceof Error ? err.message.split("\n")[0] : String(err),
+      changes: [],
+      approvals: [],
+      simulatedAt,
+    };
+  }
+}
+
+/** Lines for approvers: outgoing assets first, then incoming, then approvals and gas. */
+export function formatAssetDiff(diff: AssetDiff | undefined): string[] {
+  if (!diff) return [];
+  if (diff.status === "error") return [`Asset changes unavailable: ${diff.error ?? "unknown error"}`];
+  if (diff.status === "reverted") return ["Asset changes: none (the tx reverts)"];
+  const describe = (c: AssetChange) => {
+    if (c.kind === "erc721") return `NFT #${c.tokenId} of ${c.token}`;
+    const amount = c.formatted?.replace(/^[+-]/, "") ?? `${c.amount.replace(/^-/, "")} base units of ${c.token}`;
+    return c.kind === "erc20" && !c.symbol ? `${amount} (${c.token})` : amount;
+  };
+  const lines = [
+    ...diff.changes.filter((c) => c.amount.startsWith("-")).map((c) => `Out: ${describe(c)}`),
+    ...diff.changes.filter((c) => !c.amount.startsWith("-")).map((c) => `In: ${describe(c)}`),
+    ...diff.approvals.map((a) => {
+      if (a.kind === "erc721_all") {
+        return `${a.approved ? "Approves" : "Revokes"} ${a.spender} for all NFTs of ${a.token}`;
+      }
+      if (a.kind === "erc721") return `Approves ${a.spender} for NFT #${a.tokenId} of ${a.token}`;
+      const amount = a.formatted ?? `${a.amount} base units`;
+      return `Approves ${a.spender} to spend ${amount}${a.symbol ? "" : ` of ${a.token}`}`;
+    }),
+  ];
+  if (lines.length === 0) lines.push("Asset changes: none");
+  if (diff.gasCostWei) lines.push(`Gas on fork: ${formatEther(BigInt(diff.gasCostWei))} native`);
+  return lines;
+}
@@ -5,7 +5,9 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 
-import type { WalletType } from "./types.js";
+import type { PolicyTraceEntry } from "./policy.js";
+import type { PriceQuote } from "./price-source.js";
+import type { ResolvedName, TxWarning, WalletType } from "./types.js";
 
 const AUDIT_FILENAME = "audit.jsonl";
 
@@ -24,6 +26,50 @@ export type AuditEntry = {
   tokenAddress?: string;
   spender?: string;
   amountWei?: string;
+  /** NFT collection, token id and ERC1155 amount; operator and flag for setApprovalForAll. */
+  collectionAddress?: string;
+  tokenId?: string;
+  amount?: string;
+  operator?: string;
+  approved?: boolean;
+  /** EIP-712 signature requests: primary type and the digest that is (or was) signed. */
+  primaryType?: string;
+  typedDataHash?: string;
+  /** Contact labels for `to` / `spender` / `operator`, when they are in the address book. */
+  toLabel?: string;
+  spenderLabel?: string;
+  operatorLabel?: string;
+  /** ENS-style names for `to` / `spender` / `operator` (resolved or primary name). */
+  toName?: string;
+  spenderName?: string;
+  operatorName?: string;
+  resolvedNames?: ResolvedName[];
+  /** Original tx replaced by a speed-up / cancel. */
+  replaces?: string;
+  /** Identity that voted to approve or reject. */
+  approver?: string;
+  /** Approval code expiry, and attempts left after a wrong code. The code is never logged. */
+  codeExpiresAt?: number;
+  attemptsLeft?: number;
+  /** Receipt data for confirmed / reverted / reorged txs. */
+  blockNumber?: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  /** Transport, event and attempts for a notification that could not be delivered. */
+  notifier?: string;
+  event?: string;
+  attempts?: number;
+  /** Which path a request took: "auto" (signed immediately) or "manual" (pending approval). */
+  approval?: "auto" | "manual";
+  /** Why a request was denied or needs manual approval. */
+  reason?: string;
+  /** Rule-by-rule policy trace for the request. */
+  policy?: PolicyTraceEntry[];
+  /** USD value at request time and the prices used, when USD limits are configured. */
+  valueUsd?: string;
+  prices?: PriceQuote[];
+  /** Risk flags raised for the request (e.g. unlimited approval). */
+  warnings?: TxWarning[];
 };
 
 export type AuditLogFilter = {
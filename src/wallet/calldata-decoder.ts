@@ -0,0 +1,463 @@
+/**
+ * Human-readable calldata for approvers: built-in ABIs for token standards, WETH, multicalls,
+ * Permit2 and common routers, plus user-registered ABIs. Token amounts are scaled by the
+ * token's decimals and batched calls are decoded recursively.
+ */
+
+import {
+  decodeFunctionData,
+  formatUnits,
+  parseAbi,
+  toFunctionSelector,
+  toFunctionSignature,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+} from "viem";
+
+import { parseAbiInput, toDecodedValue, type DecodedValue } from "./abi-codec.js";
+import { lookupSelector } from "./selector-db.js";
+
+/** A contract ABI supplied by the user (config or registry). */
+export type RegisteredAbi = {
+  /** Contract name shown to approvers. */
+  label?: string;
+  /** Only decode calls to this address (default: calls to any address). */
+  address?: string;
+  /** Only on this chain (default: every chain). */
+  chainId?: number;
+  /** JSON ABI, or human-readable signatures such as "function deposit(uint256 amount)". */
+  abi: Abi | string[];
+};
+
+export type DecodedArg = {
+  name: string;
+  type: string;
+  value: DecodedValue;
+};
+
+export type DecodedCall = {
+  functionName: string;
+  /** Canonical signature, e.g. "transfer(address,uint256)". */
+  signature: string;
+  /** ABI that matched: a built-in ("erc20", ...), a registered label, or "selector-db". */
+  source: string;
+  args: DecodedArg[];
+  /** Token amounts in whole units keyed by argument path, e.g. { "params.amountIn": "1.5 WETH" }. */
+  formattedAmounts?: Record<string, string>;
+  /** Calls batched inside multicall-style functions. */
+  /** `target` is unset for calls to the batching contract itself when its address is unknown. */
+  calls?: Array<{ target?: string; value?: string; data: string; decoded?: DecodedCall }>;
+};
+
+export type TokenInfo = { decimals: number; symbol?: string };
+
+export type CalldataDecoder = {
+  /** Decode calldata sent to `to`; null when no known ABI matches. */
+  /** Without `to`, address-bound ABIs are tried after the built-ins and ERC20 amounts are not scaled. */
+  decode(params: { chainId: number; to?: string; data: string }): Promise<DecodedCall | null>;
+};
+
+type BuiltinAbi = { source: string; abi: Abi };
+
+const BUILTIN_ABIS: BuiltinAbi[] = [
+  {
+    // transferFrom / approve share selectors with ERC721; see relabelErc721().
+    source: "erc20",
+    abi: parseAbi([
+      "function transfer(address to, uint256 amount)",
+      "function transferFrom(address from, address to, uint256 amount)",
+      "function approve(address spender, uint256 amount)",
+      "function increaseAllowance(address spender, uint256 addedValue)",
+      "function decreaseAllowance(address spender, uint256 subtractedValue)",
+      "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+    ]),
+  },
+  {
+    source: "erc721",
+    abi: parseAbi([
+      "function safeTransferFrom(address from, address to, uint256 tokenId)",
+      "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+      "function setApprovalForAll(address operator, bool approved)",
+    ]),
+  },
+  {
+    source: "erc1155",
+    abi: parseAbi([
+      "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+      "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+    ]),
+  },
+  {
+    source: "weth",
+    abi: parseAbi(["function deposit()", "function withdraw(uint256 wad)"]),
+  },
+  {
+    source: "multicall3",
+    abi: parseAbi([
+      "struct Call { address target; bytes callData; }",
+      "struct Call3 { address target; bool allowFailure; bytes callData; }",
+      "struct Call3Value { address target; bool allowFailure; uint256 value; bytes callData; }",
+      "function aggregate(Call[] calls)",
+      "function tryAggregate(bool requireSuccess, Call[] calls)",
+      "function aggregate3(Call3[] calls)",
+      "function aggregate3Value(Call3Value[] calls)",
+    ]),
+  },
+  {
+    source: "multicall",
+    abi: parseAbi([
+      "function multicall(bytes[] data)",
+      "function multicall(uint256 deadline, bytes[] data)",
+      "function multicall(bytes32 previousBlockhash, bytes[] data)",
+    ]),
+  },
+  {
+    source: "permit2",
+    abi: parseAbi([
+      "struct PermitDetails { address token; uint160 amount; uint48 expiration; uint48 nonce; }",
+      "struct PermitSingle { PermitDetails details; address spender; uint256 sigDeadline; }",
+      "struct PermitBatch { PermitDetails[] details; address spender; uint256 sigDeadline; }",
+      "struct AllowanceTransferDetails { address from; address to; uint160 amount; address token; }",
+      "struct TokenSpenderPair { address token; address spender; }",
+      "function approve(address token, address spender, uint160 amount, uint48 expiration)",
+      "function permit(address owner, PermitSingle permitSingle, bytes signature)",
+      "function permit(address owner, PermitBatch permitBatch, bytes signature)",
+      "function transferFrom(address from, address to, uint160 amount, address token)",
+      "function transferFrom(AllowanceTransferDetails[] transferDetails)",
+      "function lockdown(TokenSpenderPair[] approvals)",
+    ]),
+  },
+  {
+    source: "uniswap-v2-router",
+    abi: parseAbi([
+      "function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+      "function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+      "function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+      "function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)",
+      "function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)",
+      "function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)",
+      "function addLiquidity(address tokenA, address tokenB, uint256 amountADesired, uint256 amountBDesired, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+      "function addLiquidityETH(address token, uint256 amountTokenDesired, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+      "function removeLiquidity(address tokenA, address tokenB, uint256 liquidity, uint256 amountAMin, uint256 amountBMin, address to, uint256 deadline)",
+      "function removeLiquidityETH(address token, uint256 liquidity, uint256 amountTokenMin, uint256 amountETHMin, address to, uint256 deadline)",
+    ]),
+  },
+  {
+    // SwapRouter02 params first, then the original SwapRouter ones (with a deadline).
+    source: "uniswap-v3-router",
+    abi: parseAbi([
+      "struct ExactInputSingleParams { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }",
+      "struct ExactOutputSingleParams { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 amountOut; uint256 amountInMaximum; uint160 sqrtPriceLimitX96; }",
+      "struct ExactInputParams { bytes path; address recipient; uint256 amountIn; uint256 amountOutMinimum; }",
+      "struct ExactOutputParams { bytes path; address recipient; uint256 amountOut; uint256 amountInMaximum; }",
+      "struct ExactInputSingleParamsV1 { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; uint160 sqrtPriceLimitX96; }",
+      "struct ExactOutputSingleParamsV1 { address tokenIn; address tokenOut; uint24 fee; address recipient; uint256 deadline; uint256 amountOut; uint256 amountInMaximum; uint160 sqrtPriceLimitX96; }",
+      "struct ExactInputParamsV1 { bytes path; address recipient; uint256 deadline; uint256 amountIn; uint256 amountOutMinimum; }",
+      "struct ExactOutputParamsV1 { bytes path; address recipient; uint256 deadline; uint256 amountOut; uint256 amountInMaximum; }",
+      "function exactInputSingle(ExactInputSingleParams params)",
+      "function exactOutputSingle(ExactOutputSingleParams params)",
+      "function exactInput(ExactInputParams params)",
+      "function exactOutput(ExactOutputParams params)",
+      "function exactInputSingle(ExactInputSingleParamsV1 params)",
+      "function exactOutputSingle(ExactOutputSingleParamsV1 params)",
+      "function exactInput(ExactInputParamsV1 params)",
+      "function exactOutput(ExactOutputParamsV1 params)",
+      "function unwrapWETH9(uint256 amountMinimum, address recipient)",
+      "function refundETH()",
+      "function sweepToken(address token, uint256 amountMinimum, address recipient)",
+    ]),
+  },
+  {
+    source: "universal-router",
+    abi: parseAbi([
+      "function execute(bytes commands, bytes[] inputs, uint256 deadline)",
+      "function execute(bytes commands, bytes[] inputs)",
+    ]),
+  },
+];
+
+type Args = Record<string, unknown>;
+/** Which token an amount argument is denominated in. */
+type AmountHint = { arg: string; token: (args: Args, to: string | undefined) => unknown };
+
+const onTarget = (arg: string): AmountHint => ({ arg, token: (_args, to) => to });
+const inField = (arg: string, field: string): AmountHint => ({
+  arg,
+  token: (args) => getPath(args, field),
+});
+/** First / last token of a V2 address[] path or a V3 packed bytes path. */
+const pathEnd = (arg: string, field: string, end: "first" | "last"): AmountHint => ({
+  arg,
+  token: (args) => {
+    const path = getPath(args, field);
+    if (Array.isArray(path)) return end === "first" ? path[0] : path[path.length - 1];
+    if (typeof path === "string" && path.length >= 42) {
+      return end === "first" ? path.slice(0, 42) : "0x" + path.slice(-40);
+    }
+    return undefined;
+  },
+});
+
+const AMOUNT_HINTS: Record<string, AmountHint[]> = {
+  "erc20:transfer": [onTarget("amount")],
+  "erc20:transferFrom": [onTarget("amount")],
+  "erc20:approve": [onTarget("amount")],
+  "erc20:increaseAllowance": [onTarget("addedValue")],
+  "erc20:decreaseAllowance": [onTarget("subtractedValue")],
+  "erc20:permit": [onTarget("value")],
+  "weth:withdraw": [onTarget("wad")],
+  "permit2:approve": [inField("amount", "token")],
+  "permit2:permit": [inField("permitSingle.details.amount", "permitSingle.details.token")],
+  "permit2:transferFrom": [inField("amount", "token")],
+  "uniswap-v2-router:swapExactTokensForTokens": [
+    pathEnd("amountIn", "path", "first"),
+    pathEnd("amountOutMin", "path", "last"),
+  ],
+  "uniswap-v2-router:swapTokensForExactTokens": [
+    pathEnd("amountOut", "path", "last"),
+    pathEnd("amountInMax", "path", "first"),
+  ],
+  "uniswap-v2-router:swapExactETHForTokens": [pathEnd("amountOutMin", "path", "last")],
+  "uniswap-v2-router:swapTokensForExactETH": [pathEnd("amountInMax", "path", "first")],
+  "uniswap-v2-router:swapExactTokensForETH": [pathEnd("amountIn", "path", "first")],
+  "uniswap-v2-router:swapETHForExactTokens": [pathEnd("amountOut", "path", "last")],
+  "uniswap-v2-router:addLiquidity": [
+    inField("amountADesired", "tokenA"),
+    inField("amountBDesired", "tokenB"),
+    inField("amountAMin", "tokenA"),
+    inField("amountBMin", "tokenB"),
+  ],
+  "uniswap-v2-router:addLiquidityETH": [
+    inField("amountTokenDesired", "token"),
+    inField("amountTokenMin", "token"),
+  ],
+  "uniswap-v2-router:removeLiquidity": [
+    inField("amountAMin", "tokenA"),
+    inField("amountBMin", "tokenB"),
+  ],
+  "uniswap-v2-router:removeLiquidityETH": [inField("amountTokenMin", "token")],
+  "uniswap-v3-router:exactInputSingle": [
+    inField("params.amountIn", "params.tokenIn"),
+    inField("params.amountOutMinimum", "params.tokenOut"),
+  ],
+  "uniswap-v3-router:exactOutputSingle": [
+    inField("params.amountOut", "params.tokenOut"),
+    inField("params.amountInMaximum", "params.tokenIn"),
+  ],
+  "uniswap-v3-router:exactInput": [
+    pathEnd("params.amountIn", "params.path", "first"),
+    pathEnd("params.amountOutMinimum", "params.path", "last"),
+  ],
+  // Exact-output paths are encoded from the output token back to the input token.
+  "uniswap-v3-router:exactOutput": [
+    pathEnd("params.amountOut", "params.path", "first"),
+    pathEnd("params.amountInMaximum", "params.path", "last"),
+  ],
+  "uniswap-v3-router:sweepToken": [inField("amountMinimum", "token")],
+};
+
+/** Nested decoding stops here so hostile calldata cannot recurse forever. */
+const MAX_DEPTH = 3;
+
+function getPath(args: Args, path: string): unknown {
+  let value: unknown = args;
+  for (const key of path.split(".")) {
+    if (value == null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function sameAddress(a: string | undefined, b: string | undefined): boolean {
+  return a != null && b != null && a.toLowerCase() === b.toLowerCase();
+}
+
+export function createCalldataDecoder(params: {
+  /** ABIs registered by the user; those bound to the called address win over built-ins. */
+  registeredAbis?: (chainId: number) => Promise<RegisteredAbi[]> | RegisteredAbi[];
+  /** Decimals and symbol of a token, or null when the address is not an ERC20 token. */
+  getTokenInfo?: (chainId: number, token: string) => Promise<TokenInfo | null>;
+}): CalldataDecoder {
+  function tryAbi(abi: Abi, data: string): { fn: AbiFunction; args: readonly unknown[] } | null {
+    try {
+      const decoded = decodeFunctionData({ abi, data: data as Hex });
+      const selector = data.slice(0, 10).toLowerCase();
+      const fn = abi.find(
+        (item): item is AbiFunction =>
+          item.type === "function" &&
+          item.name === decoded.functionName &&
+          toFunctionSelector(item) === selector,
+      );
+      return fn ? { fn, args: decoded.args ?? [] } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async function tokenInfo(chainId: number, token: unknown): Promise<TokenInfo | null> {
+    if (typeof token !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(token) || !params.getTokenInfo) {
+      return null;
+    }
+    try {
+      return await params.getTokenInfo(chainId, token);
+    } catch {
+      return null;
+    }
+  }
+
+  async function formatAmounts(
+    chainId: number,
+    to: string | undefined,
+    key: string,
+    args: Args,
+  ): Promise<Record<string, string>> {
+    const formatted: Record<string, string> = {};
+    for (const hint of AMOUNT_HINTS[key] ?? []) {
+      const raw = getPath(args, hint.arg);
+      if (typeof raw !== "bigint") continue;
+      const info = await tokenInfo(chainId, hint.token(args, to));
+      if (!info) continue;
+      formatted[hint.arg] = `${formatUnits(raw, info.decimals)}${info.symbol ? ` ${info.symbol}` : ""}`;
+    }
+    return formatted;
+  }
+
+  async function decodeAt(
+    chainId: number,
+    to: string | undefined,
+    data: string,
+    depth: number,
+  ): Promise<DecodedCall | null> {
+    if (!/^0x[0-9a-fA-F]{8}/.test(data)) return null;
+    const registered = (await params.registeredAbis?.(chainId)) ?? [];
+    const candidates: BuiltinAbi[] = [
+      ...registered
+        .filter((r) => r.address != null && sameAddress(r.address, to))
+        .map((r) => ({ source: r.label ?? "registered", abi: parseAbiInput(r.abi) })),
+      ...BUILTIN_ABIS,
+      ...registered
+        .filter((r) => r.address == null || to == null)
+        .map((r) => ({ source: r.label ?? "registered", abi: parseAbiInput(r.abi) })),
+      // Last resort: signatures from the offline selector database (one candidate per overload).
+      ...lookupSelector(data.slice(0, 10)).map((fn) => ({ source: "selector-db", abi: [fn] as Abi })),
+    ];
+    for (const candidate of candidates) {
+      const match = tryAbi(candidate.abi, data);
+      if (!match) continue;
+      const named: Args = Object.fromEntries(
+        match.fn.inputs.map((input, i) => [input.name || String(i), match.args[i]]),
+      );
+      const call: DecodedCall = {
+        functionName: match.fn.name,
+        signature: toFunctionSignature(match.fn),
+        source: candidate.source,
+        args: match.fn.inputs.map((input, i) => ({
+          name: input.name || String(i),
+          type: input.type,
+          value: toDecodedValue(match.args[i], input),
+        })),
+      };
+      const key = `${candidate.source}:${match.fn.name}`;
+      const formattedAmounts = await formatAmounts(chainId, to, key, named);
+      if (
+        candidate.source === "erc20" &&
+        to != null &&
+        (match.fn.name === "transferFrom" || match.fn.name === "approve") &&
+        !(await tokenInfo(chainId, to))
+      ) {
+        relabelErc721(call);
+      } else if (Object.keys(formattedAmounts).length > 0) {
+        call.formattedAmounts = formattedAmounts;
+      }
+      if (depth < MAX_DEPTH) {
+        const calls = await decodeBatch(chainId, to, candidate.source, named, depth);
+        if (calls) call.calls = calls;
+      }
+      return call;
+    }
+    return null;
+  }
+
+  /** Inner calls of multicall-style functions. */
+  async function decodeBatch(
+    chainId: number,
+    to: string | undefined,
+    source: string,
+    args: Args,
+    depth: number,
+  ): Promise<DecodedCall["calls"] | undefined> {
+    let inner: Array<{ target?: string; value?: string; data: string }> = [];
+    if (source === "multicall3" && Array.isArray(args.calls)) {
+      inner = (args.calls as Array<{ target: string; callData: string; value?: bigint }>).map(
+        (c) => ({
+          target: c.target,
+          data: c.callData,
+          ...(c.value != null ? { value: c.value.toString() } : {}),
+        }),
+      );
+    } else if (source === "multicall" && Array.isArray(args.data)) {
+      // Uniswap-style multicall: every entry is a call to the same contract.
+      inner = (args.data as string[]).map((data) => ({ ...(to ? { target: to } : {}), data }));
+    } else {
+      return undefined;
+    }
+    const calls: NonNullable<DecodedCall["calls"]> = [];
+    for (const c of inner) {
+      const decoded = await decodeAt(chainId, c.target, c.data, depth + 1);
+      calls.push({ ...c, ...(decoded ? { decoded } : {}) });
+    }
+    return calls;
+  }
+
+  return {
+    async decode({ chainId, to, data }) {
+      try {
+        return await decodeAt(chainId, to, data.trim(), 0);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/** transferFrom / approve on a contract without decimals(): an ERC721 token id, not an amount. */
+function relabelErc721(call: DecodedCall): void {
+  call.source = "erc721";
+  const last = call.args[call.args.length - 1];
+  if (last) last.name = "tokenId";
+}
+
+/** Inline rendering of a decoded value, substituting formatted token amounts by path. */
+function formatValue(value: DecodedValue, path: string, amounts: Record<string, string>): string {
+  if (amounts[path]) return amounts[path];
+  if (Array.isArray(value)) return `[${value.map((v, i) => formatValue(v, `${path}.${i}`, amounts)).join(", ")}]`;
+  if (typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([k, v]) => `${k}: ${formatValue(v, `${path}.${k}`, amounts)}`,
+    );
+    return `{ ${entries.join(", ")} }`;
+  }
+  return String(value);
+}
+
+/** Summary lines for approvers: the call with named args, then any batched calls indented. */
+export function formatDecodedCall(call: DecodedCall, indent = ""): string[] {
+  const amounts = call.formattedAmounts ?? {};
+  // Batched calls are listed below, so the raw batch argument is replaced by a count.
+  const shown = call.calls ? call.args.filter((a) => a.name !== "calls" && a.name !== "data") : call.args;
+  const args = shown.map((a) => `${a.name}: ${formatValue(a.value, a.name, amounts)}`);
+  if (call.calls) args.push(`${call.calls.length} calls`);
+  const lines = [`${indent}${call.functionName}(${args.join(", ")}) [${call.source}]`];
+  (call.calls ?? []).forEach((c, i) => {
+    const target = c.target ?? "the same contract";
+    const head = `${indent}  ${i + 1}. to ${target}${c.value && c.value !== "0" ? ` (value ${c.value} wei)` : ""}:`;
+    if (!c.decoded) {
+      lines.push(`${head} unknown call ${c.data.slice(0, 10)}`);
+      return;
+    }
+    const [first, ...rest] = formatDecodedCall(c.decoded, `${indent}    `);
+    lines.push(`${head} ${first.trim()}`, ...rest);
+  });
+  return lines;
+}
@@ -7,9 +7,25 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
+import type { RegisteredAbi } from "./calldata-decoder.js";
+import type { SpendWindow } from "./daily-spend-store.js";
+import type { NameServiceConfig } from "./ens.js";
+import type { NftCollectionConfig } from "./nft.js";
+import type { NotifyConfig } from "./notifier.js";
+import type { PolicyRuleConfig } from "./policy.js";
+import type { PriceSourceConfig } from "./price-source.js";
+import type { ReceiptTrackingConfig } from "./receipt-tracker.js";
+import type { SimulationConfig } from "./simulation.js";
+import type { TokenRegistryConfig } from "./token-registry.js";
+import type { ApprovalCodeConfig, ApprovalLimits, QuorumRule, TokenLimit } from "./types.js";
+
 export type WalletsChainConfig = {
   rpcUrl?: string;
   blockExplorerUrl?: string;
+  nameService?: NameServiceConfig;
+  confirmations?: number;
+  forkRpcUrl?: string;
+  multicall3Address?: string;
 };
 
 export type WalletIntegrationConfig = {
@@ -21,9 +37,19 @@ export type WalletIntegrationConfig = {
         mode?: "notify" | "auto";
         limitPerTx?: string;
         dailyLimit?: string;
+        limitPerTxUsd?: string;
+        dailyLimitUsd?: string;
+        chainLimits?: Record<string, { limitPerTx?: string; dailyLimit?: string }>;
+        window?: SpendWindow;
         allowedChains?: number[];
         allowedRecipients?: string[];
         notifyChannels?: string[];
+        tokenLimits?: TokenLimit[];
+        approvals?: ApprovalLimits;
+        quorum?: QuorumRule[];
+        approvalCode?: ApprovalCodeConfig;
+        simulation?: SimulationConfig;
+        rules?: PolicyRuleConfig[];
       };
       verifiedTokenAddresses?: string[];
       verifiedContractAddresses?: string[];
@@ -32,9 +58,12 @@ export type WalletIntegrationConfig = {
       sepolia?: WalletsChainConfig;
       [chainId: string]: WalletsChainConfig | undefined;
     };
-    notify?: {
-      primaryChannel?: string;
-    };
+    notify?: NotifyConfig;
+    prices?: PriceSourceConfig;
+    receipts?: ReceiptTrackingConfig;
+    abis?: RegisteredAbi[];
+    tokens?: TokenRegistryConfig;
+    nfts?: NftCollectionConfig[];
   };
 };
 
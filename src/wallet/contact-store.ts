@@ -0,0 +1,81 @@
+/**
+ * Per-peer address book (contacts.json next to state.json). Labels are unique, case-insensitive.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type { Contact } from "./types.js";
+
+const CONTACTS_FILENAME = "contacts.json";
+
+export type ContactStore = {
+  dir: string;
+  load(): Promise<Contact[]>;
+  add(contact: Contact): Promise<void>;
+  /** Returns false when no contact has the label. */
+  remove(label: string): Promise<boolean>;
+  findByLabel(label: string): Promise<Contact | null>;
+  /** First contact for the address, preferring one enabled on chainId. */
+  findByAddress(address: string, chainId?: number): Promise<Contact | null>;
+};
+
+function sameLabel(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function contactAllowsChain(contact: Contact, chainId: number): boolean {
+  return !contact.chains || contact.chains.length === 0 || contact.chains.includes(chainId);
+}
+
+export function createContactStore(walletsDir: string): ContactStore {
+  const filePath = path.join(walletsDir, CONTACTS_FILENAME);
+
+  async function load(): Promise<Contact[]> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(raw);
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function save(items: Contact[]): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, JSON.stringify(items, null, 2), { mode: 0o600 });
+  }
+
+  return {
+    dir: walletsDir,
+    load,
+    async add(contact) {
+      const items = await load();
+      if (items.some((c) => sameLabel(c.label, contact.label))) {
+        throw new Error(`Contact "${contact.label}" already exists`);
+      }
+      items.push(contact);
+      await save(items);
+    },
+    async remove(label) {
+      const items = await load();
+      const kept = items.filter((c) => !sameLabel(c.label, label));
+      if (kept.length === items.length) return false;
+      await save(kept);
+      return true;
+    },
+    async findByLabel(label) {
+      const items = await load();
+      return items.find((c) => sameLabel(c.label, label)) ?? null;
+    },
+    async findByAddress(address, chainId) {
+      const normalized = address.trim().toLowerCase();
+      const matches = (await load()).filter((c) => c.address.toLowerCase() === normalized);
+      if (chainId != null) {
+        const onChain = matches.find((c) => contactAllowsChain(c, chainId));
+        if (onChain) return onChain;
+      }
+      return matches[0] ?? null;
+    },
+  };
+}
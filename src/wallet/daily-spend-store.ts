@@ -1,67 +1,239 @@
 /**
- * Persisted daily spend tally for wallet dailyLimit enforcement.
+ * Persisted spend ledger for daily limit enforcement.
+ * Spends are recorded per wallet, chain and asset ("native", a token address, or "usd") and
+ * summed over the configured window. Budget is reserved when a pending tx is created, made
+ * final on broadcast and released on rejection, expiry or failure. Final entries older than
+ * the retention period are pruned. On first use, today's total from the legacy single-record
+ * file (daily-spend.json) is imported so an upgrade does not reset it.
  */
 
 import fs from "node:fs/promises";
 import path from "node:path";
 
-export type DailySpendRecord = {
-  date: string;
-  totalWei: string;
+import { createMutex } from "./mutex.js";
+
+/** "native" for the gas token, "usd" for the USD tally, otherwise a lowercased token address. */
+export type SpendAsset = string;
+
+export type SpendEntry = {
+  at: number;
+  walletId: string;
+  chainId: number;
+  asset: SpendAsset;
+  amount: string;
+  txId?: string;
+  /** "reserved" while the tx is pending; missing means final (older ledgers). */
+  status?: "reserved" | "final";
 };
 
-const DAILY_SPEND_FILENAME = "daily-spend.json";
+/**
+ * Daily window: a rolling 24h window, or the current calendar day in an IANA timezone
+ * (default UTC).
+ */
+export type SpendWindow = { type: "rolling" } | { type: "calendar"; timezone?: string };
 
-function todayUtc(): string {
-  const d = new Date();
-  return `${d.getUTCFullYear()}-${String(d.getUTCMonth() + 1).padStart(2, "0")}-${String(d.getUTCDate()).padStart(2, "0")}`;
-}
+export type SpendFilter = {
+  walletId: string;
+  /** Omit to sum across chains (used for the USD tally). */
+  chainId?: number;
+  asset: SpendAsset;
+};
+
+export type SpendLeg = { asset: SpendAsset; amount: bigint };
+
+const SPEND_LEDGER_FILENAME = "spend-ledger.json";
+const LEGACY_FILENAME = "daily-spend.json";
+/**
+ * Legacy totals were not split by wallet or chain, so imported entries use these wildcards
+ * and count against every wallet and chain.
+ */
+const ANY_WALLET = "*";
+const ANY_CHAIN = 0;
+/** Keep two days of final entries: enough for any calendar day or rolling window. */
+const RETENTION_MS = 48 * 60 * 60 * 1000;
 
 export type DailySpendStore = {
-  getTotalForDate(date: string): Promise<bigint>;
-  addSpend(date: string, valueWei: bigint): Promise<void>;
+  /**
+   * Final spends inside the window plus all live reservations (reservations count regardless
+   * of age). `excludeTxIds` leaves out those txs' entries, e.g. a tx's own reservation when
+   * re-checking it, or the original's spend when checking its replacement.
+   */
+  getTotals(
+    filter: SpendFilter,
+    since: number,
+    excludeTxIds?: string[],
+  ): Promise<{ spent: bigint; reserved: bigint }>;
+  /** Hold budget for a pending tx, replacing any earlier reservation for the same tx. */
+  reserve(txId: string, base: { walletId: string; chainId: number }, legs: SpendLeg[]): Promise<void>;
+  /** Turn a tx's reservation into final spend, dated now. */
+  finalize(txId: string): Promise<void>;
+  /** Drop a tx's reservation. */
+  release(txId: string): Promise<void>;
+  /** Drop every entry of a tx, final spend included (e.g. a sent tx that was cancelled). */
+  remove(txId: string): Promise<void>;
+  listReservations(): Promise<Array<{ txId: string; at: number }>>;
 };
 
 export function createDailySpendStore(walletsDir: string): DailySpendStore {
-  const filePath = path.join(walletsDir, DAILY_SPEND_FILENAME);
+  const filePath = path.join(walletsDir, SPEND_LEDGER_FILENAME);
+  // Serialize read-modify-write cycles so concurrent updates are not lost.
+  const mutex = createMutex();
+  let migration: Promise<void> | undefined;
+
+  async function importLegacy(): Promise<void> {
+    try {
+      await fs.access(filePath);
+      return;
+    } catch {
+      // no ledger yet
+    }
+    try {
+      const data = JSON.parse(await fs.readFile(path.join(walletsDir, LEGACY_FILENAME), "utf8"));
+      if (data?.date !== new Date().toISOString().slice(0, 10) || typeof data.totalWei !== "string") return;
+      const amount = BigInt(data.totalWei);
+      if (amount <= 0n) return;
+      await save([
+        {
+          at: Date.now(),
+          walletId: ANY_WALLET,
+          chainId: ANY_CHAIN,
+          asset: "native",
+          amount: amount.toString(),
+          status: "final",
+        },
+      ]);
+    } catch {
+      // missing or malformed legacy file
+    }
+  }
 
-  async function load(): Promise<DailySpendRecord> {
+  async function load(): Promise<SpendEntry[]> {
+    migration ??= importLegacy();
+    await migration;
     try {
       const raw = await fs.readFile(filePath, "utf8");
-      const data = JSON.parse(raw) as DailySpendRecord;
-      if (typeof data.date === "string" && typeof data.totalWei === "string") {
-        return data;
-      }
+      const data = JSON.parse(raw);
+      return Array.isArray(data) ? data : [];
     } catch {
-      // ignore
+      return [];
     }
-    return { date: "", totalWei: "0" };
   }
 
-  async function save(record: DailySpendRecord): Promise<void> {
+  async function save(entries: SpendEntry[]): Promise<void> {
     await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
-    await fs.writeFile(filePath, JSON.stringify(record, null, 2), { mode: 0o600 });
+    await fs.writeFile(filePath, JSON.stringify(entries, null, 2), { mode: 0o600 });
+  }
+
+  function mutate(fn: (entries: SpendEntry[]) => SpendEntry[]): Promise<void> {
+    return mutex.run(async () => {
+      const now = Date.now();
+      const entries = (await load()).filter((e) => e.status === "reserved" || e.at >= now - RETENTION_MS);
+      await save(fn(entries));
+    });
+  }
+
+  function matches(entry: SpendEntry, filter: SpendFilter): boolean {
+    return (
+      (entry.walletId === filter.walletId || entry.walletId === ANY_WALLET) &&
+      (filter.chainId == null || entry.chainId === filter.chainId || entry.chainId === ANY_CHAIN) &&
+      entry.asset === normalizeAsset(filter.asset)
+    );
   }
 
   return {
-    async getTotalForDate(date: string): Promise<bigint> {
-      const record = await load();
-      if (record.date !== date) return 0n;
-      try {
-        return BigInt(record.totalWei);
-      } catch {
-        return 0n;
+    async getTotals(filter, since, excludeTxIds = []) {
+      const entries = await load();
+      let spent = 0n;
+      let reserved = 0n;
+      for (const entry of entries) {
+        if (!matches(entry, filter)) continue;
+        if (entry.txId != null && excludeTxIds.includes(entry.txId)) continue;
+        try {
+          if (entry.status === "reserved") {
+            reserved += BigInt(entry.amount);
+          } else if (entry.at >= since) {
+            spent += BigInt(entry.amount);
+          }
+        } catch {
+          // skip malformed entries
+        }
       }
+      return { spent, reserved };
+    },
+    reserve(txId, base, legs) {
+      return mutate((entries) => {
+        const at = Date.now();
+        const kept = entries.filter((e) => !(e.txId === txId && e.status === "reserved"));
+        for (const leg of legs) {
+          if (leg.amount <= 0n) continue;
+          kept.push({
+            at,
+            walletId: base.walletId,
+            chainId: base.chainId,
+            asset: normalizeAsset(leg.asset),
+            amount: leg.amount.toString(),
+            txId,
+            status: "reserved",
+          });
+        }
+        return kept;
+      });
+    },
+    finalize(txId) {
+      return mutate((entries) => {
+        const at = Date.now();
+        return entries.map((e) =>
+          e.txId === txId && e.status === "reserved" ? { ...e, at, status: "final" } : e,
+        );
+      });
+    },
+    release(txId) {
+      return mutate((entries) => entries.filter((e) => !(e.txId === txId && e.status === "reserved")));
     },
-    async addSpend(date: string, valueWei: bigint): Promise<void> {
-      const record = await load();
-      const total =
-        record.date === date ? BigInt(record.totalWei) + valueWei : valueWei;
-      await save({ date, totalWei: total.toString() });
+    remove(txId) {
+      return mutate((entries) => entries.filter((e) => e.txId !== txId));
+    },
+    async listReservations() {
+      const byTx = new Map<string, number>();
+      for (const entry of await load()) {
+        if (entry.status !== "reserved" || !entry.txId) continue;
+        byTx.set(entry.txId, Math.min(entry.at, byTx.get(entry.txId) ?? entry.at));
+      }
+      return [...byTx].map(([txId, at]) => ({ txId, at }));
     },
   };
 }
 
-export function getTodayUtc(): string {
-  return todayUtc();
+function normalizeAsset(asset: SpendAsset): SpendAsset {
+  return asset.trim().toLowerCase();
+}
+
+/** Offset (ms) of `timeZone` from UTC at the given instant. */
+function timeZoneOffsetMs(at: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(at));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * Start (ms since epoch) of the spend window containing `now`.
+ */
+export function getWindowStart(window: SpendWindow | undefined, now: number = Date.now()): number {
+  if (window?.type === "rolling") return now - 24 * 60 * 60 * 1000;
+  const timeZone = window?.timezone?.trim() || "UTC";
+  const local = new Date(now + timeZoneOffsetMs(now, timeZone));
+  const localMidnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  // Re-evaluate the offset at midnight itself so DST changes during the day are handled.
+  const guess = localMidnight - timeZoneOffsetMs(now, timeZone);
+  return localMidnight - timeZoneOffsetMs(guess, timeZone);
 }
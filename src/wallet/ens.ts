@@ -0,0 +1,116 @@
+/**
+ * ENS (and ENS-compatible) name resolution via a Universal Resolver.
+ * Each chain can point at its own resolver, so L2 name services or a local ENS deployment
+ * can be used instead of mainnet ENS. Addresses are resolved for the tx chain's ENSIP-11 coin
+ * type (60 on mainnet), falling back to the default EVM coin type, never to the mainnet address.
+ */
+
+import { getAddress, toCoinType, type Address } from "viem";
+import { mainnet, sepolia } from "viem/chains";
+import { normalize } from "viem/ens";
+
+import type { RpcClient } from "./rpc.js";
+import type { WalletConfig } from "./types.js";
+
+/** Where to resolve names for transactions on a chain. */
+export type NameServiceConfig = {
+  /** Chain that hosts the resolver (default: this chain when a resolver address is set, else 1). */
+  chainId?: number;
+  /** Universal Resolver address (default: the canonical ENS one on mainnet / Sepolia). */
+  universalResolverAddress?: string;
+};
+
+export type NameResolver = {
+  /** Forward-resolve a name for a tx on `chainId`; throws when it does not resolve. */
+  resolveName(name: string, chainId: number): Promise<{ name: string; address: string }>;
+  /** Primary (reverse) name for display; null when unknown or on lookup failure. */
+  lookupAddress(address: string, chainId: number): Promise<string | null>;
+};
+
+const DEFAULT_UNIVERSAL_RESOLVERS: Record<number, string> = {
+  [mainnet.id]: mainnet.contracts.ensUniversalResolver.address,
+  [sepolia.id]: sepolia.contracts.ensUniversalResolver.address,
+};
+
+/** ENSIP-19 default EVM coin type: an address set for every EVM chain without its own. */
+const DEFAULT_EVM_COIN_TYPE = 0x80000000n;
+
+/** Reverse lookups are cached for display only. */
+const REVERSE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** True for dotted names like "vitalik.eth" or "pay.acme.base.eth". */
+export function isEnsName(value: string): boolean {
+  const trimmed = value.trim();
+  return !trimmed.startsWith("0x") && /^[^\s./]+(\.[^\s./]+)+$/u.test(trimmed);
+}
+
+export function createNameResolver(params: {
+  chains: Record<number, WalletConfig>;
+  getRpc: (chainId: number) => RpcClient;
+}): NameResolver {
+  const reverseCache = new Map<string, { name: string | null; at: number }>();
+
+  function target(chainId: number): { chainId: number; resolver: Address } | null {
+    const cfg = params.chains[chainId]?.nameService;
+    const ownResolver = cfg?.universalResolverAddress?.trim();
+    const resolverChainId = cfg?.chainId ?? (ownResolver ? chainId : mainnet.id);
+    if (!params.chains[resolverChainId]) return null;
+    const resolver = ownResolver || DEFAULT_UNIVERSAL_RESOLVERS[resolverChainId];
+    if (!resolver) return null;
+    return { chainId: resolverChainId, resolver: getAddress(resolver) };
+  }
+
+  return {
+    async resolveName(name, chainId) {
+      const where = target(chainId);
+      if (!where) {
+        throw new Error(
+          `Cannot resolve "${name}": no name service for chain ${chainId} (configure chain 1 or chains.<id>.nameService)`,
+        );
+      }
+      let normalized: string;
+      try {
+        normalized = normalize(name.trim());
+      } catch {
+        throw new Error(`Invalid name "${name}"`);
+      }
+      const client = params.getRpc(where.chainId).publicClient;
+      const coinType = toCoinType(chainId);
+      let address = await client.getEnsAddress({
+        name: normalized,
+        coinType,
+        universalResolverAddress: where.resolver,
+      });
+      if (!address && coinType !== 60n) {
+        address = await client.getEnsAddress({
+          name: normalized,
+          coinType: DEFAULT_EVM_COIN_TYPE,
+          universalResolverAddress: where.resolver,
+        });
+      }
+      if (!address) {
+        throw new Error(`Name "${normalized}" does not resolve to an address on chain ${chainId}`);
+      }
+      return { name: normalized, address: getAddress(address) };
+    },
+    async lookupAddress(address, chainId) {
+      const where = target(chainId);
+      if (!where) return null;
+      const key = `${where.chainId}:${chainId}:${address.toLowerCase()}`;
+      const cached = reverseCache.get(key);
+      if (cached && Date.now() - cached.at < REVERSE_CACHE_TTL_MS) return cached.name;
+      let name: string | null = null;
+      try {
+        name = await params.getRpc(where.chainId).publicClient.getEnsName({
+          address: getAddress(address),
+          coinType: toCoinType(chainId),
+          universalResolverAddress: where.resolver,
+        });
+      } catch {
+        name = null;
+      }
+      reverseCache.set(key, { name, at: Date.now() });
+      return name;
+    },
+  };
+}
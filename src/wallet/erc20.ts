@@ -1,14 +1,20 @@
 /**
- * ERC20 ABI slice and encoding for approve/transfer.
+ * ERC20 ABI slice and encoding/decoding for approve/transfer/transferFrom.
  */
 
-import { encodeFunctionData, parseAbi } from "viem";
+import { decodeFunctionData, encodeFunctionData, parseAbi, type Hex } from "viem";
 
 const ERC20_ABI = parseAbi([
   "function approve(address spender, uint256 amount) returns (bool)",
   "function transfer(address to, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
 ]);
 
+export type Erc20Call =
+  | { functionName: "transfer"; to: string; amount: bigint }
+  | { functionName: "transferFrom"; from: string; to: string; amount: bigint }
+  | { functionName: "approve"; spender: string; amount: bigint };
+
 export function encodeErc20Approve(spender: string, amountWei: bigint): `0x${string}` {
   return encodeFunctionData({
     abi: ERC20_ABI,
@@ -24,3 +30,30 @@ export function encodeErc20Transfer(to: string, amountWei: bigint): `0x${string}
     args: [to as `0x${string}`, amountWei],
   });
 }
+
+/**
+ * Decode calldata as an ERC20 transfer/transferFrom/approve. Returns null for anything else.
+ */
+export function decodeErc20Call(data: string | undefined): Erc20Call | null {
+  if (!data || !data.startsWith("0x") || data.length < 10) return null;
+  try {
+    const decoded = decodeFunctionData({ abi: ERC20_ABI, data: data as Hex });
+    switch (decoded.functionName) {
+      case "transfer":
+        return { functionName: "transfer", to: decoded.args[0], amount: decoded.args[1] };
+      case "transferFrom":
+        return {
+          functionName: "transferFrom",
+          from: decoded.args[0],
+          to: decoded.args[1],
+          amount: decoded.args[2],
+        };
+      case "approve":
+        return { functionName: "approve", spender: decoded.args[0], amount: decoded.args[1] };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Event log queries: topic filters from an event signature (with indexed-arg filters) and
+ * decoding of raw logs against the caller's event, registered ABIs and the selector database.
+ */
+
+import {
+  decodeEventLog,
+  encodeEventTopics,
+  parseAbiItem,
+  type Abi,
+  type AbiEvent,
+  type Hex,
+} from "viem";
+
+import { coerceValue, toDecodedValue, type DecodedValue } from "./abi-codec.js";
+import { lookupEventName, lookupEventTopic } from "./selector-db.js";
+
+/** Blocks scanned when only one end of the range is given. */
+export const DEFAULT_LOG_BLOCK_RANGE = 1_000;
+/** Widest range accepted; most public RPCs reject larger eth_getLogs ranges. */
+export const MAX_LOG_BLOCK_RANGE = 10_000;
+export const DEFAULT_LOG_LIMIT = 100;
+export const MAX_LOG_LIMIT = 1_000;
+
+/** Log as returned by eth_getLogs. */
+export type RawLog = {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string | null;
+  transactionHash: string | null;
+  logIndex: string | null;
+};
+
+export type DecodedLog = {
+  address: string;
+  blockNumber?: string;
+  transactionHash?: string;
+  logIndex?: number;
+  /** Set when the log matched a known event. */
+  eventName?: string;
+  signature?: string;
+  /** Where the event definition came from: "query", a registered label, or "selector-db". */
+  source?: string;
+  args?: Record<string, DecodedValue>;
+  topics: string[];
+  data: string;
+};
+
+export type EventSource = { source: string; events: AbiEvent[] };
+
+export function abiEvents(abi: Abi): AbiEvent[] {
+  return abi.filter((item): item is AbiEvent => item.type === "event");
+}
+
+function eventSignature(event: AbiEvent): string {
+  return `${event.name}(${event.inputs.map((p) => p.type).join(",")})`;
+}
+
+/**
+ * Event from a signature ("Transfer(address indexed from, address indexed to, uint256 value)")
+ * or a name looked up in `abi`, then in the selector database.
+ */
+export function resolveEvent(event: string, abi?: Abi): AbiEvent {
+  const input = event.trim().replace(/^event\s+/, "");
+  if (input.includes("(")) {
+    try {
+      return parseAbiItem(`event ${input}`) as AbiEvent;
+    } catch {
+      throw new Error(`Invalid event signature "${input}"`);
+    }
+  }
+  const fromAbi = abi ? abiEvents(abi).filter((e) => e.name === input) : [];
+  if (fromAbi.length > 1) {
+    throw new Error(
+      `Event "${input}" is overloaded; pass the full signature: ${fromAbi.map(eventSignature).join(", ")}`,
+    );
+  }
+  const found = fromAbi[0] ?? lookupEventName(input)[0];
+  if (!found) throw new Error(`Event "${input}" not found; pass its full signature`);
+  return found;
+}
+
+/** topics filter for the event, narrowed by indexed args (keyed by name). */
+export function eventTopics(
+  event: AbiEvent,
+  args?: Record<string, unknown>,
+): Array<Hex | Hex[] | null> {
+  const filter: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(args ?? {})) {
+    const input = event.inputs.find((p) => p.name === name);
+    if (!input) throw new Error(`Event ${eventSignature(event)} has no param "${name}"`);
+    if (!input.indexed) throw new Error(`Only indexed params can be filtered; "${name}" is not indexed`);
+    filter[name] = Array.isArray(value)
+      ? value.map((v, i) => coerceValue(input, v, `${name}[${i}]`))
+      : coerceValue(input, value, name);
+  }
+  return encodeEventTopics({
+    abi: [event],
+    eventName: event.name,
+    ...(Object.keys(filter).length > 0 ? { args: filter } : {}),
+  } as Parameters<typeof encodeEventTopics>[0]) as Array<Hex | Hex[] | null>;
+}
+
+/** Decode with the first event (in source order) whose topic0 and layout fit; raw otherwise. */
+export function decodeLog(log: RawLog, sources: EventSource[]): DecodedLog {
+  const base: DecodedLog = {
+    address: log.address,
+    ...(log.blockNumber != null ? { blockNumber: BigInt(log.blockNumber).toString() } : {}),
+    ...(log.transactionHash != null ? { transactionHash: log.transactionHash } : {}),
+    ...(log.logIndex != null ? { logIndex: Number(log.logIndex) } : {}),
+    topics: log.topics,
+    data: log.data,
+  };
+  const topic0 = log.topics[0];
+  if (!topic0) return base;
+  const candidates = [...sources, { source: "selector-db", events: lookupEventTopic(topic0) }];
+  for (const { source, events } of candidates) {
+    for (const event of events) {
+      try {
+        const decoded = decodeEventLog({
+          abi: [event],
+          data: log.data as Hex,
+          topics: log.topics as [Hex, ...Hex[]],
+          strict: true,
+        });
+        const values = decoded.args as unknown;
+        const args = Object.fromEntries(
+          event.inputs.map((p, i) => [
+            p.name || String(i),
+            toDecodedValue(
+              Array.isArray(values) ? values[i] : (values as Record<string, unknown>)[p.name || String(i)],
+              p,
+            ),
+          ]),
+        );
+        return { ...base, eventName: event.name, signature: eventSignature(event), source, args };
+      } catch {
+        // topic0 differs or the indexed layout does not fit; try the next candidate.
+      }
+    }
+  }
+  return base;
+}
@@ -4,33 +4,170 @@
 
 import { resolveStateDir } from "./config-adapter.js";
 import type { WalletIntegrationConfig } from "./config-adapter.js";
+import { createConfiguredNotifiers, formatPendingTxNotification } from "./notifier.js";
+import type { Notifier } from "./notifier.js";
 import { createWalletService } from "./service.js";
-import type { PendingTx, WalletConfig } from "./types.js";
+import type { ApprovalCodeDelivery } from "./service.js";
+import type { WalletConfig } from "./types.js";
 import { SEPOLIA_CHAIN_ID } from "./types.js";
 
-export function formatPendingTxNotification(pending: PendingTx): string {
+/** Message carrying a one-time approval code; send it to the user, never to the agent. */
+export function formatApprovalCodeMessage(delivery: ApprovalCodeDelivery): string {
+  const minutes = Math.max(1, Math.round((delivery.expiresAt - Date.now()) / 60_000));
   return [
-    "Wallet send approval required.",
-    `Tx ID: ${pending.txId}`,
-    `From: ${pending.from}`,
-    `To: ${pending.to}`,
-    `Value (wei): ${pending.valueWei}`,
-    `Chain ID: ${pending.chainId}`,
+    `Approval code for wallet tx ${delivery.pending.txId}: ${delivery.code}`,
+    `Valid for ${minutes} min. Only share it with the assistant if you want this tx sent.`,
     "",
-    `To approve: moltbot wallet approve --tx-id ${pending.txId}`,
+    formatPendingTxNotification(delivery.pending),
   ].join("\n");
 }
 
-export type { WalletService, WalletServiceConfig } from "./service.js";
-export type { PendingTx, WalletMeta, WalletState, WalletConfig, WalletsLimits } from "./types.js";
+/** Send an approval code through every transport; fails only when none took it. */
+async function deliverApprovalCodeVia(notifiers: Notifier[], delivery: ApprovalCodeDelivery): Promise<void> {
+  const notification = {
+    event: "approval_code" as const,
+    at: new Date().toISOString(),
+    pending: delivery.pending,
+    text: formatApprovalCodeMessage(delivery),
+  };
+  const results = await Promise.allSettled(notifiers.map((n) => n.send(notification)));
+  const errors = results.flatMap((r, i) =>
+    r.status === "rejected"
+      ? [`${notifiers[i].name}: ${r.reason instanceof Error ? r.reason.message : String(r.reason)}`]
+      : [],
+  );
+  if (errors.length === notifiers.length) throw new Error(errors.join("; "));
+}
+
+export type { ApprovalCodeDelivery, WalletService, WalletServiceConfig } from "./service.js";
+export type {
+  ApprovalCodeConfig,
+  ApprovalLimits,
+  ApprovalVote,
+  BudgetLine,
+  Contact,
+  ContractAbi,
+  PendingTx,
+  QuorumRule,
+  ResolvedName,
+  SpendBudget,
+  TokenLimit,
+  TxReceiptInfo,
+  TxWarning,
+  WalletMeta,
+  WalletState,
+  WalletConfig,
+  WalletsLimits,
+} from "./types.js";
 export { createKeychainAdapter } from "./keychain.js";
 export { createEncryptedFileKeychainAdapter } from "./keychain-encrypted.js";
 export { createWalletService } from "./service.js";
 export { createRpcClient } from "./rpc.js";
+export { MULTICALL3_ADDRESS, readContracts } from "./multicall.js";
+export type { ContractRead, ContractReadResult } from "./multicall.js";
+export { decodeNftCall, readNftHoldings } from "./nft.js";
+export type { NftCall, NftCollectionConfig, NftHolding, NftStandard } from "./nft.js";
+export { formatTypedDataPreview, parseTypedData, previewTypedData, signTypedDataWithKey } from "./typed-data.js";
+export type {
+  TypedDataApproval,
+  TypedDataAsset,
+  TypedDataField,
+  TypedDataKind,
+  TypedDataPreview,
+  TypedDataRequest,
+} from "./typed-data.js";
 export { createPendingStore } from "./pending-store.js";
 export { createStateStore } from "./state-store.js";
 export { createAuditLog } from "./audit.js";
+export { createContactStore } from "./contact-store.js";
+export { createAbiStore } from "./abi-store.js";
+export type { AbiStore } from "./abi-store.js";
+export { createTokenRegistry, parseTokenList } from "./token-registry.js";
+export type {
+  ImportedTokenList,
+  TokenConfigEntry,
+  TokenEntry,
+  TokenListing,
+  TokenRegistry,
+  TokenRegistryConfig,
+} from "./token-registry.js";
+export {
+  coerceValue,
+  decodeResult,
+  encodeCall,
+  parseAbiInput,
+  selectFunction,
+  summarizeFunction,
+} from "./abi-codec.js";
+export type { AbiFunctionSummary, CallArgs, DecodedValue } from "./abi-codec.js";
+export { decodeLog, eventTopics, resolveEvent } from "./event-logs.js";
+export type { DecodedLog, EventSource, RawLog } from "./event-logs.js";
+export { lookupEventTopic, lookupSelector } from "./selector-db.js";
+export { createApprovalCodeStore } from "./approval-code-store.js";
+export type { ApprovalCodeCheck, ApprovalCodeStore } from "./approval-code-store.js";
+export { createNonceManager } from "./nonce-manager.js";
+export type { NonceKey, NonceManager, NonceState } from "./nonce-manager.js";
+export { decodeRevertReason, formatSimulation, simulateTx } from "./simulation.js";
+export type { SimulationConfig, TxSimulation } from "./simulation.js";
+export { formatAssetDiff, simulateAssetChanges } from "./asset-diff.js";
+export type { AssetApproval, AssetChange, AssetDiff, AssetDiffTx } from "./asset-diff.js";
+export { createCalldataDecoder, formatDecodedCall } from "./calldata-decoder.js";
+export type {
+  CalldataDecoder,
+  DecodedArg,
+  DecodedCall,
+  RegisteredAbi,
+  TokenInfo,
+} from "./calldata-decoder.js";
+export {
+  checkSentTx,
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_DROP_AFTER_SECONDS,
+  DEFAULT_RECEIPT_POLL_INTERVAL_SECONDS,
+} from "./receipt-tracker.js";
+export type { ReceiptCheck, ReceiptTrackingConfig } from "./receipt-tracker.js";
+export {
+  createNotificationDispatcher,
+  createOutboxNotifier,
+  createStdoutNotifier,
+  createWebhookNotifier,
+  formatPendingTxNotification,
+  formatWalletNotification,
+  NOTIFICATION_EVENTS,
+  signWebhookBody,
+  verifyWebhookSignature,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from "./notifier.js";
+export type {
+  NotificationDispatcher,
+  NotificationEvent,
+  NotificationFailure,
+  Notifier,
+  NotifyConfig,
+  NotifyRetryConfig,
+  WalletNotification,
+  WebhookNotifierConfig,
+} from "./notifier.js";
+export { createNameResolver, isEnsName } from "./ens.js";
+export type { NameResolver, NameServiceConfig } from "./ens.js";
 export type { AuditEntry, AuditLogFilter } from "./audit.js";
+export { createDailySpendStore } from "./daily-spend-store.js";
+export type { DailySpendStore, SpendFilter, SpendLeg, SpendWindow } from "./daily-spend-store.js";
+export {
+  createChainlinkPriceSource,
+  createStaticPriceSource,
+} from "./price-source.js";
+export type { PriceQuote, PriceSource, PriceSourceConfig } from "./price-source.js";
+export type {
+  PolicyAction,
+  PolicyDecision,
+  PolicyRuleConfig,
+  PolicyTraceEntry,
+} from "./policy.js";
+export { resolveQuorum } from "./quorum.js";
+export type { Quorum, QuorumRequest } from "./quorum.js";
+export { createQuorumIndex } from "./quorum-index.js";
+export type { QuorumIndex, QuorumIndexEntry } from "./quorum-index.js";
 export { privateKeyToAddress, buildAndSignTx } from "./tx-builder.js";
 export { SEPOLIA_CHAIN_ID } from "./types.js";
 export type { WalletIntegrationConfig } from "./config-adapter.js";
@@ -72,7 +209,26 @@ export function resolveWalletChains(cfg: WalletIntegrationConfig): Record<number
         typeof entry.blockExplorerUrl === "string" && entry.blockExplorerUrl.trim()
           ? entry.blockExplorerUrl.trim().replace(/\/$/, "")
           : undefined;
-      out[chainId] = { chainId, rpcUrl, ...(blockExplorerUrl ? { blockExplorerUrl } : {}) };
+      const nameService = entry.nameService && typeof entry.nameService === "object" ? entry.nameService : undefined;
+      const confirmations =
+        typeof entry.confirmations === "number" && entry.confirmations >= 1
+          ? Math.floor(entry.confirmations)
+          : undefined;
+      const forkRpcUrl =
+        typeof entry.forkRpcUrl === "string" && entry.forkRpcUrl.trim() ? entry.forkRpcUrl.trim() : undefined;
+      const multicall3Address =
+        typeof entry.multicall3Address === "string" && entry.multicall3Address.trim()
+          ? entry.multicall3Address.trim()
+          : undefined;
+      out[chainId] = {
+        chainId,
+        rpcUrl,
+        ...(blockExplorerUrl ? { blockExplorerUrl } : {}),
+        ...(nameService ? { nameService } : {}),
+        ...(confirmations ? { confirmations } : {}),
+        ...(forkRpcUrl ? { forkRpcUrl } : {}),
+        ...(multicall3Address ? { multicall3Address } : {}),
+      };
     }
   }
   return out;
@@ -202,6 +358,8 @@ export function createWalletServiceFromConfig(cfg: WalletIntegrationConfig): Ret
   }
   const defaultChainId = resolveDefaultChainId(cfg);
   const stateDir = resolveStateDir();
+  // No chat here: approval codes go out through the webhook, outbox and stdout transports.
+  const codeTransports = createConfiguredNotifiers(cfg.wallets?.notify, getWalletsDir(stateDir));
   return createWalletService({
     stateDir,
     chains,
@@ -211,7 +369,15 @@ export function createWalletServiceFromConfig(cfg: WalletIntegrationConfig): Ret
     interactWithUnverifiedContracts: cfg.wallets?.interactWithUnverifiedContracts,
     verifiedTokenAddresses: cfg.wallets?.defaults?.verifiedTokenAddresses,
     verifiedContractAddresses: cfg.wallets?.defaults?.verifiedContractAddresses,
+    prices: cfg.wallets?.prices,
+    receipts: cfg.wallets?.receipts,
+    abis: cfg.wallets?.abis,
+    tokens: cfg.wallets?.tokens,
+    nfts: cfg.wallets?.nfts,
     platform: process.platform,
+    deliverApprovalCode: codeTransports.length
+      ? (delivery) => deliverApprovalCodeVia(codeTransports, delivery)
+      : undefined,
   });
 }
 
@@ -0,0 +1,127 @@
+/**
+ * Batched contract reads through Multicall3 (aggregate3), falling back to one eth_call per read
+ * when the chain has no Multicall3 at the configured address.
+ */
+
+import {
+  BaseError,
+  ContractFunctionZeroDataError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  parseAbi,
+  type Abi,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+
+/** Canonical Multicall3 deployment, at the same address on most EVM chains. */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** Reads per aggregate3 call; keeps calldata and response sizes within common RPC limits. */
+const MULTICALL_CHUNK_SIZE = 100;
+
+// aggregate3 is payable on-chain; declared view since it is only ever eth_call'ed here.
+const MULTICALL3_ABI = parseAbi([
+  "struct Call3 { address target; bool allowFailure; bytes callData; }",
+  "struct Result { bool success; bytes returnData; }",
+  "function aggregate3(Call3[] calls) view returns (Result[] returnData)",
+]);
+
+export type ContractRead = {
+  address: string;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+};
+
+export type ContractReadResult =
+  | { status: "success"; result: unknown }
+  | { status: "failure"; error: string };
+
+// Clients whose Multicall3 address has no code; they go straight to per-call reads.
+const withoutMulticall = new WeakSet<PublicClient>();
+
+function errorMessage(err: unknown): string {
+  if (err instanceof BaseError) return err.shortMessage;
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function readOne(client: PublicClient, read: ContractRead): Promise<ContractReadResult> {
+  try {
+    const result = await client.readContract({
+      address: read.address as Address,
+      abi: read.abi,
+      functionName: read.functionName,
+      args: read.args,
+    });
+    return { status: "success", result };
+  } catch (err) {
+    return { status: "failure", error: errorMessage(err) };
+  }
+}
+
+async function readChunk(
+  client: PublicClient,
+  multicall: Address,
+  reads: ContractRead[],
+): Promise<ContractReadResult[]> {
+  const results = await client.readContract({
+    address: multicall,
+    abi: MULTICALL3_ABI,
+    functionName: "aggregate3",
+    args: [
+      reads.map((read) => ({
+        target: read.address as Address,
+        allowFailure: true,
+        callData: encodeFunctionData({ abi: read.abi, functionName: read.functionName, args: read.args }),
+      })),
+    ],
+  });
+  return results.map((r, i): ContractReadResult => {
+    if (!r.success) return { status: "failure", error: "Call reverted" };
+    try {
+      const read = reads[i];
+      const result = decodeFunctionResult({
+        abi: read.abi,
+        functionName: read.functionName,
+        data: r.returnData as Hex,
+      });
+      return { status: "success", result };
+    } catch (err) {
+      // No code at the target, or return data of another shape.
+      return { status: "failure", error: errorMessage(err) };
+    }
+  });
+}
+
+/**
+ * Results in the order of `reads`; a failing read never fails the others. Uses the client's
+ * chain Multicall3 address (see createRpcClient) and reads one by one when there is none.
+ */
+export async function readContracts(
+  client: PublicClient,
+  reads: ContractRead[],
+): Promise<ContractReadResult[]> {
+  const multicall = client.chain?.contracts?.multicall3?.address;
+  if (reads.length <= 1 || !multicall || withoutMulticall.has(client)) {
+    return Promise.all(reads.map((read) => readOne(client, read)));
+  }
+  const chunks: ContractRead[][] = [];
+  for (let i = 0; i < reads.length; i += MULTICALL_CHUNK_SIZE) {
+    chunks.push(reads.slice(i, i + MULTICALL_CHUNK_SIZE));
+  }
+  const results = await Promise.all(
+    chunks.map(async (chunk) => {
+      try {
+        return await readChunk(client, multicall, chunk);
+      } catch (err) {
+        if (err instanceof BaseError && err.walk((e) => e instanceof ContractFunctionZeroDataError)) {
+          withoutMulticall.add(client);
+        }
+        return Promise.all(chunk.map((read) => readOne(client, read)));
+      }
+    }),
+  );
+  return results.flat();
+}
@@ -0,0 +1,18 @@
+/**
+ * Minimal in-process mutex: async sections run one at a time, in call order.
+ */
+
+export type Mutex = {
+  run<T>(fn: () => Promise<T>): Promise<T>;
+};
+
+export function createMutex(): Mutex {
+  let tail: Promise<unknown> = Promise.resolve();
+  return {
+    run(fn) {
+      const result = tail.then(fn, fn);
+      tail = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
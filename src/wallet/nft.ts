@@ -0,0 +1,231 @@
+/**
+ * ERC721 / ERC1155 ABI slices, safeTransferFrom / setApprovalForAll encoding and decoding, and
+ * holdings reads for configured collections.
+ */
+
+import { decodeFunctionData, encodeFunctionData, parseAbi, type Hex, type PublicClient } from "viem";
+
+import { readContracts, type ContractRead } from "./multicall.js";
+
+export type NftStandard = "erc721" | "erc1155";
+
+/** A collection whose holdings wallet_nfts reports. */
+export type NftCollectionConfig = {
+  chainId: number;
+  address: string;
+  standard: NftStandard;
+  name?: string;
+  /**
+   * Token ids to check. Required for ERC1155; for ERC721 owned ids are otherwise listed with
+   * tokenOfOwnerByIndex, which only enumerable collections support.
+   */
+  tokenIds?: string[];
+};
+
+export type NftHolding = {
+  chainId: number;
+  address: string;
+  standard: NftStandard;
+  name?: string;
+  /** ERC721 balanceOf: number of tokens held in the collection. */
+  balance?: string;
+  /** Owned token ids, with the amount held (always "1" for ERC721). */
+  tokens: Array<{ tokenId: string; amount: string }>;
+  /** Why the balance or the owned ids could not be read. */
+  error?: string;
+};
+
+export type NftCall =
+  | { functionName: "safeTransferFrom"; standard: "erc721"; from: string; to: string; tokenId: bigint }
+  | {
+      functionName: "safeTransferFrom";
+      standard: "erc1155";
+      from: string;
+      to: string;
+      tokenId: bigint;
+      amount: bigint;
+    }
+  | { functionName: "setApprovalForAll"; operator: string; approved: boolean };
+
+/** Owned ids listed per ERC721 collection when tokenIds are not configured. */
+const MAX_ENUMERATED_TOKENS = 50;
+
+const ERC721_ABI = parseAbi([
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+  "function name() view returns (string)",
+]);
+
+const ERC1155_ABI = parseAbi([
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+]);
+
+// The three calls have distinct selectors, so one ABI decodes all of them.
+const NFT_CALL_ABI = parseAbi([
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "function setApprovalForAll(address operator, bool approved)",
+]);
+
+export function encodeErc721SafeTransfer(from: string, to: string, tokenId: bigint): `0x${string}` {
+  return encodeFunctionData({
+    abi: ERC721_ABI,
+    functionName: "safeTransferFrom",
+    args: [from as `0x${string}`, to as `0x${string}`, tokenId],
+  });
+}
+
+export function encodeErc1155SafeTransfer(
+  from: string,
+  to: string,
+  tokenId: bigint,
+  amount: bigint,
+): `0x${string}` {
+  return encodeFunctionData({
+    abi: ERC1155_ABI,
+    functionName: "safeTransferFrom",
+    args: [from as `0x${string}`, to as `0x${string}`, tokenId, amount, "0x"],
+  });
+}
+
+/** setApprovalForAll is the same function on ERC721 and ERC1155. */
+export function encodeSetApprovalForAll(operator: string, approved: boolean): `0x${string}` {
+  return encodeFunctionData({
+    abi: ERC721_ABI,
+    functionName: "setApprovalForAll",
+    args: [operator as `0x${string}`, approved],
+  });
+}
+
+/**
+ * Decode calldata as an ERC721 / ERC1155 safeTransferFrom or setApprovalForAll. Returns null
+ * for anything else (including transferFrom / approve, which share ERC20 selectors).
+ */
+export function decodeNftCall(data: string | undefined): NftCall | null {
+  if (!data || !data.startsWith("0x") || data.length < 10) return null;
+  try {
+    const decoded = decodeFunctionData({ abi: NFT_CALL_ABI, data: data as Hex });
+    if (decoded.functionName === "setApprovalForAll") {
+      return { functionName: "setApprovalForAll", operator: decoded.args[0], approved: decoded.args[1] };
+    }
+    const args = decoded.args;
+    if (args.length === 5) {
+      return {
+        functionName: "safeTransferFrom",
+        standard: "erc1155",
+        from: args[0],
+        to: args[1],
+        tokenId: args[2],
+        amount: args[3],
+      };
+    }
+    return { functionName: "safeTransferFrom", standard: "erc721", from: args[0], to: args[1], tokenId: args[2] };
+  } catch {
+    return null;
+  }
+}
+
+/** Indexes into the batched reads for one collection. */
+type HoldingsPlan = { collection: NftCollectionConfig; tokenIds: bigint[]; name?: number } & (
+  | { standard: "erc1155"; balances: number[] }
+  | { standard: "erc721"; balance: number; owners: number[] }
+);
+
+function same(a: unknown, b: string): boolean {
+  return typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Holdings of `owner` in collections on one chain. Balances, names and configured token ids are
+ * read in one batch; ERC721 collections without tokenIds are then enumerated in a second one.
+ * A collection that cannot be read gets an `error` instead of failing the others.
+ */
+export async function readNftHoldings(
+  client: PublicClient,
+  owner: string,
+  collections: NftCollectionConfig[],
+): Promise<NftHolding[]> {
+  const reads: ContractRead[] = [];
+  const plans = collections.map((collection): HoldingsPlan => {
+    const tokenIds = (collection.tokenIds ?? []).map((id) => BigInt(id));
+    const push = (read: Omit<ContractRead, "address">) => reads.push({ address: collection.address, ...read }) - 1;
+    const name = collection.name ? undefined : push({ abi: ERC721_ABI, functionName: "name" });
+    if (collection.standard === "erc1155") {
+      const balances = tokenIds.map((id) =>
+        push({ abi: ERC1155_ABI, functionName: "balanceOf", args: [owner, id] }),
+      );
+      return { collection, tokenIds, name, standard: "erc1155", balances };
+    }
+    const balance = push({ abi: ERC721_ABI, functionName: "balanceOf", args: [owner] });
+    const owners = tokenIds.map((id) => push({ abi: ERC721_ABI, functionName: "ownerOf", args: [id] }));
+    return { collection, tokenIds, name, standard: "erc721", balance, owners };
+  });
+  const results = await readContracts(client, reads);
+  const value = (index: number | undefined) => {
+    const result = index == null ? undefined : results[index];
+    return result?.status === "success" ? result.result : undefined;
+  };
+
+  const holdings = plans.map((plan): NftHolding => {
+    const { collection } = plan;
+    const name = collection.name ?? (value(plan.name) as string | undefined);
+    const base = {
+      chainId: collection.chainId,
+      address: collection.address,
+      standard: collection.standard,
+      ...(name ? { name } : {}),
+    };
+    if (plan.standard === "erc1155") {
+      if (plan.tokenIds.length === 0) {
+        return { ...base, tokens: [], error: "ERC1155 collections need tokenIds to read balances" };
+      }
+      const tokens = plan.tokenIds.flatMap((id, i) => {
+        const amount = value(plan.balances[i]) as bigint | undefined;
+        return amount ? [{ tokenId: id.toString(), amount: amount.toString() }] : [];
+      });
+      const failed = plan.balances.some((index) => results[index].status === "failure");
+      return { ...base, tokens, ...(failed ? { error: "Some balanceOf reads failed" } : {}) };
+    }
+    const balance = value(plan.balance) as bigint | undefined;
+    if (balance == null) return { ...base, tokens: [], error: "balanceOf failed; not an ERC721 collection?" };
+    const tokens = plan.tokenIds.flatMap((id, i) =>
+      same(value(plan.owners[i]), owner) ? [{ tokenId: id.toString(), amount: "1" }] : [],
+    );
+    return { ...base, balance: balance.toString(), tokens };
+  });
+
+  // Enumerable ERC721 collections: list owned ids when none are configured.
+  const enumerate = plans.flatMap((plan, i) => {
+    const balance = BigInt(holdings[i].balance ?? "0");
+    if (plan.standard === "erc1155" || plan.tokenIds.length > 0 || balance === 0n) return [];
+    const count = Number(balance < BigInt(MAX_ENUMERATED_TOKENS) ? balance : BigInt(MAX_ENUMERATED_TOKENS));
+    return [{ holding: holdings[i], address: plan.collection.address, count }];
+  });
+  const indexReads = enumerate.flatMap(({ address, count }) =>
+    Array.from({ length: count }, (_, index) => ({
+      address,
+      abi: ERC721_ABI,
+      functionName: "tokenOfOwnerByIndex",
+      args: [owner, BigInt(index)],
+    })),
+  );
+  const indexResults = indexReads.length > 0 ? await readContracts(client, indexReads) : [];
+  let offset = 0;
+  for (const { holding, count } of enumerate) {
+    const slice = indexResults.slice(offset, offset + count);
+    offset += count;
+    if (slice.every((r) => r.status === "failure")) {
+      holding.error = "Collection is not enumerable; configure tokenIds to list owned tokens";
+      continue;
+    }
+    for (const r of slice) {
+      if (r.status === "success") holding.tokens.push({ tokenId: String(r.result), amount: "1" });
+    }
+  }
+  return holdings;
+}
@@ -0,0 +1,151 @@
+/**
+ * Local nonce allocation per wallet and chain (nonces.json), so txs approved in quick
+ * succession get consecutive nonces instead of all reading the same count from the node.
+ * Nonces handed out but never broadcast are kept as gaps and handed out again first.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { createMutex } from "./mutex.js";
+import type { RpcClient } from "./rpc.js";
+
+const NONCES_FILENAME = "nonces.json";
+/** Upper bound on recorded gaps, e.g. when a caller-chosen nonce skips far ahead. */
+const MAX_GAPS = 100;
+
+export type NonceState = {
+  walletId: string;
+  chainId: number;
+  address: string;
+  /** Nonce after the highest one handed out or broadcast. */
+  next: number;
+  /** Nonces below `next` that no broadcast tx uses; the lowest is handed out first. */
+  gaps: number[];
+  updatedAt: number;
+};
+
+export type NonceKey = { walletId: string; chainId: number; address: string };
+
+export type NonceManager = {
+  dir: string;
+  /**
+   * Sync with the node's `pending` count, then hand out the lowest gap, else `next`. Calls
+   * are served one at a time, in call order.
+   */
+  reserve(key: NonceKey, rpc: RpcClient): Promise<number>;
+  /** A tx with this nonce was broadcast (also records nonces chosen by the caller). */
+  confirm(key: NonceKey, nonce: number): Promise<void>;
+  /** A handed-out nonce was not broadcast, or its tx was dropped: leave it as a gap. */
+  release(key: NonceKey, nonce: number): Promise<void>;
+  /** Stored state synced with the node, plus the node's `latest` and `pending` counts. */
+  sync(
+    key: NonceKey,
+    rpc: RpcClient,
+  ): Promise<NonceState & { latestCount: number; pendingCount: number }>;
+};
+
+function keyOf(key: { walletId: string; chainId: number }): string {
+  return `${key.walletId}:${key.chainId}`;
+}
+
+/** Drop gaps at the end of the range: `next` can simply move back over them. */
+function trimTrailingGaps(state: NonceState): void {
+  const gaps = new Set(state.gaps);
+  while (state.next > 0 && gaps.has(state.next - 1)) {
+    gaps.delete(state.next - 1);
+    state.next -= 1;
+  }
+  state.gaps = [...gaps].sort((a, b) => a - b);
+}
+
+export function createNonceManager(walletsDir: string): NonceManager {
+  const filePath = path.join(walletsDir, NONCES_FILENAME);
+  // One read-modify-write (including the node query) at a time, so concurrent approvals
+  // never see the same `next`.
+  const mutex = createMutex();
+
+  async function load(): Promise<Record<string, NonceState>> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(raw);
+      return data && typeof data === "object" && !Array.isArray(data) ? data : {};
+    } catch {
+      return {};
+    }
+  }
+
+  async function save(items: Record<string, NonceState>): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, JSON.stringify(items, null, 2), { mode: 0o600 });
+  }
+
+  function mutate<T>(
+    key: NonceKey,
+    fn: (state: NonceState) => Promise<T> | T,
+  ): Promise<T> {
+    return mutex.run(async () => {
+      const items = await load();
+      const stored = items[keyOf(key)];
+      // A different address for the same wallet id means the wallet was re-created.
+      const state: NonceState =
+        stored && stored.address.toLowerCase() === key.address.toLowerCase()
+          ? { ...stored, gaps: [...stored.gaps] }
+          : { ...key, next: 0, gaps: [], updatedAt: 0 };
+      state.updatedAt = Date.now();
+      const result = await fn(state);
+      trimTrailingGaps(state);
+      items[keyOf(key)] = state;
+      await save(items);
+      return result;
+    });
+  }
+
+  /** Gaps below the node's pending count were filled by other txs; never hand out less. */
+  async function syncState(state: NonceState, rpc: RpcClient): Promise<number> {
+    const pendingCount = await rpc.getTransactionCount(state.address, "pending");
+    state.gaps = state.gaps.filter((n) => n >= pendingCount);
+    state.next = Math.max(state.next, pendingCount);
+    return pendingCount;
+  }
+
+  return {
+    dir: walletsDir,
+    reserve(key, rpc) {
+      return mutate(key, async (state) => {
+        await syncState(state, rpc);
+        const gap = state.gaps[0];
+        if (gap != null) {
+          state.gaps = state.gaps.slice(1);
+          return gap;
+        }
+        state.next += 1;
+        return state.next - 1;
+      });
+    },
+    confirm(key, nonce) {
+      return mutate(key, (state) => {
+        state.gaps = state.gaps.filter((n) => n !== nonce);
+        for (let n = state.next; n < nonce && state.gaps.length < MAX_GAPS; n++) {
+          state.gaps.push(n);
+        }
+        state.next = Math.max(state.next, nonce + 1);
+      });
+    },
+    release(key, nonce) {
+      return mutate(key, (state) => {
+        if (nonce < state.next && !state.gaps.includes(nonce)) {
+          state.gaps = [...state.gaps, nonce].sort((a, b) => a - b);
+        }
+      });
+    },
+    sync(key, rpc) {
+      return mutate(key, async (state) => {
+        const pendingCount = await syncState(state, rpc);
+        const latestCount = await rpc.getTransactionCount(state.address, "latest");
+        trimTrailingGaps(state);
+        return { ...state, latestCount, pendingCount };
+      });
+    },
+  };
+}
@@ -0,0 +1,317 @@
+/**
+ * Notifications for pending tx lifecycle events, fanned out to pluggable transports with
+ * retry and backoff. Delivery never blocks or fails the wallet operation itself.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { formatAssetDiff } from "./asset-diff.js";
+import { formatDecodedCall } from "./calldata-decoder.js";
+import { formatSimulation } from "./simulation.js";
+import { formatTypedDataPreview } from "./typed-data.js";
+import type { PendingTx } from "./types.js";
+
+export type NotificationEvent =
+  | "pending_created"
+  | "approved"
+  | "sent"
+  | "failed"
+  | "rejected"
+  | "expired"
+  | "confirmed"
+  | "reverted"
+  | "dropped"
+  | "signed";
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  "pending_created",
+  "approved",
+  "sent",
+  "failed",
+  "rejected",
+  "expired",
+  "confirmed",
+  "reverted",
+  "dropped",
+  "signed",
+];
+
+export type WalletNotification = {
+  /**
+   * "approval_code" carries a one-time code in `text`; it only goes to the webhook, outbox and
+   * stdout transports, and only when no other code transport is set.
+   */
+  event: NotificationEvent | "approval_code";
+  /** ISO timestamp of the event. */
+  at: string;
+  pending: PendingTx;
+  /** Human-readable message for chat-style transports. */
+  text: string;
+};
+
+export type Notifier = {
+  /** Transport name used in failure records (e.g. "webhook", "channel:telegram"). */
+  name: string;
+  send(notification: WalletNotification): Promise<void>;
+};
+
+export type NotifyRetryConfig = {
+  /** Total delivery attempts per transport (default 3). */
+  attempts?: number;
+  /** Delay before the first retry; doubles each time (default 1000). */
+  backoffMs?: number;
+};
+
+export type NotificationFailure = {
+  notifier: string;
+  notification: WalletNotification;
+  attempts: number;
+  error: string;
+};
+
+export type NotificationDispatcher = {
+  /** Deliver to every transport; resolves once all deliveries succeeded or gave up. */
+  dispatch(notification: WalletNotification): Promise<void>;
+};
+
+/** Transports and routing read from `wallets.notify`. */
+export type NotifyConfig = {
+  /**
+   * Chat channel for plugin notifications: "telegram" (the requesting peer) or
+   * "telegram:<chatId>" (a fixed chat).
+   */
+  primaryChannel?: string;
+  webhook?: WebhookNotifierConfig;
+  /** JSONL outbox file; `true` uses notifications.jsonl in the wallets dir. */
+  outbox?: boolean | string;
+  stdout?: boolean;
+  /** Events to deliver (default: all). */
+  events?: NotificationEvent[];
+  retry?: NotifyRetryConfig;
+};
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+
+export function createNotificationDispatcher(params: {
+  notifiers: Notifier[];
+  retry?: NotifyRetryConfig;
+  /** Events to deliver (default: all). */
+  events?: NotificationEvent[];
+  onFailure?: (failure: NotificationFailure) => Promise<void> | void;
+}): NotificationDispatcher {
+  const attempts = Math.max(1, params.retry?.attempts ?? DEFAULT_ATTEMPTS);
+  const backoffMs = Math.max(0, params.retry?.backoffMs ?? DEFAULT_BACKOFF_MS);
+  const events = params.events?.length ? new Set<string>(params.events) : null;
+
+  async function deliver(notifier: Notifier, notification: WalletNotification): Promise<void> {
+    let lastError = "";
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      try {
+        await notifier.send(notification);
+        return;
+      } catch (err) {
+        lastError = err instanceof Error ? err.message : String(err);
+        if (attempt < attempts) {
+          await new Promise((resolve) => setTimeout(resolve, backoffMs * 2 ** (attempt - 1)));
+        }
+      }
+    }
+    try {
+      await params.onFailure?.({ notifier: notifier.name, notification, attempts, error: lastError });
+    } catch {
+      // Recording the failure is best effort.
+    }
+  }
+
+  return {
+    async dispatch(notification) {
+      if (events && !events.has(notification.event)) return;
+      await Promise.all(params.notifiers.map((n) => deliver(n, notification)));
+    },
+  };
+}
+
+/** Approval request for an EIP-712 signature: the decoded typed data instead of tx fields. */
+function formatSignatureRequestNotification(pending: PendingTx): string {
+  return [
+    "Wallet signature approval required.",
+    `Request ID: ${pending.txId}`,
+    `Signer: ${pending.from}`,
+    `Chain ID: ${pending.chainId}`,
+    ...(pending.typedDataPreview ? formatTypedDataPreview(pending.typedDataPreview) : []),
+    ...(pending.requiredApprovals != null
+      ? [`Approvals: ${pending.approvals?.length ?? 0}/${pending.requiredApprovals}`]
+      : []),
+    ...(pending.warnings ?? []).map((w) => `WARNING: ${w.message}`),
+    "",
+    `Reply "approve ${pending.txId}" or "reject ${pending.txId}".`,
+  ].join("\n");
+}
+
+export function formatPendingTxNotification(pending: PendingTx): string {
+  if (pending.typedData) return formatSignatureRequestNotification(pending);
+  const names = [pending.recipientLabel, pending.recipientName].filter(Boolean).join(", ");
+  const recipientIsTo = !pending.recipient || pending.recipient === pending.to;
+  return [
+    "Wallet send approval required.",
+    `Tx ID: ${pending.txId}`,
+    `From: ${pending.from}`,
+    `To: ${pending.to}${names && recipientIsTo ? ` (${names})` : ""}`,
+    ...(!recipientIsTo ? [`Recipient: ${pending.recipient}${names ? ` (${names})` : ""}`] : []),
+    `Value (wei): ${pending.valueWei}`,
+    `Chain ID: ${pending.chainId}`,
+    ...(pending.decodedCall
+      ? formatDecodedCall(pending.decodedCall).map((line, i) => (i === 0 ? `Call: ${line}` : line))
+      : []),
+    ...(pending.replaces
+      ? [
+          `Replaces: ${pending.replaces} (${pending.replacement === "cancel" ? "cancel" : "speed-up"})`,
+        ]
+      : []),
+    ...(pending.requiredApprovals != null
+      ? [`Approvals: ${pending.approvals?.length ?? 0}/${pending.requiredApprovals}`]
+      : []),
+    ...(pending.warnings ?? []).map((w) => `WARNING: ${w.message}`),
+    // Reverts are already listed as warnings.
+    ...(pending.simulation && pending.simulation.status !== "reverted"
+      ? [formatSimulation(pending.simulation)]
+      : []),
+    ...formatAssetDiff(pending.simulation?.assetDiff),
+    "",
+    `Reply "approve ${pending.txId}" or "reject ${pending.txId}".`,
+  ].join("\n");
+}
+
+/** One-line summary for lifecycle events after creation; the full approval request otherwise. */
+export function formatWalletNotification(event: NotificationEvent, pending: PendingTx): string {
+  const ref = `Wallet ${pending.typedData ? "signature request" : "tx"} ${pending.txId} (chain ${pending.chainId})`;
+  switch (event) {
+    case "pending_created":
+      return formatPendingTxNotification(pending);
+    case "approved":
+      return `${ref} approved; ${pending.typedData ? "signing" : "broadcasting"}.`;
+    case "sent":
+      return `${ref} sent: ${pending.txHash ?? "unknown hash"}`;
+    case "failed":
+      return `${ref} failed: ${pending.error ?? "unknown error"}`;
+    case "rejected":
+      return `${ref} rejected${pending.error ? `: ${pending.error}` : ""}.`;
+    case "expired":
+      return `${ref} expired without approval.`;
+    case "confirmed":
+      return `${ref} confirmed in block ${pending.receipt?.blockNumber ?? "?"}.`;
+    case "reverted":
+      return `${ref} reverted in block ${pending.receipt?.blockNumber ?? "?"}.`;
+    case "dropped":
+      return `${ref} dropped: ${pending.error ?? "not mined"}`;
+    case "signed":
+      return `${ref} signed.`;
+  }
+}
+
+/** Receivers should reject webhook deliveries whose timestamp is further off than this. */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Lowercase hex HMAC-SHA256 of `<timestamp>.<body>`, sent as `X-Openclast-Signature: sha256=<hex>`
+ * next to `X-Openclast-Timestamp: <timestamp>` (unix seconds). Signing the timestamp lets
+ * receivers drop replayed deliveries.
+ */
+export function signWebhookBody(secret: string, body: string, timestamp: number): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Receiver-side check of a webhook delivery: the signature must match and the timestamp must
+ * be within `toleranceSeconds` of now.
+ */
+export function verifyWebhookSignature(params: {
+  secret: string;
+  body: string;
+  /** X-Openclast-Timestamp header. */
+  timestamp: string;
+  /** X-Openclast-Signature header. */
+  signature: string;
+  toleranceSeconds?: number;
+  now?: number;
+}): boolean {
+  const timestamp = Number(params.timestamp);
+  if (!Number.isInteger(timestamp)) return false;
+  const now = Math.floor((params.now ?? Date.now()) / 1000);
+  if (Math.abs(now - timestamp) > (params.toleranceSeconds ?? WEBHOOK_TOLERANCE_SECONDS)) return false;
+  const expected = Buffer.from(`sha256=${signWebhookBody(params.secret, params.body, timestamp)}`);
+  const given = Buffer.from(params.signature.trim());
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export type WebhookNotifierConfig = {
+  url: string;
+  /** Shared secret for the HMAC signature header. */
+  secret?: string;
+  headers?: Record<string, string>;
+  /** Per-request timeout (default 10000). */
+  timeoutMs?: number;
+};
+
+/** POST the notification as JSON; non-2xx responses count as failures. */
+export function createWebhookNotifier(config: WebhookNotifierConfig): Notifier {
+  return {
+    name: "webhook",
+    async send(notification) {
+      const body = JSON.stringify(notification);
+      const headers: Record<string, string> = {
+        "content-type": "application/json",
+        ...config.headers,
+      };
+      if (config.secret) {
+        const timestamp = Math.floor(Date.now() / 1000);
+        headers["x-openclast-timestamp"] = String(timestamp);
+        headers["x-openclast-signature"] = `sha256=${signWebhookBody(config.secret, body, timestamp)}`;
+      }
+      const res = await fetch(config.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(config.timeoutMs ?? 10_000),
+      });
+      if (!res.ok) throw new Error(`Webhook responded ${res.status}`);
+    },
+  };
+}
+
+/** Append one JSON line per notification to a local outbox file. */
+export function createOutboxNotifier(filePath: string): Notifier {
+  return {
+    name: "outbox",
+    async send(notification) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+      await fs.appendFile(filePath, JSON.stringify(notification) + "\n", { mode: 0o600 });
+    },
+  };
+}
+
+/** Webhook, outbox and stdout transports configured in `wallets.notify`. */
+export function createConfiguredNotifiers(notify: NotifyConfig | undefined, walletsDir: string): Notifier[] {
+  const notifiers: Notifier[] = [];
+  if (notify?.webhook?.url) notifiers.push(createWebhookNotifier(notify.webhook));
+  if (notify?.outbox) {
+    notifiers.push(
+      createOutboxNotifier(typeof notify.outbox === "string" ? notify.outbox : `${walletsDir}/notifications.jsonl`),
+    );
+  }
+  if (notify?.stdout) notifiers.push(createStdoutNotifier());
+  return notifiers;
+}
+
+/** Print the notification text to stdout. */
+export function createStdoutNotifier(): Notifier {
+  return {
+    name: "stdout",
+    async send(notification) {
+      process.stdout.write(`[wallet] ${notification.text}\n`);
+    },
+  };
+}
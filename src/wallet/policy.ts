@@ -0,0 +1,521 @@
+/**
+ * Declarative spending policy: an ordered list of rules evaluated against a normalized request.
+ * Built-in rules are derived from the legacy limit fields; custom rules come from config.
+ */
+
+import { parseUnits } from "viem";
+
+import { USD_DECIMALS } from "./price-source.js";
+import type { SpendFilter } from "./daily-spend-store.js";
+import type { TokenLimit, TxWarning, WalletsLimits } from "./types.js";
+
+export type PolicyAction =
+  | "native_send"
+  | "erc20_transfer"
+  | "erc20_approve"
+  | "erc721_transfer"
+  | "erc1155_transfer"
+  /** setApprovalForAll on an ERC721 / ERC1155 collection. */
+  | "nft_approve_all"
+  | "contract_call"
+  /** 0-value self-transfer replacing a sent tx. */
+  | "tx_cancel"
+  /** EIP-712 signature; checked once per token allowance the typed data grants. */
+  | "sign_typed_data";
+
+export type PolicyDecision = "allow" | "deny" | "require_approval";
+
+/** A wallet request reduced to the fields policy rules can match on. */
+export type PolicyRequest = {
+  action: PolicyAction;
+  walletId: string;
+  chainId: number;
+  /** Address the tx is sent to (token or collection contract for token actions). */
+  to: string;
+  /** Counterparty: send/transfer recipient, approve spender or operator, or the called contract. */
+  recipient: string;
+  token?: string;
+  valueWei: bigint;
+  /** Token amount in base units when the request is (or decodes as) an ERC20 transfer/approve. */
+  tokenAmount?: bigint;
+  tokenOperation?: "transfer" | "transferFrom" | "approve";
+  /** Approved spender when tokenOperation is "approve" (also decoded from contract calls). */
+  spender?: string;
+  /** ERC721 / ERC1155 safeTransferFrom or setApprovalForAll (also decoded from contract calls). */
+  nftOperation?: "transfer" | "setApprovalForAll";
+  tokenId?: bigint;
+  /** setApprovalForAll flag; the operator is in `spender`. */
+  nftApproved?: boolean;
+  /** USD value (8 decimals) at request time; only set when USD limits are configured. */
+  valueUsd?: bigint;
+  /** Why the request could not be valued in USD (missing/stale price). */
+  usdError?: string;
+  /** Revert reason when the pre-flight simulation reverted. */
+  simulationError?: string;
+  /** 4-byte function selector (0x-prefixed, lowercase) when calldata is present. */
+  selector?: string;
+  /** Minutes since UTC midnight at request time. */
+  minuteOfDayUtc: number;
+};
+
+export type PolicyResult = {
+  decision: PolicyDecision;
+  reason: string;
+};
+
+export type PolicyContext = {
+  /**
+   * Amount of `asset` ("native", token address, or "usd") the wallet already spent in the
+   * current daily window plus what pending txs have reserved, on one chain or across all
+   * chains when chainId is omitted.
+   */
+  getSpent(filter: SpendFilter): Promise<bigint>;
+};
+
+export type PolicyRule = {
+  id: string;
+  /** Return null when the rule does not apply to the request. */
+  evaluate(request: PolicyRequest, ctx: PolicyContext): Promise<PolicyResult | null>;
+};
+
+export type PolicyRuleConfig = {
+  id?: string;
+  effect: PolicyDecision;
+  reason?: string;
+  /** All present conditions must match for the rule to apply. */
+  match?: {
+    actions?: PolicyAction[];
+    chains?: number[];
+    recipients?: string[];
+    tokens?: string[];
+    selectors?: string[];
+    minValueWei?: string;
+    maxValueWei?: string;
+    /** "HH:MM" window in UTC; `from` later than `to` wraps past midnight. */
+    timeOfDayUtc?: { from: string; to: string };
+  };
+};
+
+export type PolicyTraceEntry = {
+  rule: string;
+  decision: PolicyDecision | "pass";
+  reason?: string;
+};
+
+export type PolicyEvaluation = {
+  decision: PolicyDecision;
+  reason?: string;
+  trace: PolicyTraceEntry[];
+};
+
+function normalizeList(values: string[] | undefined): string[] {
+  return (values ?? []).map((v) => v.trim().toLowerCase()).filter(Boolean);
+}
+
+function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid time of day "${value}" (expected HH:MM)`);
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    throw new Error(`Invalid time of day "${value}" (hours 0-23, minutes 0-59)`);
+  }
+  return hours * 60 + minutes;
+}
+
+function hasLimit(value: string | undefined): value is string {
+  return value != null && value.trim() !== "";
+}
+
+/**
+ * Rules derived from allowedChains, allowedRecipients, limitPerTx/dailyLimit and chainLimits.
+ * They only ever deny (or require approval), so custom allow rules cannot bypass them.
+ */
+function buildLimitRules(limits: WalletsLimits | undefined): PolicyRule[] {
+  const rules: PolicyRule[] = [];
+  if (limits?.allowedChains != null && limits.allowedChains.length > 0) {
+    const allowed = limits.allowedChains;
+    rules.push({
+      id: "allowedChains",
+      async evaluate(req) {
+        if (allowed.includes(req.chainId)) return null;
+        return { decision: "deny", reason: "Chain " + req.chainId + " not allowed (allowedChains)" };
+      },
+    });
+  }
+  const allowedRecipients = normalizeList(limits?.allowedRecipients);
+  if (allowedRecipients.length > 0) {
+    rules.push({
+      id: "allowedRecipients",
+      async evaluate(req) {
+        if (allowedRecipients.includes(req.recipient.toLowerCase())) return null;
+        // A cancel only sends 0 to the wallet itself.
+        if (req.action === "tx_cancel") return null;
+        // Spenders were never subject to the recipient allowlist; ask a human instead of failing.
+        if (req.action === "erc20_approve") {
+          return { decision: "require_approval", reason: "Spender not in allowedRecipients" };
+        }
+        if (req.action === "nft_approve_all") {
+          return { decision: "require_approval", reason: "Operator not in allowedRecipients" };
+        }
+        if (req.action === "sign_typed_data") {
+          return { decision: "require_approval", reason: "Signature spender not in allowedRecipients" };
+        }
+        return { decision: "deny", reason: "Recipient not in allowedRecipients" };
+      },
+    });
+  }
+  const hasWeiLimits =
+    hasLimit(limits?.limitPerTx) ||
+    hasLimit(limits?.dailyLimit) ||
+    Object.keys(limits?.chainLimits ?? {}).length > 0;
+  if (hasWeiLimits) {
+    rules.push({
+      id: "limitPerTx",
+      async evaluate(req) {
+        const { limitPerTx } = resolveWeiLimits(limits, req.chainId);
+        if (limitPerTx == null || req.valueWei <= BigInt(limitPerTx)) return null;
+        return { decision: "deny", reason: "Value exceeds limitPerTx (" + limitPerTx + ")" };
+      },
+    });
+    rules.push({
+      id: "dailyLimit",
+      async evaluate(req, ctx) {
+        const { dailyLimit } = resolveWeiLimits(limits, req.chainId);
+        if (dailyLimit == null || req.valueWei === 0n) return null;
+        const spent = await ctx.getSpent({
+          walletId: req.walletId,
+          chainId: req.chainId,
+          asset: "native",
+        });
+        if (spent + req.valueWei <= BigInt(dailyLimit)) return null;
+        return {
+          decision: "deny",
+          reason: "Would exceed dailyLimit (" + dailyLimit + ") on chain " + req.chainId,
+        };
+      },
+    });
+  }
+  return rules;
+}
+
+/**
+ * Native (wei) limits for a chain: `chainLimits[chainId]` fields override the global
+ * limitPerTx / dailyLimit, since wei amounts are not comparable across chains.
+ */
+export function resolveWeiLimits(
+  limits: WalletsLimits | undefined,
+  chainId: number,
+): { limitPerTx?: string; dailyLimit?: string } {
+  const perChain = limits?.chainLimits?.[String(chainId)];
+  const limitPerTx = hasLimit(perChain?.limitPerTx) ? perChain.limitPerTx : limits?.limitPerTx;
+  const dailyLimit = hasLimit(perChain?.dailyLimit) ? perChain.dailyLimit : limits?.dailyLimit;
+  return {
+    ...(hasLimit(limitPerTx) ? { limitPerTx: limitPerTx.trim() } : {}),
+    ...(hasLimit(dailyLimit) ? { dailyLimit: dailyLimit.trim() } : {}),
+  };
+}
+
+/** Find the configured token limit for a chain + token address, if any. */
+export function findTokenLimit(
+  tokenLimits: TokenLimit[] | undefined,
+  chainId: number,
+  token: string,
+): TokenLimit | undefined {
+  const normalized = token.trim().toLowerCase();
+  return tokenLimits?.find(
+    (l) => l.chainId === chainId && l.token.trim().toLowerCase() === normalized,
+  );
+}
+
+/**
+ * Per-token caps. Approvals count against both caps (an allowance can be spent in full)
+ * but only executed transfers and signed permits are added to the daily tally.
+ */
+function buildTokenLimitRule(tokenLimits: TokenLimit[] | undefined): PolicyRule | null {
+  if (!tokenLimits || tokenLimits.length === 0) return null;
+  const parsed = tokenLimits.map((l) => ({
+    limit: l,
+    perTx: hasLimit(l.limitPerTx) ? parseUnits(l.limitPerTx.trim(), l.decimals) : undefined,
+    daily: hasLimit(l.dailyLimit) ? parseUnits(l.dailyLimit.trim(), l.decimals) : undefined,
+  }));
+  return {
+    id: "tokenLimits",
+    async evaluate(req, ctx) {
+      if (!req.token || req.tokenAmount == null) return null;
+      const entry = findTokenLimit(tokenLimits, req.chainId, req.token);
+      const caps = parsed.find((p) => p.limit === entry);
+      if (!caps) return null;
+      if (caps.perTx != null && req.tokenAmount > caps.perTx) {
+        return {
+          decision: "deny",
+          reason: `Token amount exceeds limitPerTx (${caps.limit.limitPerTx}) for ${req.token}`,
+        };
+      }
+      if (caps.daily != null) {
+        const spent = await ctx.getSpent({
+          walletId: req.walletId,
+          chainId: req.chainId,
+          asset: req.token,
+        });
+        if (spent + req.tokenAmount > caps.daily) {
+          return {
+            decision: "deny",
+            reason: `Would exceed token dailyLimit (${caps.limit.dailyLimit}) for ${req.token} on chain ${req.chainId}`,
+          };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+const MAX_UINT256 = 2n ** 256n - 1n;
+/** Allowances at or above this are treated as unlimited (covers uint96-max tokens like UNI). */
+export const NEAR_MAX_ALLOWANCE = 2n ** 96n - 1n;
+
+export function isUnlimitedAllowance(amount: bigint): boolean {
+  return amount >= NEAR_MAX_ALLOWANCE;
+}
+
+/** Warnings stored on the pending tx regardless of the policy decision. */
+export function requestWarnings(req: PolicyRequest): TxWarning[] {
+  const warnings: TxWarning[] = [];
+  if (req.tokenOperation === "approve" && req.tokenAmount != null) {
+    const target = `${req.token ?? "token"} to spender ${req.spender ?? "unknown"}`;
+    if (req.tokenAmount === MAX_UINT256) {
+      warnings.push({ code: "unlimited_approval", message: `Unlimited approval of ${target}` });
+    } else if (isUnlimitedAllowance(req.tokenAmount)) {
+      warnings.push({ code: "near_max_approval", message: `Near-unlimited approval of ${target}` });
+    }
+  }
+  if (req.nftOperation === "setApprovalForAll" && req.nftApproved) {
+    warnings.push({
+      code: "approval_for_all",
+      message: `Approval of all NFTs of ${req.token ?? "collection"} to operator ${req.spender ?? "unknown"}`,
+    });
+  }
+  if (req.action === "sign_typed_data" && (req.tokenOperation === "approve" || req.nftOperation)) {
+    warnings.push({
+      code: "signature_approval",
+      message: `Signature lets ${req.spender ?? "unknown"} take ${req.token ?? "tokens"} from the wallet`,
+    });
+  }
+  if (req.simulationError != null) {
+    warnings.push({
+      code: "simulation_reverted",
+      message: `Simulation reverted: ${req.simulationError}`,
+    });
+  }
+  return warnings;
+}
+
+/** A request whose simulation reverted is denied with blockOnRevert, otherwise needs a human. */
+function buildSimulationRule(limits: WalletsLimits | undefined): PolicyRule {
+  const block = limits?.simulation?.blockOnRevert === true;
+  return {
+    id: "simulation",
+    async evaluate(req) {
+      if (req.simulationError == null) return null;
+      const reason = `Simulation reverted: ${req.simulationError}`;
+      return block ? { decision: "deny", reason } : { decision: "require_approval", reason };
+    },
+  };
+}
+
+/**
+ * Approval guardrails: spender allowlist, per-token maxAllowance and unlimited approvals.
+ * Unlimited approvals, and setApprovalForAll(true) which hands over a whole NFT collection,
+ * always need a human unless requireExactAmount denies them outright. Revocations (amount 0,
+ * setApprovalForAll(false)) are never blocked.
+ */
+function buildApprovalRule(limits: WalletsLimits | undefined): PolicyRule {
+  const allowedSpenders = normalizeList(limits?.approvals?.allowedSpenders);
+  const requireExactAmount = limits?.approvals?.requireExactAmount === true;
+  const caps = (limits?.tokenLimits ?? []).flatMap((l) =>
+    hasLimit(l.maxAllowance) ? [{ limit: l, max: parseUnits(l.maxAllowance.trim(), l.decimals) }] : [],
+  );
+  return {
+    id: "approvals",
+    async evaluate(req) {
+      if (req.nftOperation === "setApprovalForAll") {
+        if (!req.nftApproved) return null;
+        if (allowedSpenders.length > 0 && !allowedSpenders.includes(req.spender?.toLowerCase() ?? "")) {
+          return { decision: "deny", reason: "Operator not in approvals.allowedSpenders" };
+        }
+        if (requireExactAmount) {
+          return { decision: "deny", reason: "Approvals for all NFTs are disabled (approvals.requireExactAmount)" };
+        }
+        return { decision: "require_approval", reason: "Approval for all NFTs of a collection" };
+      }
+      if (req.tokenOperation !== "approve" || req.tokenAmount == null || req.tokenAmount === 0n) {
+        return null;
+      }
+      if (allowedSpenders.length > 0 && !allowedSpenders.includes(req.spender?.toLowerCase() ?? "")) {
+        return { decision: "deny", reason: "Spender not in approvals.allowedSpenders" };
+      }
+      const entry = req.token ? findTokenLimit(limits?.tokenLimits, req.chainId, req.token) : undefined;
+      const cap = caps.find((c) => c.limit === entry);
+      if (cap && req.tokenAmount > cap.max) {
+        return {
+          decision: "deny",
+          reason: `Allowance exceeds maxAllowance (${cap.limit.maxAllowance}) for ${req.token}`,
+        };
+      }
+      if (isUnlimitedAllowance(req.tokenAmount)) {
+        if (requireExactAmount) {
+          return { decision: "deny", reason: "Unlimited approvals are disabled (approvals.requireExactAmount)" };
+        }
+        return { decision: "require_approval", reason: "Unlimited or near-max approval" };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * USD caps. A request that could not be priced is denied (fail closed) whenever either cap is set.
+ */
+function buildUsdLimitRule(limits: WalletsLimits | undefined): PolicyRule | null {
+  const perTx = hasLimit(limits?.limitPerTxUsd) ? limits.limitPerTxUsd.trim() : undefined;
+  const daily = hasLimit(limits?.dailyLimitUsd) ? limits.dailyLimitUsd.trim() : undefined;
+  if (perTx == null && daily == null) return null;
+  const perTxLimit = perTx != null ? parseUnits(perTx, USD_DECIMALS) : undefined;
+  const dailyLimit = daily != null ? parseUnits(daily, USD_DECIMALS) : undefined;
+  return {
+    id: "usdLimits",
+    async evaluate(req, ctx) {
+      if (req.usdError) return { decision: "deny", reason: "USD price unavailable: " + req.usdError };
+      const valueUsd = req.valueUsd ?? 0n;
+      if (valueUsd === 0n) return null;
+      if (perTxLimit != null && valueUsd > perTxLimit) {
+        return { decision: "deny", reason: "Value exceeds limitPerTxUsd ($" + perTx + ")" };
+      }
+      if (dailyLimit != null) {
+        const spent = await ctx.getSpent({ walletId: req.walletId, asset: "usd" });
+        if (spent + valueUsd > dailyLimit) {
+          return { decision: "deny", reason: "Would exceed dailyLimitUsd ($" + daily + ")" };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Whether "auto" mode may sign an allowed request without a human. Only native sends, cancels,
+ * revocations, and token transfers/approvals whose decoded amount was checked against a
+ * tokenLimits entry or a USD cap qualify; NFTs, undecoded calldata and signatures do not.
+ */
+export function isAutoApprovable(limits: WalletsLimits | undefined, req: PolicyRequest): boolean {
+  if (req.action === "native_send" || req.action === "tx_cancel") return true;
+  if (req.action === "sign_typed_data" || req.nftOperation || !req.token || req.tokenAmount == null) {
+    return false;
+  }
+  if (req.tokenOperation === "approve" && req.tokenAmount === 0n) return true;
+  const entry = findTokenLimit(limits?.tokenLimits, req.chainId, req.token);
+  if (hasLimit(entry?.limitPerTx) || hasLimit(entry?.dailyLimit)) return true;
+  if (req.tokenOperation === "approve" && hasLimit(entry?.maxAllowance)) return true;
+  const usdCapped = hasLimit(limits?.limitPerTxUsd) || hasLimit(limits?.dailyLimitUsd);
+  return usdCapped && req.valueUsd != null;
+}
+
+/** Compile a declarative rule from config into an evaluable rule. */
+export function compilePolicyRule(config: PolicyRuleConfig, index: number): PolicyRule {
+  const id = config.id?.trim() || `rule[${index}]`;
+  if (config.effect !== "allow" && config.effect !== "deny" && config.effect !== "require_approval") {
+    throw new Error(`Policy rule ${id}: invalid effect "${String(config.effect)}"`);
+  }
+  const match = config.match ?? {};
+  const recipients = normalizeList(match.recipients);
+  const tokens = normalizeList(match.tokens);
+  const selectors = normalizeList(match.selectors);
+  const minValue = hasLimit(match.minValueWei) ? BigInt(match.minValueWei.trim()) : undefined;
+  const maxValue = hasLimit(match.maxValueWei) ? BigInt(match.maxValueWei.trim()) : undefined;
+  const window = match.timeOfDayUtc
+    ? { from: parseTimeOfDay(match.timeOfDayUtc.from), to: parseTimeOfDay(match.timeOfDayUtc.to) }
+    : undefined;
+  const reason = config.reason?.trim() || `Matched policy rule ${id}`;
+
+  function matches(req: PolicyRequest): boolean {
+    if (match.actions?.length && !match.actions.includes(req.action)) return false;
+    if (match.chains?.length && !match.chains.includes(req.chainId)) return false;
+    if (recipients.length > 0 && !recipients.includes(req.recipient.toLowerCase())) return false;
+    if (tokens.length > 0 && (!req.token || !tokens.includes(req.token.toLowerCase()))) return false;
+    if (selectors.length > 0 && (!req.selector || !selectors.includes(req.selector))) return false;
+    if (minValue != null && req.valueWei < minValue) return false;
+    if (maxValue != null && req.valueWei > maxValue) return false;
+    if (window) {
+      const minute = req.minuteOfDayUtc;
+      const inside =
+        window.from <= window.to
+          ? minute >= window.from && minute < window.to
+          : minute >= window.from || minute < window.to;
+      if (!inside) return false;
+    }
+    return true;
+  }
+
+  return {
+    id,
+    async evaluate(req) {
+      return matches(req) ? { decision: config.effect, reason } : null;
+    },
+  };
+}
+
+/** Ordered rule list for a limits config: built-in limit rules first, then custom rules. */
+export function buildPolicyRules(limits: WalletsLimits | undefined): PolicyRule[] {
+  const tokenRule = buildTokenLimitRule(limits?.tokenLimits);
+  const usdRule = buildUsdLimitRule(limits);
+  return [
+    ...buildLimitRules(limits),
+    buildApprovalRule(limits),
+    buildSimulationRule(limits),
+    ...(tokenRule ? [tokenRule] : []),
+    ...(usdRule ? [usdRule] : []),
+    ...(limits?.rules ?? []).map(compilePolicyRule),
+  ];
+}
+
+/**
+ * Evaluate rules in order. A "deny" or "allow" result is final and stops evaluation;
+ * "require_approval" is remembered and evaluation continues. No decision means allow.
+ */
+export async function evaluatePolicy(
+  rules: PolicyRule[],
+  request: PolicyRequest,
+  ctx: PolicyContext,
+): Promise<PolicyEvaluation> {
+  const trace: PolicyTraceEntry[] = [];
+  let approvalReason: string | undefined;
+  for (const rule of rules) {
+    const result = await rule.evaluate(request, ctx);
+    if (!result) {
+      trace.push({ rule: rule.id, decision: "pass" });
+      continue;
+    }
+    trace.push({ rule: rule.id, decision: result.decision, reason: result.reason });
+    if (result.decision === "deny") {
+      return { decision: "deny", reason: result.reason, trace };
+    }
+    if (result.decision === "require_approval") {
+      approvalReason ??= result.reason;
+      continue;
+    }
+    break;
+  }
+  if (approvalReason != null) {
+    return { decision: "require_approval", reason: approvalReason, trace };
+  }
+  return { decision: "allow", trace };
+}
+
+export function minuteOfDayUtc(date: Date = new Date()): number {
+  return date.getUTCHours() * 60 + date.getUTCMinutes();
+}
+
+export function selectorOf(data: string | undefined): string | undefined {
+  if (!data || data.length < 10) return undefined;
+  return data.slice(0, 10).toLowerCase();
+}
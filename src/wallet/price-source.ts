@@ -0,0 +1,154 @@
+/**
+ * USD price sources for fiat-denominated spending limits.
+ * Ships a static JSON file source and a Chainlink aggregator source.
+ */
+
+import fs from "node:fs/promises";
+
+import { formatUnits, parseAbi, parseUnits, type Address } from "viem";
+import type { RpcClient } from "./rpc.js";
+
+/** USD amounts are carried as bigints with 8 decimals (Chainlink's USD feed precision). */
+export const USD_DECIMALS = 8;
+
+/** Asset key: "native" for the chain's gas token, otherwise the token address. */
+export type PriceAsset = "native" | string;
+
+export type PriceQuote = {
+  chainId: number;
+  asset: PriceAsset;
+  /** Decimal USD price per whole unit (e.g. "2514.03"). */
+  priceUsd: string;
+  /** When the price was last updated (ms since epoch). */
+  updatedAt: number;
+  source: string;
+};
+
+export type PriceSource = {
+  /** Returns null when no price is known for the asset. */
+  getPriceUsd(chainId: number, asset: PriceAsset): Promise<PriceQuote | null>;
+};
+
+export type PriceSourceConfig = {
+  source: "static" | "chainlink";
+  /** Static source: path to a JSON file (see createStaticPriceSource). */
+  staticFile?: string;
+  /** Chainlink source: chainId -> asset ("native" or token address) -> USD aggregator address. */
+  chainlinkFeeds?: Record<string, Record<string, string>>;
+  /** Quotes older than this are rejected (default 3600). */
+  maxAgeSeconds?: number;
+};
+
+export const DEFAULT_PRICE_MAX_AGE_SECONDS = 3600;
+
+const AGGREGATOR_ABI = parseAbi([
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+]);
+
+function assetKey(asset: PriceAsset): string {
+  return asset === "native" ? "native" : asset.trim().toLowerCase();
+}
+
+/**
+ * Static prices from a JSON file, re-read on every lookup so it can be refreshed externally:
+ * `{ "updatedAt": "<ISO date>", "prices": { "<chainId>": { "native": "2500", "0xToken": "1" } } }`.
+ * Without `updatedAt` the file modification time is used.
+ */
+export function createStaticPriceSource(filePath: string): PriceSource {
+  return {
+    async getPriceUsd(chainId, asset) {
+      let raw: string;
+      let mtimeMs: number;
+      try {
+        raw = await fs.readFile(filePath, "utf8");
+        mtimeMs = (await fs.stat(filePath)).mtimeMs;
+      } catch {
+        return null;
+      }
+      const data = JSON.parse(raw) as {
+        updatedAt?: string | number;
+        prices?: Record<string, Record<string, string | number>>;
+      };
+      const byAsset = data.prices?.[String(chainId)];
+      if (!byAsset) return null;
+      const key = assetKey(asset);
+      const entry = Object.entries(byAsset).find(([k]) => k.trim().toLowerCase() === key);
+      if (!entry) return null;
+      const updatedAt = data.updatedAt != null ? new Date(data.updatedAt).getTime() : mtimeMs;
+      if (!Number.isFinite(updatedAt)) return null;
+      return { chainId, asset, priceUsd: String(entry[1]), updatedAt, source: "static" };
+    },
+  };
+}
+
+/**
+ * Chainlink aggregator prices via latestRoundData on the asset's own chain.
+ */
+export function createChainlinkPriceSource(params: {
+  feeds: Record<string, Record<string, string>>;
+  getRpc: (chainId: number) => RpcClient;
+}): PriceSource {
+  return {
+    async getPriceUsd(chainId, asset) {
+      const byAsset = params.feeds[String(chainId)];
+      if (!byAsset) return null;
+      const key = assetKey(asset);
+      const feed = Object.entries(byAsset).find(([k]) => k.trim().toLowerCase() === key)?.[1];
+      if (!feed) return null;
+      const client = params.getRpc(chainId).publicClient;
+      const address = feed as Address;
+      const [decimals, round] = await Promise.all([
+        client.readContract({ address, abi: AGGREGATOR_ABI, functionName: "decimals" }),
+        client.readContract({ address, abi: AGGREGATOR_ABI, functionName: "latestRoundData" }),
+      ]);
+      const answer = round[1];
+      if (answer <= 0n) return null;
+      return {
+        chainId,
+        asset,
+        priceUsd: formatUnits(answer, decimals),
+        updatedAt: Number(round[3]) * 1000,
+        source: `chainlink:${feed}`,
+      };
+    },
+  };
+}
+
+export function createPriceSourceFromConfig(
+  config: PriceSourceConfig,
+  getRpc: (chainId: number) => RpcClient,
+): PriceSource {
+  if (config.source === "static") {
+    if (!config.staticFile?.trim()) throw new Error("prices.staticFile is required for static prices");
+    return createStaticPriceSource(config.staticFile.trim());
+  }
+  if (config.source === "chainlink") {
+    return createChainlinkPriceSource({ feeds: config.chainlinkFeeds ?? {}, getRpc });
+  }
+  throw new Error(`Unknown price source "${String(config.source)}"`);
+}
+
+/**
+ * Convert an amount in base units to USD (8 decimals) using a quote.
+ * Throws when the quote is older than maxAgeSeconds so callers fail closed.
+ */
+export function toUsd(
+  amount: bigint,
+  decimals: number,
+  quote: PriceQuote,
+  maxAgeSeconds: number,
+  now: number = Date.now(),
+): bigint {
+  if (now - quote.updatedAt > maxAgeSeconds * 1000) {
+    throw new Error(
+      `Stale price for ${quote.asset} on chain ${quote.chainId} (updated ${new Date(quote.updatedAt).toISOString()})`,
+    );
+  }
+  const price = parseUnits(quote.priceUsd, USD_DECIMALS);
+  return (amount * price) / 10n ** BigInt(decimals);
+}
+
+export function formatUsd(value: bigint): string {
+  return formatUnits(value, USD_DECIMALS);
+}
@@ -0,0 +1,70 @@
+/**
+ * Wallet-wide index of quorum txs (quorum-txs.json in the shared state dir). Each peer's
+ * service keeps its pending txs in its own state dir; the index lets approvers in other
+ * sessions find a quorum tx and the state dir of the service that owns it.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { createMutex } from "./mutex.js";
+
+const QUORUM_INDEX_FILENAME = "quorum-txs.json";
+
+export type QuorumIndexEntry = {
+  txId: string;
+  /** State dir of the service holding the tx (and the wallet that signs it). */
+  stateDir: string;
+  /** Identities allowed to vote, copied from the tx. */
+  approvers: string[];
+  createdAt: number;
+};
+
+export type QuorumIndex = {
+  load(): Promise<QuorumIndexEntry[]>;
+  add(entry: QuorumIndexEntry): Promise<void>;
+  get(txId: string): Promise<QuorumIndexEntry | null>;
+  remove(txId: string): Promise<void>;
+};
+
+export function createQuorumIndex(dir: string): QuorumIndex {
+  const filePath = path.join(dir, QUORUM_INDEX_FILENAME);
+  // Services of every peer share one index; serialize read-modify-write cycles.
+  const mutex = createMutex();
+
+  async function load(): Promise<QuorumIndexEntry[]> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(raw);
+      return Array.isArray(data) ? data : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function save(entries: QuorumIndexEntry[]): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, JSON.stringify(entries, null, 2), { mode: 0o600 });
+  }
+
+  return {
+    load,
+    add(entry) {
+      return mutex.run(async () => {
+        const entries = (await load()).filter((e) => e.txId !== entry.txId);
+        entries.push(entry);
+        await save(entries);
+      });
+    },
+    async get(txId) {
+      return (await load()).find((e) => e.txId === txId) ?? null;
+    },
+    remove(txId) {
+      return mutex.run(async () => {
+        const entries = await load();
+        const kept = entries.filter((e) => e.txId !== txId);
+        if (kept.length !== entries.length) await save(kept);
+      });
+    },
+  };
+}
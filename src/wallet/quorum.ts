@@ -0,0 +1,71 @@
+/**
+ * M-of-N approval quorum: pick the quorum rule that applies to a request.
+ */
+
+import { parseUnits } from "viem";
+
+import type { PolicyRequest } from "./policy.js";
+import { USD_DECIMALS } from "./price-source.js";
+import type { QuorumRule } from "./types.js";
+
+export type Quorum = {
+  requiredApprovals: number;
+  rejectionsToCancel: number;
+  /** Identities allowed to vote; empty means anyone. */
+  approvers: string[];
+};
+
+export type QuorumRequest = Pick<PolicyRequest, "walletId" | "valueWei" | "valueUsd"> &
+  Partial<Pick<PolicyRequest, "action" | "tokenOperation" | "tokenAmount" | "nftOperation" | "nftApproved">>;
+
+/**
+ * What the request's value is made of: only native value (sends, cancels, revocations), a
+ * decoded ERC20 amount (valued in USD only), or something no threshold can measure (NFTs,
+ * undecoded calls, signatures without a token allowance).
+ */
+function valueKind(request: QuorumRequest): "native" | "token" | "unknown" {
+  if (request.action == null || request.action === "native_send" || request.action === "tx_cancel") {
+    return "native";
+  }
+  if (request.tokenOperation === "approve" && request.tokenAmount === 0n) return "native";
+  if (request.nftOperation === "setApprovalForAll" && request.nftApproved === false) return "native";
+  if (request.nftOperation == null && request.tokenAmount != null) return "token";
+  return "unknown";
+}
+
+/**
+ * A rule applies to its wallet (or every wallet) when any configured threshold is met, or
+ * always when it has none. Unpriced requests count as above a USD threshold, token amounts
+ * as above a wei-only threshold, and NFTs or undecoded calls as above any threshold (fail
+ * closed). The strictest matching rule wins; null means a single approval is enough.
+ */
+export function resolveQuorum(
+  rules: QuorumRule[] | undefined,
+  request: QuorumRequest,
+): Quorum | null {
+  const kind = valueKind(request);
+  let best: Quorum | null = null;
+  for (const rule of rules ?? []) {
+    if (rule.walletId && rule.walletId.toLowerCase() !== request.walletId.toLowerCase()) continue;
+    const minWei = rule.minValueWei?.trim();
+    const minUsd = rule.minValueUsd?.trim();
+    if (minWei || minUsd) {
+      const overWei = minWei ? request.valueWei >= BigInt(minWei) : false;
+      const overUsd = minUsd
+        ? request.valueUsd == null || request.valueUsd >= parseUnits(minUsd, USD_DECIMALS)
+        : false;
+      const unmeasured = kind === "unknown" || (kind === "token" && !minUsd);
+      if (!overWei && !overUsd && !unmeasured) continue;
+    }
+    if (!Number.isInteger(rule.requiredApprovals) || rule.requiredApprovals < 1) {
+      throw new Error(`Invalid quorum requiredApprovals: ${String(rule.requiredApprovals)}`);
+    }
+    if (best && best.requiredApprovals >= rule.requiredApprovals) continue;
+    best = {
+      requiredApprovals: rule.requiredApprovals,
+      rejectionsToCancel: Math.max(1, rule.rejectionsToCancel ?? 1),
+      approvers: (rule.approvers ?? []).map((a) => a.trim()).filter(Boolean),
+    };
+  }
+  return best;
+}
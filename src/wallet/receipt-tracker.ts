@@ -0,0 +1,61 @@
+/**
+ * Receipt checks for broadcast txs: confirmed / reverted once the receipt is deep enough,
+ * dropped when the nonce was used by another tx or the node forgot the tx.
+ */
+
+import type { RpcClient } from "./rpc.js";
+import type { TxReceiptInfo } from "./types.js";
+
+export const DEFAULT_CONFIRMATIONS = 1;
+export const DEFAULT_RECEIPT_POLL_INTERVAL_SECONDS = 15;
+export const DEFAULT_DROP_AFTER_SECONDS = 30 * 60;
+
+/** Background receipt polling (plugin) and drop detection. */
+export type ReceiptTrackingConfig = {
+  /** How often the plugin checks sent txs (default 15). */
+  pollIntervalSeconds?: number;
+  /** A tx the node no longer knows is dropped after this long (default 1800). */
+  dropAfterSeconds?: number;
+};
+
+export type ReceiptCheck =
+  /** Not final yet; `receipt` is set while it has fewer confirmations than required. */
+  | { status: "sent"; receipt?: TxReceiptInfo }
+  | { status: "confirmed" | "reverted"; receipt: TxReceiptInfo }
+  | { status: "dropped"; reason: string };
+
+export async function checkSentTx(
+  rpc: RpcClient,
+  tx: { txHash: string; from: string; nonce?: number; sentAt?: number },
+  opts: { confirmations: number; dropAfterMs: number },
+): Promise<ReceiptCheck> {
+  async function fromReceipt(): Promise<ReceiptCheck | null> {
+    const receipt = await rpc.getTransactionReceipt(tx.txHash);
+    if (!receipt) return null;
+    const head = await rpc.getBlockNumber();
+    const info: TxReceiptInfo = {
+      blockNumber: receipt.blockNumber.toString(),
+      blockHash: receipt.blockHash,
+      gasUsed: receipt.gasUsed.toString(),
+      ...(receipt.effectiveGasPrice != null
+        ? { effectiveGasPrice: receipt.effectiveGasPrice.toString() }
+        : {}),
+      confirmations: Math.max(0, Number(head - receipt.blockNumber) + 1),
+      checkedAt: Date.now(),
+    };
+    if (info.confirmations < opts.confirmations) return { status: "sent", receipt: info };
+    return { status: receipt.status === "success" ? "confirmed" : "reverted", receipt: info };
+  }
+
+  const mined = await fromReceipt();
+  if (mined) return mined;
+  if (tx.nonce != null && (await rpc.getTransactionCount(tx.from)) > tx.nonce) {
+    // The nonce is used; look once more in case our tx was mined between the two calls.
+    return (await fromReceipt()) ?? { status: "dropped", reason: "Nonce used by another transaction" };
+  }
+  const known = await rpc.getTransaction(tx.txHash);
+  if (!known && tx.sentAt != null && Date.now() - tx.sentAt > opts.dropAfterMs) {
+    return { status: "dropped", reason: "Transaction no longer known to the node" };
+  }
+  return { status: "sent" };
+}
@@ -4,18 +4,33 @@
 
 import {
   createPublicClient,
+  getAddress,
   http,
+  TransactionNotFoundError,
+  TransactionReceiptNotFoundError,
   type Address,
+  type Hash,
   type Hex,
   type PublicClient,
+  type TransactionReceipt,
 } from "viem";
 import { defineChain } from "viem";
 
+import { MULTICALL3_ADDRESS } from "./multicall.js";
+
 export type RpcClient = {
   getBalance(address: string): Promise<bigint>;
-  getTransactionCount(address: string): Promise<number>;
+  /** Nonce count at `latest` (default) or including the node's mempool (`pending`). */
+  getTransactionCount(address: string, blockTag?: "latest" | "pending"): Promise<number>;
   estimateGas(params: { from: string; to: string; value: bigint; data?: string }): Promise<bigint>;
   sendRawTransaction(signedHex: string): Promise<string>;
+  /** `eth_call` at the latest block; throws (with revert data when available) if it reverts. */
+  call(params: { from: string; to: string; value?: bigint; data?: string }): Promise<string>;
+  /** Receipt of a mined tx, or null while it is unknown or not yet mined. */
+  getTransactionReceipt(txHash: string): Promise<TransactionReceipt | null>;
+  /** Tx as seen by the node (mempool or chain), or null when the node does not know it. */
+  getTransaction(txHash: string): Promise<{ nonce: number; blockNumber: bigint | null } | null>;
+  getBlockNumber(): Promise<bigint>;
   /** viem PublicClient for prepareTransactionRequest and other advanced use */
   publicClient: PublicClient;
 };
@@ -32,9 +47,14 @@ function toHex(value: string | undefined): Hex | undefined {
 }
 
 /**
- * Create an RPC client backed by viem PublicClient (http transport).
+ * Create an RPC client backed by viem PublicClient (http transport). Batched reads use
+ * `multicall3Address` (default: the canonical Multicall3 deployment).
  */
-export function createRpcClient(rpcUrl: string, chainId: number = 11155111): RpcClient {
+export function createRpcClient(
+  rpcUrl: string,
+  chainId: number = 11155111,
+  options?: { multicall3Address?: string },
+): RpcClient {
   const url = rpcUrl.trim();
   if (!url) throw new Error("RPC URL required");
 
@@ -45,6 +65,9 @@ export function createRpcClient(rpcUrl: string, chainId: number = 11155111): Rpc
     rpcUrls: {
       default: { http: [url] },
     },
+    contracts: {
+      multicall3: { address: getAddress((options?.multicall3Address || MULTICALL3_ADDRESS).trim().toLowerCase()) },
+    },
   });
 
   const client = createPublicClient({
@@ -60,8 +83,11 @@ export function createRpcClient(rpcUrl: string, chainId: number = 11155111): Rpc
     async getBalance(address: string): Promise<bigint> {
       return client.getBalance({ address: toAddress(address) });
     },
-    async getTransactionCount(address: string): Promise<number> {
-      return client.getTransactionCount({ address: toAddress(address) });
+    async getTransactionCount(
+      address: string,
+      blockTag: "latest" | "pending" = "latest",
+    ): Promise<number> {
+      return client.getTransactionCount({ address: toAddress(address), blockTag });
     },
     async estimateGas(params: {
       from: string;
@@ -80,5 +106,41 @@ export function createRpcClient(rpcUrl: string, chainId: number = 11155111): Rpc
       const serialized = (signedHex.startsWith("0x") ? signedHex : `0x${signedHex}`) as Hex;
       return client.sendRawTransaction({ serializedTransaction: serialized });
     },
+    async call(params: {
+      from: string;
+      to: string;
+      value?: bigint;
+      data?: string;
+    }): Promise<string> {
+      const result = await client.call({
+        account: toAddress(params.from),
+        to: toAddress(params.to),
+        value: params.value,
+        data: toHex(params.data),
+      });
+      return result.data ?? "0x";
+    },
+    async getTransactionReceipt(txHash: string): Promise<TransactionReceipt | null> {
+      try {
+        return await client.getTransactionReceipt({ hash: txHash as Hash });
+      } catch (err) {
+        if (err instanceof TransactionReceiptNotFoundError) return null;
+        throw err;
+      }
+    },
+    async getTransaction(
+      txHash: string,
+    ): Promise<{ nonce: number; blockNumber: bigint | null } | null> {
+      try {
+        const tx = await client.getTransaction({ hash: txHash as Hash });
+        return { nonce: tx.nonce, blockNumber: tx.blockNumber };
+      } catch (err) {
+        if (err instanceof TransactionNotFoundError) return null;
+        throw err;
+      }
+    },
+    async getBlockNumber(): Promise<bigint> {
+      return client.getBlockNumber({ cacheTime: 0 });
+    },
   };
 }
@@ -0,0 +1,128 @@
+/**
+ * Offline selector database: function and event signatures of widely used contracts, so
+ * calldata and logs of contracts without a registered ABI can still be decoded. Selectors are
+ * computed from the signatures on first use; several signatures may share a selector.
+ */
+
+import {
+  parseAbiItem,
+  toEventSelector,
+  toFunctionSelector,
+  type AbiEvent,
+  type AbiFunction,
+} from "viem";
+
+const FUNCTION_SIGNATURES = [
+  // ERC20 / ERC721 / ERC1155
+  "function transfer(address to, uint256 amount)",
+  "function transferFrom(address from, address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)",
+  "function increaseAllowance(address spender, uint256 addedValue)",
+  "function decreaseAllowance(address spender, uint256 subtractedValue)",
+  "function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+  "function mint(address to, uint256 amount)",
+  "function burn(uint256 amount)",
+  "function burnFrom(address account, uint256 amount)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+  // WETH
+  "function deposit()",
+  "function withdraw(uint256 wad)",
+  // ERC4626 vaults
+  "function deposit(uint256 assets, address receiver)",
+  "function mint(uint256 shares, address receiver)",
+  "function withdraw(uint256 assets, address receiver, address owner)",
+  "function redeem(uint256 shares, address receiver, address owner)",
+  // Aave v2 / v3 pools
+  "function deposit(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+  "function supply(address asset, uint256 amount, address onBehalfOf, uint16 referralCode)",
+  "function borrow(address asset, uint256 amount, uint256 interestRateMode, uint16 referralCode, address onBehalfOf)",
+  "function repay(address asset, uint256 amount, uint256 interestRateMode, address onBehalfOf)",
+  "function withdraw(address asset, uint256 amount, address to)",
+  "function setUserUseReserveAsCollateral(address asset, bool useAsCollateral)",
+  // Lido
+  "function submit(address referral)",
+  // Curve pools
+  "function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy)",
+  "function exchange(uint256 i, uint256 j, uint256 dx, uint256 min_dy)",
+  "function exchange_underlying(int128 i, int128 j, uint256 dx, uint256 min_dy)",
+  // Uniswap V3 NonfungiblePositionManager
+  "function mint((address token0, address token1, uint24 fee, int24 tickLower, int24 tickUpper, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, address recipient, uint256 deadline) params)",
+  "function increaseLiquidity((uint256 tokenId, uint256 amount0Desired, uint256 amount1Desired, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params)",
+  "function decreaseLiquidity((uint256 tokenId, uint128 liquidity, uint256 amount0Min, uint256 amount1Min, uint256 deadline) params)",
+  "function collect((uint256 tokenId, address recipient, uint128 amount0Max, uint128 amount1Max) params)",
+  // Safe
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)",
+  // Ownable / proxies
+  "function transferOwnership(address newOwner)",
+  "function renounceOwnership()",
+  "function upgradeTo(address newImplementation)",
+  "function upgradeToAndCall(address newImplementation, bytes data)",
+  // ENS
+  "function setName(string name)",
+  "function setAddr(bytes32 node, address addr)",
+  // Claims / staking
+  "function claim()",
+  "function getReward()",
+  "function stake(uint256 amount)",
+  "function unstake(uint256 amount)",
+  "function delegate(address delegatee)",
+];
+
+const EVENT_SIGNATURES = [
+  // ERC20 and ERC721 share Transfer / Approval; ERC721 indexes the third value.
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+  "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event Deposit(address indexed dst, uint256 wad)",
+  "event Withdrawal(address indexed src, uint256 wad)",
+  "event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)",
+  "event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)",
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event Upgraded(address indexed implementation)",
+  "event Paused(address account)",
+  "event Unpaused(address account)",
+];
+
+let functionsBySelector: Map<string, AbiFunction[]> | null = null;
+let eventsByTopic: Map<string, AbiEvent[]> | null = null;
+
+function index<T>(signatures: string[], selectorOf: (item: T) => string): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const signature of signatures) {
+    const item = parseAbiItem(signature) as T;
+    const key = selectorOf(item);
+    map.set(key, [...(map.get(key) ?? []), item]);
+  }
+  return map;
+}
+
+/** Known functions with this 4-byte selector (0x + 8 hex chars). */
+export function lookupSelector(selector: string): AbiFunction[] {
+  functionsBySelector ??= index<AbiFunction>(FUNCTION_SIGNATURES, (fn) => toFunctionSelector(fn));
+  return functionsBySelector.get(selector.toLowerCase()) ?? [];
+}
+
+/** Known events with this topic0. */
+export function lookupEventTopic(topic: string): AbiEvent[] {
+  eventsByTopic ??= index<AbiEvent>(EVENT_SIGNATURES, (event) => toEventSelector(event));
+  return eventsByTopic.get(topic.toLowerCase()) ?? [];
+}
+
+/** Known events by name (e.g. "Transfer"), for log queries without a full signature. */
+export function lookupEventName(name: string): AbiEvent[] {
+  eventsByTopic ??= index<AbiEvent>(EVENT_SIGNATURES, (event) => toEventSelector(event));
+  return [...eventsByTopic.values()].flat().filter((event) => event.name === name);
+}
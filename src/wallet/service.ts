@@ -4,17 +4,156 @@
 
 import { randomUUID } from "node:crypto";
 
-import { getAddress, isAddress } from "viem";
+import {
+  formatUnits,
+  getAddress,
+  isAddress,
+  numberToHex,
+  parseAbi,
+  parseUnits,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import {
+  abiFunctions,
+  encodeCall,
+  parseAbiInput,
+  selectFunction,
+  summarizeFunction,
+  type AbiFunctionSummary,
+  type CallArgs,
+} from "./abi-codec.js";
+import { createAbiStore } from "./abi-store.js";
+import { simulateAssetChanges } from "./asset-diff.js";
+import {
+  abiEvents,
+  decodeLog,
+  DEFAULT_LOG_BLOCK_RANGE,
+  DEFAULT_LOG_LIMIT,
+  eventTopics,
+  MAX_LOG_BLOCK_RANGE,
+  MAX_LOG_LIMIT,
+  resolveEvent,
+  type DecodedLog,
+  type RawLog,
+} from "./event-logs.js";
+import {
+  createCalldataDecoder,
+  type DecodedCall,
+  type RegisteredAbi,
+  type TokenInfo,
+} from "./calldata-decoder.js";
 import { createKeychainAdapter, type KeychainAdapter } from "./keychain.js";
-import { createDailySpendStore, getTodayUtc } from "./daily-spend-store.js";
-import { encodeErc20Approve, encodeErc20Transfer } from "./erc20.js";
+import { contactAllowsChain, createContactStore } from "./contact-store.js";
+import {
+  createDailySpendStore,
+  getWindowStart,
+  type SpendLeg,
+  type SpendWindow,
+} from "./daily-spend-store.js";
+import { createNameResolver, isEnsName } from "./ens.js";
+import { decodeErc20Call, encodeErc20Approve, encodeErc20Transfer } from "./erc20.js";
+import {
+  createApprovalCodeStore,
+  DEFAULT_APPROVAL_CODE_DIGITS,
+  DEFAULT_APPROVAL_CODE_MAX_ATTEMPTS,
+  DEFAULT_APPROVAL_CODE_TTL_SECONDS,
+} from "./approval-code-store.js";
+import { createMutex } from "./mutex.js";
+import {
+  decodeNftCall,
+  encodeErc1155SafeTransfer,
+  encodeErc721SafeTransfer,
+  encodeSetApprovalForAll,
+  readNftHoldings,
+  type NftCollectionConfig,
+  type NftHolding,
+} from "./nft.js";
+import { createNonceManager, type NonceKey, type NonceState } from "./nonce-manager.js";
+import {
+  createConfiguredNotifiers,
+  createNotificationDispatcher,
+  formatWalletNotification,
+  type NotificationEvent,
+  type Notifier,
+  type NotifyConfig,
+} from "./notifier.js";
 import { createPendingStore } from "./pending-store.js";
+import type { QuorumIndex } from "./quorum-index.js";
+import { resolveQuorum } from "./quorum.js";
+import {
+  checkSentTx,
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_DROP_AFTER_SECONDS,
+  type ReceiptCheck,
+  type ReceiptTrackingConfig,
+} from "./receipt-tracker.js";
+import {
+  createPriceSourceFromConfig,
+  DEFAULT_PRICE_MAX_AGE_SECONDS,
+  formatUsd,
+  toUsd,
+  USD_DECIMALS,
+  type PriceQuote,
+  type PriceSource,
+  type PriceSourceConfig,
+} from "./price-source.js";
 import { createRpcClient, type RpcClient } from "./rpc.js";
 import { createStateStore } from "./state-store.js";
+import {
+  createTokenRegistry,
+  UNKNOWN_TOKEN_SYMBOL,
+  type ImportedTokenList,
+  type TokenListing,
+  type TokenRegistryConfig,
+} from "./token-registry.js";
+import { simulateTx, type TxSimulation } from "./simulation.js";
 import { buildAndSignTx, privateKeyToAddress } from "./tx-builder.js";
+import {
+  isUnrecognizedSpenderRequest,
+  parseTypedData,
+  previewTypedData,
+  signTypedDataWithKey,
+  typedDataChainId,
+  type TypedDataPreview,
+} from "./typed-data.js";
 import { mnemonicToPrivateKeyHex } from "./mnemonic.js";
-import type { PendingTx, WalletConfig, WalletMeta, WalletsLimits } from "./types.js";
+import type {
+  BudgetLine,
+  ApprovalVote,
+  Contact,
+  ContractAbi,
+  PendingTx,
+  ResolvedName,
+  SpendBudget,
+  TxWarning,
+  WalletConfig,
+  WalletMeta,
+  WalletsLimits,
+} from "./types.js";
 import { createAuditLog, type AuditEntry, type AuditLogFilter } from "./audit.js";
+import {
+  buildPolicyRules,
+  evaluatePolicy,
+  findTokenLimit,
+  isAutoApprovable,
+  resolveWeiLimits,
+  minuteOfDayUtc,
+  requestWarnings,
+  selectorOf,
+  type PolicyContext,
+  type PolicyRequest,
+  type PolicyTraceEntry,
+} from "./policy.js";
+
+/** Reverse lookups in flight at once when filling names into history entries. */
+const NAME_LOOKUP_CONCURRENCY = 4;
+
+/** Replacement fee bump: nodes reject replacements that pay less than +10%. */
+const DEFAULT_FEE_BUMP_PERCENT = 15;
+const MIN_FEE_BUMP_PERCENT = 10;
 
 function isContractAllowed(
   address: string,
@@ -29,16 +168,20 @@ function isContractAllowed(
   return verified.some((a) => a === normalized);
 }
 
+function sanitizeInput(raw: string): string {
+  // Strip common LLM formatting artifacts: backticks, quotes, markdown bold/italic
+  const sanitized = raw.trim().replace(/^[`'"*_]+|[`'"*_]+$/g, "").trim();
+  // Also strip any zero-width / invisible unicode characters
+  return sanitized.replace(/[\u200B-\u200D\uFEFF\u00A0]/g, "");
+}
+
 /**
  * Validate and normalize an EVM address. Uses viem isAddress (EIP-55 aware).
  * Returns the checksummed address or throws.
  * Sanitizes common LLM formatting artifacts (backticks, quotes, markdown).
  */
 function validateAddress(raw: string, label: string): string {
-  // Strip common LLM formatting artifacts: backticks, quotes, markdown bold/italic
-  let sanitized = raw.trim().replace(/^[`'"*_]+|[`'"*_]+$/g, "").trim();
-  // Also strip any zero-width / invisible unicode characters
-  sanitized = sanitized.replace(/[\u200B-\u200D\uFEFF\u00A0]/g, "");
+  const sanitized = sanitizeInput(raw);
   if (!sanitized.startsWith("0x") || sanitized.length !== 42) {
     throw new Error(
       `Invalid ${label}: must be 42-char hex starting with 0x (got ${sanitized.length} chars: "${sanitized.slice(0, 50)}")`,
@@ -50,18 +193,59 @@ function validateAddress(raw: string, label: string): string {
   return getAddress(sanitized);
 }
 
+/** Non-negative integer input (decimal or 0x hex), e.g. a token id. */
+function parseUint(raw: string, label: string): bigint {
+  const value = sanitizeInput(String(raw));
+  if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(value)) throw new Error(`${label} must be a non-negative integer`);
+  return BigInt(value);
+}
+
 export type WalletServiceConfig = {
   stateDir: string;
   chains: Record<number, WalletConfig>;
   defaultChainId: number;
   limits?: WalletsLimits;
-  notify?: { primaryChannel?: string };
+  notify?: NotifyConfig;
+  /** Extra notification transports, e.g. chat channels when running as a plugin. */
+  notifiers?: Notifier[];
+  receipts?: ReceiptTrackingConfig;
   interactWithUnverifiedContracts?: boolean;
   verifiedTokenAddresses?: string[];
   verifiedContractAddresses?: string[];
+  /** Contract ABIs used to decode calldata for approvers, on top of the built-in ones. */
+  abis?: RegisteredAbi[];
+  /** Extra tokens, token lists and hidden tokens, merged with the built-in token list. */
+  tokens?: TokenRegistryConfig;
+  /** NFT collections reported by getNftHoldings. */
+  nfts?: NftCollectionConfig[];
+  /** Price source settings for USD limits (limitPerTxUsd / dailyLimitUsd). */
+  prices?: PriceSourceConfig;
+  /** When provided, used instead of building a source from `prices`. */
+  priceSource?: PriceSource;
   platform?: NodeJS.Platform;
   /** When provided, used instead of createKeychainAdapter(platform). For server/Linux use createEncryptedFileKeychainAdapter(stateDir). */
   keychainAdapter?: KeychainAdapter;
+  /**
+   * Sends an approval code to the user outside the agent session; required when approval codes
+   * are enabled. The code must never be returned to the agent.
+   */
+  deliverApprovalCode?: (delivery: ApprovalCodeDelivery) => Promise<void>;
+  /**
+   * Wallet-wide index shared by the services of all peers. Quorum txs are recorded there so
+   * approvers in other sessions can find them.
+   */
+  quorumIndex?: QuorumIndex;
+  /**
+   * Session of the request being handled, stored on new pending txs as `origin` so transports
+   * can reach the requester (e.g. the plugin's approval code and chat notifications).
+   */
+  requestOrigin?: () => string | undefined;
+};
+
+export type ApprovalCodeDelivery = {
+  pending: PendingTx;
+  code: string;
+  expiresAt: number;
 };
 
 export type WalletService = {
@@ -73,6 +257,7 @@ export type WalletService = {
   getDefaultWalletId(): Promise<string | null>;
   listWallets(): Promise<{ defaultWalletId: string | null; wallets: WalletMeta[] }>;
   setDefaultWallet(walletId: string): Promise<WalletMeta>;
+  /** `to` may be an address, an ENS-style name or a contact label. */
   requestSend(params: {
     walletId?: string;
     chainId?: number;
@@ -86,6 +271,7 @@ export type WalletService = {
     spender: string;
     amountWei: string;
   }): Promise<{ txId: string; pending: PendingTx }>;
+  /** `to` may be an address, an ENS-style name or a contact label. */
   requestErc20Transfer(params: {
     walletId?: string;
     chainId?: number;
@@ -93,6 +279,31 @@ export type WalletService = {
     to: string;
     amountWei: string;
   }): Promise<{ txId: string; pending: PendingTx }>;
+  /** ERC721 safeTransferFrom; `to` may be an address, an ENS-style name or a contact label. */
+  requestErc721Transfer(params: {
+    walletId?: string;
+    chainId?: number;
+    collectionAddress: string;
+    to: string;
+    tokenId: string;
+  }): Promise<{ txId: string; pending: PendingTx }>;
+  /** ERC1155 safeTransferFrom of `amount` (default 1) of a token id. */
+  requestErc1155Transfer(params: {
+    walletId?: string;
+    chainId?: number;
+    collectionAddress: string;
+    to: string;
+    tokenId: string;
+    amount?: string;
+  }): Promise<{ txId: string; pending: PendingTx }>;
+  /** setApprovalForAll on an ERC721 / ERC1155 collection; `approved: false` revokes. */
+  requestSetApprovalForAll(params: {
+    walletId?: string;
+    chainId?: number;
+    collectionAddress: string;
+    operator: string;
+    approved: boolean;
+  }): Promise<{ txId: string; pending: PendingTx }>;
   requestContractCall(params: {
     walletId?: string;
     chainId?: number;
@@ -105,11 +316,166 @@ export type WalletService = {
     maxPriorityFeePerGas?: string;
     nonce?: number;
   }): Promise<{ txId: string; pending: PendingTx }>;
-  approveTx(txId: string): Promise<{ txHash: string; chainId: number } | { error: string }>;
-  rejectTx(txId: string): Promise<{ ok: boolean; error?: string }>;
+  /**
+   * Ask for an EIP-712 (eth_signTypedData_v4) signature. The request is stored as a pending
+   * entry with a decoded preview; permits and orders that hand out tokens are checked like the
+   * approvals they grant. It always needs manual approval, and approving returns the signature.
+   */
+  requestSignTypedData(params: {
+    walletId?: string;
+    chainId?: number;
+    /** { types, primaryType, domain, message }, as an object or a JSON string. */
+    typedData: unknown;
+  }): Promise<{ txId: string; pending: PendingTx }>;
+  /**
+   * Re-sign a sent tx at the same nonce with bumped fees (default +15%, at least 10%). The
+   * replacement is a new pending tx that goes through the normal policy and approval flow.
+   */
+  requestSpeedUp(params: {
+    txId: string;
+    feeBumpPercent?: number;
+  }): Promise<{ txId: string; pending: PendingTx }>;
+  /** Like requestSpeedUp, but the replacement is a 0-value transfer to the wallet itself. */
+  requestCancel(params: {
+    txId: string;
+    feeBumpPercent?: number;
+  }): Promise<{ txId: string; pending: PendingTx }>;
+  /**
+   * Approve a pending tx. For quorum txs this records a vote by `approver` and only signs and
+   * broadcasts once requiredApprovals is reached. Signature requests return the signature.
+   */
+  approveTx(
+    txId: string,
+    approver?: string,
+    code?: string,
+  ): Promise<
+    | { txHash: string; chainId: number }
+    | { signature: string; chainId: number }
+    | { status: "awaiting_approvals"; approvals: number; requiredApprovals: number }
+    | { error: string }
+  >;
+  /** Reject a pending tx. For quorum txs it is cancelled once rejectionsToCancel is reached. */
+  rejectTx(
+    txId: string,
+    approver?: string,
+  ): Promise<{ ok: boolean; error?: string; cancelled?: boolean; rejections?: number }>;
+  /** Issue and deliver a new approval code for a pending tx (e.g. after the last one expired). */
+  resendApprovalCode(txId: string): Promise<{ ok: boolean; error?: string; expiresAt?: number }>;
   getPendingTx(txId: string): Promise<PendingTx | null>;
+  /** Check the receipt of a sent tx and store the result; other txs are returned as stored. */
+  refreshTxStatus(txId: string): Promise<PendingTx | null>;
+  /** Check every sent tx (for a background loop). Returns how many reached a final status. */
+  trackSentTxs(): Promise<number>;
   listPending(): Promise<PendingTx[]>;
   queryHistory(filter?: AuditLogFilter): Promise<AuditEntry[]>;
+  /** Spent and remaining daily budget per chain, token limit and USD for a wallet. */
+  getSpendBudget(walletId?: string): Promise<SpendBudget>;
+  /** Local nonce state (next nonce, unfilled gaps) synced with the node. */
+  getNonceState(params?: {
+    walletId?: string;
+    chainId?: number;
+  }): Promise<NonceState & { latestCount: number; pendingCount: number }>;
+  addContact(params: {
+    label: string;
+    address: string;
+    chains?: number[];
+    notes?: string;
+  }): Promise<Contact>;
+  listContacts(): Promise<Contact[]>;
+  removeContact(label: string): Promise<{ ok: boolean; error?: string }>;
+  /** Save a contract ABI under a label; an existing label is replaced. */
+  registerContractAbi(params: {
+    label: string;
+    address: string;
+    chainId?: number;
+    abi: Abi | string[] | string;
+  }): Promise<ContractAbi>;
+  listContractAbis(): Promise<Array<Omit<ContractAbi, "abi"> & { functionCount: number }>>;
+  /** `contract` is a registered label or address. */
+  getContractFunctions(
+    contract: string,
+    chainId?: number,
+  ): Promise<Omit<ContractAbi, "abi"> & { functions: AbiFunctionSummary[] }>;
+  removeContractAbi(label: string): Promise<{ ok: boolean; error?: string }>;
+  /** Calldata for a registered contract's function, by name (or signature) with ordered or named args. */
+  encodeContractCall(params: {
+    contract: string;
+    chainId?: number;
+    functionName: string;
+    args?: CallArgs;
+  }): Promise<{ to: string; label: string; data: Hex; signature: string; function: AbiFunction }>;
+  /** Decode calldata with registered ABIs, built-in ABIs and the offline selector database. */
+  decodeCall(params: { data: string; to?: string; chainId?: number }): Promise<DecodedCall | null>;
+  /**
+   * Logs over a block range (default: the last 1000 blocks), filtered by address or registered
+   * `contract`, and by `event` (signature or name, indexed `args`) or raw `topics`; the most
+   * recent `limit` logs are decoded.
+   */
+  getLogs(params: {
+    chainId?: number;
+    address?: string;
+    contract?: string;
+    event?: string;
+    args?: Record<string, unknown>;
+    topics?: Array<string | string[] | null>;
+    fromBlock?: number | "latest";
+    toBlock?: number | "latest";
+    limit?: number;
+  }): Promise<{
+    chainId: number;
+    address?: string;
+    event?: string;
+    fromBlock: string;
+    toBlock: string;
+    count: number;
+    truncated: boolean;
+    logs: DecodedLog[];
+  }>;
+  /** Primary ENS-style name of an address (reverse lookup), or null. */
+  lookupName(address: string, chainId?: number): Promise<string | null>;
+  /** Known tokens on a chain (default chain when omitted); `tracked` ones are scanned for balances. */
+  listTokens(params?: { chainId?: number; includeHidden?: boolean }): Promise<{
+    chainId: number;
+    tokens: TokenListing[];
+    listErrors?: Array<{ source: string; error: string }>;
+  }>;
+  /**
+   * Registry entry for a token, read from the contract (and cached) when unknown. `publicClient`
+   * is used for chains without a configured RPC.
+   */
+  resolveToken(params: {
+    address: string;
+    chainId?: number;
+    publicClient?: PublicClient;
+  }): Promise<TokenListing | null>;
+  /** Track a custom token; missing symbol / decimals are read from the contract. */
+  addToken(params: {
+    address: string;
+    chainId?: number;
+    symbol?: string;
+    decimals?: number;
+    name?: string;
+  }): Promise<TokenListing>;
+  removeToken(params: { address: string; chainId?: number }): Promise<{ ok: boolean; error?: string }>;
+  /** Hide a token from balances (`spam` marks it as spam); `hidden: false` shows it again. */
+  hideToken(params: {
+    address: string;
+    chainId?: number;
+    hidden?: boolean;
+    spam?: boolean;
+  }): Promise<{ ok: boolean; status: "hidden" | "spam" | "visible" }>;
+  /** Import a token list (Uniswap token-list JSON) from an http(s) URL or inline JSON. */
+  importTokenList(params: { url?: string; json?: unknown }): Promise<
+    Omit<ImportedTokenList, "tokens"> & { tokenCount: number; chainIds: number[] }
+  >;
+  /**
+   * Holdings in the configured NFT collections (all chains, or one). Collections on a chain
+   * that cannot be read are reported with `error`.
+   */
+  getNftHoldings(params?: { walletId?: string; chainId?: number }): Promise<{
+    address: string;
+    collections: NftHolding[];
+  }>;
 };
 
 export function createWalletService(config: WalletServiceConfig): WalletService {
@@ -120,9 +486,40 @@ export function createWalletService(config: WalletServiceConfig): WalletService
   const pendingStore = createPendingStore(walletsDir);
   const audit = createAuditLog(walletsDir);
   const dailySpendStore = createDailySpendStore(walletsDir);
+  const contactStore = createContactStore(walletsDir);
+  const abiStore = createAbiStore(walletsDir);
+  const tokenRegistry = createTokenRegistry(walletsDir, config.tokens);
+  const approvalCodeStore = createApprovalCodeStore(walletsDir);
+  const nonceManager = createNonceManager(walletsDir);
+  const notifiers: Notifier[] = [
+    ...(config.notifiers ?? []),
+    ...createConfiguredNotifiers(config.notify, walletsDir),
+  ];
+  const dispatcher = createNotificationDispatcher({
+    notifiers,
+    retry: config.notify?.retry,
+    events: config.notify?.events,
+    onFailure: (failure) =>
+      audit.append({
+        action: "notification_failed",
+        txId: failure.notification.pending.txId,
+        walletId: failure.notification.pending.walletId,
+        chainId: failure.notification.pending.chainId,
+        notifier: failure.notifier,
+        event: failure.notification.event,
+        attempts: failure.attempts,
+        error: failure.error,
+      }),
+  });
+  const nameResolver = createNameResolver({ chains: config.chains, getRpc });
   const defaultChainId = config.defaultChainId;
   const limits = config.limits;
+  const spendWindow: SpendWindow | undefined = limits?.window;
+  // Fail fast on an invalid timezone instead of at the first request.
+  getWindowStart(spendWindow);
   const rpcByChain = new Map<number, RpcClient>();
+  const priceSource =
+    config.priceSource ?? (config.prices ? createPriceSourceFromConfig(config.prices, getRpc) : undefined);
   /** Pending transactions expire after 30 minutes (ms). */
   const PENDING_TX_TTL_MS = 30 * 60 * 1000;
 
@@ -131,12 +528,540 @@ export function createWalletService(config: WalletServiceConfig): WalletService
     if (!rpc) {
       const chainConfig = config.chains[chainId];
       if (!chainConfig) throw new Error("Chain " + chainId + " not configured");
-      rpc = createRpcClient(chainConfig.rpcUrl, chainConfig.chainId);
+      rpc = createRpcClient(chainConfig.rpcUrl, chainConfig.chainId, {
+        multicall3Address: chainConfig.multicall3Address,
+      });
       rpcByChain.set(chainId, rpc);
     }
     return rpc;
   }
 
+  const policyRules = buildPolicyRules(limits);
+
+  /**
+   * Policy context counting final spend and reservations, optionally leaving out some txs.
+   * `extra` adds legs not in the ledger yet (earlier legs of the same signature request).
+   */
+  function spendContext(
+    excludeTxIds: string[] = [],
+    extra?: { walletId: string; chainId: number; legs: SpendLeg[] },
+  ): PolicyContext {
+    return {
+      async getSpent(filter) {
+        const { spent, reserved } = await dailySpendStore.getTotals(
+          filter,
+          getWindowStart(spendWindow),
+          excludeTxIds,
+        );
+        const matches =
+          extra && extra.walletId === filter.walletId && (filter.chainId == null || filter.chainId === extra.chainId);
+        const pending = matches
+          ? extra.legs.filter((l) => l.asset === filter.asset).reduce((sum, l) => sum + l.amount, 0n)
+          : 0n;
+        return spent + reserved + pending;
+      },
+    };
+  }
+
+  // Policy check + reservation run one at a time so concurrent requests cannot both fit
+  // under a limit that only one of them should get.
+  const budgetMutex = createMutex();
+  function withBudgetLock<T>(fn: () => Promise<T>): Promise<T> {
+    return budgetMutex.run(fn);
+  }
+
+  const maxPriceAgeSeconds = config.prices?.maxAgeSeconds ?? DEFAULT_PRICE_MAX_AGE_SECONDS;
+  const hasUsdLimits =
+    (limits?.limitPerTxUsd != null && limits.limitPerTxUsd.trim() !== "") ||
+    (limits?.dailyLimitUsd != null && limits.dailyLimitUsd.trim() !== "");
+  const needsUsdValue = hasUsdLimits || (limits?.quorum ?? []).some((q) => q.minValueUsd?.trim());
+  // Votes, code checks and the pending -> approved transition happen one at a time.
+  const approvalMutex = createMutex();
+  const approvalCode = limits?.approvalCode?.enabled
+    ? {
+        ttlSeconds: limits.approvalCode.ttlSeconds ?? DEFAULT_APPROVAL_CODE_TTL_SECONDS,
+        maxAttempts: limits.approvalCode.maxAttempts ?? DEFAULT_APPROVAL_CODE_MAX_ATTEMPTS,
+        digits: limits.approvalCode.digits ?? DEFAULT_APPROVAL_CODE_DIGITS,
+      }
+    : null;
+  // Without a transport every tx would stay pending with a code nobody received.
+  if (approvalCode && !config.deliverApprovalCode) {
+    throw new Error(
+      "approvalCode.enabled needs a code transport: deliverApprovalCode, or wallets.notify.webhook, outbox or stdout",
+    );
+  }
+
+  async function getTokenDecimals(chainId: number, token: string): Promise<number> {
+    const configured = findTokenLimit(limits?.tokenLimits, chainId, token);
+    if (configured) return configured.decimals;
+    const entry = await tokenRegistry.resolve(chainId, token, getRpc(chainId).publicClient);
+    if (!entry) throw new Error(`Could not read decimals of token ${token} on chain ${chainId}`);
+    return entry.decimals;
+  }
+
+  /** Decimals and symbol for display; null when the token is unknown and has no decimals(). */
+  async function getTokenInfo(chainId: number, token: string): Promise<TokenInfo | null> {
+    let decimals: number;
+    try {
+      decimals = await getTokenDecimals(chainId, token);
+    } catch {
+      return null;
+    }
+    const entry = await tokenRegistry.resolve(chainId, token).catch(() => null);
+    const symbol = entry && entry.symbol !== UNKNOWN_TOKEN_SYMBOL ? entry.symbol : undefined;
+    return { decimals, ...(symbol ? { symbol } : {}) };
+  }
+
+  /** ABIs from config and the per-peer registry that apply on the chain. */
+  async function registeredAbis(chainId: number): Promise<RegisteredAbi[]> {
+    return [...(config.abis ?? []), ...(await abiStore.load())].filter(
+      (a) => a.chainId == null || a.chainId === chainId,
+    );
+  }
+
+  const calldataDecoder = createCalldataDecoder({ registeredAbis, getTokenInfo });
+
+  /** Decoded calldata for approvers; undefined when no known ABI matches. */
+  async function decodeCalldata(
+    chainId: number,
+    to: string,
+    data: string,
+  ): Promise<DecodedCall | undefined> {
+    return (await calldataDecoder.decode({ chainId, to, data })) ?? undefined;
+  }
+
+  /**
+   * Value a request in USD at request time (native value + decoded token amount).
+   * Only runs when USD limits are configured; any missing or stale price is reported as an
+   * error so the policy fails closed.
+   */
+  async function priceRequest(
+    request: PolicyRequest,
+  ): Promise<{ valueUsd?: bigint; prices: PriceQuote[]; error?: string }> {
+    const prices: PriceQuote[] = [];
+    if (!priceSource) return { prices, error: "USD limits configured but no price source" };
+    try {
+      let total = 0n;
+      const legs: Array<{ asset: string; amount: bigint; decimals: () => Promise<number> }> = [];
+      if (request.valueWei > 0n) {
+        legs.push({ asset: "native", amount: request.valueWei, decimals: async () => 18 });
+      }
+      if (request.token && request.tokenAmount != null && request.tokenAmount > 0n) {
+        const token = request.token;
+        legs.push({
+          asset: token,
+          amount: request.tokenAmount,
+          decimals: () => getTokenDecimals(request.chainId, token),
+        });
+      }
+      for (const leg of legs) {
+        const quote = await priceSource.getPriceUsd(request.chainId, leg.asset);
+        if (!quote) throw new Error(`No USD price for ${leg.asset} on chain ${request.chainId}`);
+        prices.push(quote);
+        total += toUsd(leg.amount, await leg.decimals(), quote, maxPriceAgeSeconds);
+      }
+      return { valueUsd: total, prices };
+    } catch (err) {
+      return { prices, error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  /**
+   * Ledger amounts a request will spend: native value, ERC20 amount moved and USD value.
+   * On-chain approvals are not spend, but a signed permit or order is: its spender can take
+   * the tokens without the wallet sending another tx.
+   */
+  function spendLegs(request: PolicyRequest): SpendLeg[] {
+    const legs: SpendLeg[] = [{ asset: "native", amount: request.valueWei }];
+    const moves = request.tokenOperation !== "approve" || request.action === "sign_typed_data";
+    if (request.token && request.tokenAmount != null && moves) {
+      legs.push({ asset: request.token, amount: request.tokenAmount });
+    }
+    if (request.valueUsd != null) legs.push({ asset: "usd", amount: request.valueUsd });
+    return legs;
+  }
+
+  /**
+   * Run a normalized request through the policy and reserve its budget under `txId`. Denials
+   * are audited and thrown; otherwise returns whether the request can be auto-signed ("auto"
+   * mode + allow, no quorum) or needs approval, plus the USD valuation and quorum to store on
+   * the pending tx. When re-checking an existing tx, its own reservation is left out of the
+   * daily totals. A replacement (`replaces`) is checked in place of the original's spend and
+   * reserves nothing: only one tx of the pair can be mined. `priorLegs` are the legs already
+   * reserved for earlier parts of the same signature request; they are counted and kept.
+   */
+  async function evaluateRequest(
+    request: PolicyRequest,
+    txId: string,
+    opts: { recheck?: boolean; replaces?: string; priorLegs?: SpendLeg[] } = {},
+  ): Promise<{
+    approval: "auto" | "manual";
+    /** Legs now reserved under `txId`. */
+    reserved: SpendLeg[];
+    reason?: string;
+    policy: PolicyTraceEntry[];
+    pricing: { valueUsd?: string; prices?: PriceQuote[] };
+    warnings: { warnings?: TxWarning[] };
+    quorum: Pick<PendingTx, "requiredApprovals" | "rejectionsToCancel" | "approvers">;
+  }> {
+    let pricing: { valueUsd?: string; prices?: PriceQuote[] } = {};
+    if (needsUsdValue) {
+      const priced = await priceRequest(request);
+      request = {
+        ...request,
+        ...(priced.valueUsd != null ? { valueUsd: priced.valueUsd } : {}),
+        ...(priced.error ? { usdError: priced.error } : {}),
+      };
+      pricing = {
+        ...(priced.valueUsd != null ? { valueUsd: formatUsd(priced.valueUsd) } : {}),
+        ...(priced.prices.length > 0 ? { prices: priced.prices } : {}),
+      };
+    }
+    const warnings = requestWarnings(request);
+    const quorum = resolveQuorum(limits?.quorum, request);
+    return withBudgetLock(async () => {
+      await sweepExpired();
+      const excluded = opts.replaces ? [txId, opts.replaces] : [txId];
+      const prior = opts.priorLegs ?? [];
+      const evaluation = await evaluatePolicy(
+        policyRules,
+        request,
+        spendContext(excluded, { walletId: request.walletId, chainId: request.chainId, legs: prior }),
+      );
+      if (evaluation.decision === "deny") {
+        await audit.append({
+          action: "request_denied",
+          ...(opts.recheck ? { txId } : {}),
+          walletId: request.walletId,
+          chainId: request.chainId,
+          to: request.to,
+          valueWei: request.valueWei.toString(),
+          reason: evaluation.reason,
+          policy: evaluation.trace,
+          ...pricing,
+          ...(warnings.length > 0 ? { warnings } : {}),
+        });
+        throw new Error("Policy denied: " + evaluation.reason);
+      }
+      const reserved = opts.replaces ? [] : [...prior, ...spendLegs(request)];
+      if (!opts.replaces) {
+        await dailySpendStore.reserve(txId, { walletId: request.walletId, chainId: request.chainId }, reserved);
+      }
+      const autoApprovable = isAutoApprovable(limits, request);
+      const approval =
+        limits?.mode === "auto" && evaluation.decision === "allow" && !quorum && autoApprovable
+          ? "auto"
+          : "manual";
+      const reason =
+        evaluation.reason ??
+        (limits?.mode === "auto" && !autoApprovable
+          ? "Auto mode only signs native sends and token amounts checked against a limit"
+          : undefined);
+      return {
+        approval,
+        reserved,
+        ...(reason ? { reason } : {}),
+        policy: evaluation.trace,
+        pricing,
+        warnings: warnings.length > 0 ? { warnings } : {},
+        quorum: quorum
+          ? {
+              requiredApprovals: quorum.requiredApprovals,
+              rejectionsToCancel: quorum.rejectionsToCancel,
+              ...(quorum.approvers.length > 0 ? { approvers: quorum.approvers } : {}),
+            }
+          : {},
+      };
+    });
+  }
+
+  /** Simulate a request before the policy sees it; undefined when simulation is disabled. */
+  async function preflight(tx: {
+    chainId: number;
+    from: string;
+    to: string;
+    valueWei: bigint;
+    data?: string;
+    gasLimit?: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+  }): Promise<TxSimulation | undefined> {
+    if (limits?.simulation?.enabled === false) return undefined;
+    const optional = (v: string | undefined) => (v ? BigInt(v) : undefined);
+    const simulation = await simulateTx(getRpc(tx.chainId), {
+      from: tx.from,
+      to: tx.to,
+      valueWei: tx.valueWei,
+      data: tx.data,
+      gasLimit: optional(tx.gasLimit),
+      gasPrice: optional(tx.gasPrice),
+      maxFeePerGas: optional(tx.maxFeePerGas),
+    });
+    if (simulation.status !== "success") return simulation;
+    const forkRpcUrl = config.chains[tx.chainId]?.forkRpcUrl;
+    if (!forkRpcUrl && !limits?.simulation?.traceCall) return simulation;
+    const assetDiff = await simulateAssetChanges(
+      forkRpcUrl
+        ? { kind: "fork", rpc: createRpcClient(forkRpcUrl, tx.chainId) }
+        : { kind: "trace", rpc: getRpc(tx.chainId) },
+      {
+        from: tx.from,
+        to: tx.to,
+        valueWei: tx.valueWei,
+        data: tx.data,
+        gasLimit: optional(simulation.gasLimit),
+      },
+      (token) => getTokenInfo(tx.chainId, token),
+    );
+    return { ...simulation, assetDiff };
+  }
+
+  function simulationFields(
+    simulation: TxSimulation | undefined,
+  ): Pick<PolicyRequest, "simulationError"> {
+    return simulation?.status === "reverted"
+      ? { simulationError: simulation.revertReason ?? "unknown reason" }
+      : {};
+  }
+
+  /** Policy fields for calldata that decodes as an NFT transfer or setApprovalForAll. */
+  function nftCallFields(
+    collection: string,
+    data: string | undefined,
+  ): Pick<PolicyRequest, "token" | "nftOperation" | "tokenId" | "spender" | "nftApproved"> {
+    const call = decodeNftCall(data);
+    if (!call) return {};
+    if (call.functionName === "setApprovalForAll") {
+      return {
+        token: collection,
+        nftOperation: "setApprovalForAll",
+        spender: call.operator,
+        nftApproved: call.approved,
+      };
+    }
+    return { token: collection, nftOperation: "transfer", tokenId: call.tokenId };
+  }
+
+  /**
+   * Counterparty of a call for recipient rules: the payee of a token or NFT transfer, the
+   * spender or operator of an approval, otherwise the called contract.
+   */
+  function callRecipient(to: string, data: string): string {
+    const erc20Call = decodeErc20Call(data);
+    if (erc20Call) return erc20Call.functionName === "approve" ? erc20Call.spender : erc20Call.to;
+    const nftCall = decodeNftCall(data);
+    if (nftCall) return nftCall.functionName === "setApprovalForAll" ? nftCall.operator : nftCall.to;
+    return to;
+  }
+
+  /** Rebuild the policy request for a stored tx (re-check at approval time). */
+  function policyRequestFromPending(pending: PendingTx): PolicyRequest {
+    const erc20Call = pending.data ? decodeErc20Call(pending.data) : null;
+    return {
+      action: pending.action ?? (pending.data ? "contract_call" : "native_send"),
+      walletId: pending.walletId,
+      chainId: pending.chainId,
+      to: pending.to,
+      recipient: pending.data ? callRecipient(pending.to, pending.data) : (pending.recipient ?? pending.to),
+      valueWei: BigInt(pending.valueWei),
+      ...(erc20Call
+        ? {
+            token: pending.to,
+            tokenAmount: erc20Call.amount,
+            tokenOperation: erc20Call.functionName,
+            ...(erc20Call.functionName === "approve" ? { spender: erc20Call.spender } : {}),
+          }
+        : {}),
+      ...nftCallFields(pending.to, pending.data),
+      ...(pending.data ? { selector: selectorOf(pending.data) } : {}),
+      ...simulationFields(pending.simulation),
+      minuteOfDayUtc: minuteOfDayUtc(),
+    };
+  }
+
+  /**
+   * Notify transports of a lifecycle event with the tx as it is now. Delivery (with retries)
+   * runs in the background so it never delays or fails the wallet operation. Signatures are
+   * left out: only the requester gets them, through approveTx or the pending tx.
+   */
+  async function notify(event: NotificationEvent, txId: string): Promise<void> {
+    if (notifiers.length === 0) return;
+    const stored = await pendingStore.get(txId);
+    if (!stored) return;
+    const pending = { ...stored, signature: undefined };
+    const text = formatWalletNotification(event, pending);
+    void dispatcher.dispatch({ event, at: new Date().toISOString(), pending, text });
+  }
+
+  async function expirePending(pending: PendingTx): Promise<void> {
+    await pendingStore.update(pending.txId, { status: "failed", error: "Pending tx expired (>30min)" });
+    await dailySpendStore.release(pending.txId);
+    await approvalCodeStore.remove(pending.txId);
+    await audit.append({
+      action: pending.typedData ? "typed_data_expired" : "send_expired",
+      txId: pending.txId,
+      walletId: pending.walletId,
+      chainId: pending.chainId,
+    });
+    await notify("expired", pending.txId);
+  }
+
+  /** Store a new pending tx; quorum txs are also recorded in the wallet-wide index. */
+  async function addPending(pending: PendingTx): Promise<void> {
+    const origin = config.requestOrigin?.();
+    await pendingStore.add(origin ? { ...pending, origin } : pending);
+    if (pending.requiredApprovals != null && config.quorumIndex) {
+      await config.quorumIndex.add({
+        txId: pending.txId,
+        stateDir: config.stateDir,
+        approvers: pending.approvers ?? [],
+        createdAt: pending.createdAt,
+      });
+    }
+  }
+
+  /**
+   * Expire stale pending txs and drop reservations left without a live tx (e.g. after a
+   * crash between reserving and storing the pending tx). Quorum index entries of txs that
+   * are no longer pending are dropped too.
+   */
+  async function sweepExpired(): Promise<void> {
+    const now = Date.now();
+    const items = await pendingStore.load();
+    for (const tx of items) {
+      if (tx.status === "pending" && now - tx.createdAt > PENDING_TX_TTL_MS) await expirePending(tx);
+    }
+    if (config.quorumIndex) {
+      const statuses = new Map((await pendingStore.load()).map((t) => [t.txId, t.status]));
+      for (const entry of await config.quorumIndex.load()) {
+        if (entry.stateDir !== config.stateDir) continue;
+        const status = statuses.get(entry.txId);
+        // A missing tx may be one being stored right now; only drop it once it is stale.
+        const gone = status == null ? now - entry.createdAt > PENDING_TX_TTL_MS : status !== "pending";
+        if (gone) await config.quorumIndex.remove(entry.txId);
+      }
+    }
+    const live = new Set(
+      items.filter((t) => t.status === "pending" || t.status === "approved").map((t) => t.txId),
+    );
+    for (const reservation of await dailySpendStore.listReservations()) {
+      if (!live.has(reservation.txId) && now - reservation.at > PENDING_TX_TTL_MS) {
+        await dailySpendStore.release(reservation.txId);
+      }
+    }
+  }
+
+  /**
+   * Finish a request whose pending tx is already stored. When it qualified for auto mode it is
+   * signed and broadcast right away; the returned pending reflects the final status.
+   */
+  async function submitPending(
+    pending: PendingTx,
+    approval: "auto" | "manual",
+  ): Promise<{ txId: string; pending: PendingTx }> {
+    if (approval === "manual") {
+      if (approvalCode) await issueApprovalCode(pending);
+      await notify("pending_created", pending.txId);
+      const updated = await pendingStore.get(pending.txId);
+      return { txId: pending.txId, pending: updated ?? pending };
+    }
+    await pendingStore.update(pending.txId, { status: "approved" });
+    await broadcastPending(pending, "auto");
+    const updated = await pendingStore.get(pending.txId);
+    return { txId: pending.txId, pending: updated ?? pending };
+  }
+
+  /**
+   * Issue a code for a pending tx and send it through deliverApprovalCode. A failed delivery
+   * is audited and leaves the tx pending; the code can be re-sent.
+   */
+  async function issueApprovalCode(pending: PendingTx): Promise<number | null> {
+    if (!approvalCode) return null;
+    const { code, expiresAt } = await approvalCodeStore.issue(pending.txId, approvalCode);
+    const updated =
+      (await pendingStore.update(pending.txId, { approvalCodeExpiresAt: expiresAt })) ?? pending;
+    const base = { txId: pending.txId, walletId: pending.walletId, chainId: pending.chainId };
+    try {
+      if (!config.deliverApprovalCode) throw new Error("No approval code transport configured");
+      await config.deliverApprovalCode({ pending: updated, code, expiresAt });
+    } catch (err) {
+      await audit.append({
+        action: "approval_code_delivery_failed",
+        ...base,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+    await audit.append({ action: "approval_code_issued", ...base, codeExpiresAt: expiresAt });
+    return expiresAt;
+  }
+
+  /**
+   * Resolve an address input: a 0x address, an ENS-style name, or (when allowed) a contact
+   * label. Contact labels must be enabled on the chain. The result carries the contact label
+   * and the forward-resolved or primary name of the address, for display.
+   */
+  async function resolveAddressInput(
+    raw: string,
+    chainId: number,
+    role: ResolvedName["role"],
+    allowContacts = false,
+  ): Promise<{ address: string; label?: string; name?: string; resolved?: ResolvedName }> {
+    const input = sanitizeInput(raw);
+    let address: string;
+    let resolved: ResolvedName | undefined;
+    let label: string | undefined;
+    const contact = allowContacts && !input.startsWith("0x") ? await contactStore.findByLabel(input) : null;
+    if (contact) {
+      if (!contactAllowsChain(contact, chainId)) {
+        throw new Error(`Contact "${contact.label}" is not enabled on chain ${chainId}`);
+      }
+      address = validateAddress(contact.address, "contact address");
+      label = contact.label;
+    } else if (isEnsName(input)) {
+      const result = await nameResolver.resolveName(input, chainId);
+      address = result.address;
+      resolved = { role, name: result.name, address };
+    } else if (allowContacts && !input.startsWith("0x")) {
+      throw new Error(`Unknown recipient "${input}": not an address, name or saved contact`);
+    } else {
+      address = validateAddress(input, `${role} address`);
+    }
+    label ??= await contactLabel(address, chainId);
+    const name = resolved?.name ?? (await nameResolver.lookupAddress(address, chainId)) ?? undefined;
+    return {
+      address,
+      ...(label ? { label } : {}),
+      ...(name ? { name } : {}),
+      ...(resolved ? { resolved } : {}),
+    };
+  }
+
+  /** PendingTx fields describing how the recipient was resolved. */
+  function recipientDisplay(recipient: { label?: string; name?: string; resolved?: ResolvedName }) {
+    return {
+      ...(recipient.label ? { recipientLabel: recipient.label } : {}),
+      ...(recipient.name ? { recipientName: recipient.name } : {}),
+      ...(recipient.resolved ? { resolvedNames: [recipient.resolved] } : {}),
+    };
+  }
+
+  /** Audit fields for a resolved `to` / `spender` / `operator`. */
+  function auditNames(
+    field: "to" | "spender" | "operator",
+    recipient: { label?: string; name?: string; resolved?: ResolvedName },
+  ): Partial<AuditEntry> {
+    return {
+      ...(recipient.label ? { [`${field}Label`]: recipient.label } : {}),
+      ...(recipient.name ? { [`${field}Name`]: recipient.name } : {}),
+      ...(recipient.resolved ? { resolvedNames: [recipient.resolved] } : {}),
+    };
+  }
+
+  async function contactLabel(address: string, chainId?: number): Promise<string | undefined> {
+    return (await contactStore.findByAddress(address, chainId))?.label;
+  }
+
   async function getDefaultWalletId(): Promise<string | null> {
     const state = await stateStore.load();
     return state.defaultWalletId;
@@ -226,35 +1151,27 @@ export function createWalletService(config: WalletServiceConfig): WalletService
     if (!meta) throw new Error("Wallet not found");
     const valueWei = BigInt(params.valueWei);
     if (valueWei <= 0n) throw new Error("Value must be positive");
-    const to = validateAddress(params.to, "recipient address");
     const chainId = params.chainId ?? defaultChainId;
     if (!config.chains[chainId]) throw new Error(`Chain ${chainId} not configured`);
+    const recipient = await resolveAddressInput(params.to, chainId, "recipient", true);
+    const to = recipient.address;
 
-    if (limits?.allowedChains != null && limits.allowedChains.length > 0) {
-      if (!limits.allowedChains.includes(chainId)) {
-        throw new Error("Chain " + chainId + " not allowed (allowedChains)");
-      }
-    }
-    if (limits?.allowedRecipients != null && limits.allowedRecipients.length > 0) {
-      const normalized = to.toLowerCase();
-      if (!limits.allowedRecipients.some((r) => r.trim().toLowerCase() === normalized)) {
-        throw new Error("Recipient not in allowedRecipients");
-      }
-    }
-    if (limits?.limitPerTx != null && limits.limitPerTx.trim() !== "") {
-      const limit = BigInt(limits.limitPerTx.trim());
-      if (valueWei > limit) throw new Error("Value exceeds limitPerTx (" + limits.limitPerTx + ")");
-    }
-    if (limits?.dailyLimit != null && limits.dailyLimit.trim() !== "") {
-      const dayLimit = BigInt(limits.dailyLimit.trim());
-      const today = getTodayUtc();
-      const spent = await dailySpendStore.getTotalForDate(today);
-      if (spent + valueWei > dayLimit) {
-        throw new Error("Would exceed dailyLimit (" + limits.dailyLimit + ") for today");
-      }
-    }
-
+    const simulation = await preflight({ chainId, from: meta.address, to, valueWei });
     const txId = randomUUID();
+    const request: PolicyRequest = {
+      action: "native_send",
+      walletId,
+      chainId,
+      to,
+      recipient: to,
+      valueWei,
+      minuteOfDayUtc: minuteOfDayUtc(),
+      ...simulationFields(simulation),
+    };
+    const { approval, reason, policy, pricing, warnings, quorum } = await evaluateRequest(
+      request,
+      txId,
+    );
     const pending: PendingTx = {
       txId,
       walletId,
@@ -264,8 +1181,15 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       valueWei: params.valueWei,
       createdAt: Date.now(),
       status: "pending",
+      action: request.action,
+      recipient: request.recipient,
+      ...recipientDisplay(recipient),
+      ...pricing,
+      ...warnings,
+      ...(simulation ? { simulation } : {}),
+      ...quorum,
     };
-    await pendingStore.add(pending);
+    await addPending(pending);
     await audit.append({
       action: "send_requested",
       txId,
@@ -273,9 +1197,15 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       chainId,
       from: meta.address,
       to,
+      ...auditNames("to", recipient),
       valueWei: params.valueWei,
+      approval,
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
     });
-    return { txId, pending };
+    return submitPending(pending, approval);
   }
 
   async function requestErc20Approve(params: {
@@ -296,10 +1226,32 @@ export function createWalletService(config: WalletServiceConfig): WalletService
     if (!meta) throw new Error("Wallet not found");
     const chainId = params.chainId ?? defaultChainId;
     if (!config.chains[chainId]) throw new Error("Chain " + chainId + " not configured");
-    const spender = validateAddress(params.spender, "spender address");
+    const recipient = await resolveAddressInput(params.spender, chainId, "spender");
+    const spender = recipient.address;
     const amountWei = BigInt(params.amountWei);
     const data = encodeErc20Approve(spender, amountWei);
+    const simulation = await preflight({ chainId, from: meta.address, to: tokenAddress, valueWei: 0n, data });
+    const decodedCall = await decodeCalldata(chainId, tokenAddress, data);
     const txId = randomUUID();
+    const request: PolicyRequest = {
+      action: "erc20_approve",
+      walletId,
+      chainId,
+      to: tokenAddress,
+      recipient: spender,
+      token: tokenAddress,
+      valueWei: 0n,
+      tokenAmount: amountWei,
+      tokenOperation: "approve",
+      spender,
+      selector: selectorOf(data),
+      minuteOfDayUtc: minuteOfDayUtc(),
+      ...simulationFields(simulation),
+    };
+    const { approval, reason, policy, pricing, warnings, quorum } = await evaluateRequest(
+      request,
+      txId,
+    );
     const pending: PendingTx = {
       txId,
       walletId,
@@ -310,8 +1262,16 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       data,
       createdAt: Date.now(),
       status: "pending",
+      action: request.action,
+      recipient: request.recipient,
+      ...recipientDisplay(recipient),
+      ...pricing,
+      ...warnings,
+      ...(simulation ? { simulation } : {}),
+      ...(decodedCall ? { decodedCall } : {}),
+      ...quorum,
     };
-    await pendingStore.add(pending);
+    await addPending(pending);
     await audit.append({
       action: "erc20_approve_requested",
       txId,
@@ -319,9 +1279,15 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       chainId,
       tokenAddress,
       spender,
+      ...auditNames("spender", recipient),
       amountWei: params.amountWei,
+      approval,
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
     });
-    return { txId, pending };
+    return submitPending(pending, approval);
   }
 
   async function requestErc20Transfer(params: {
@@ -342,22 +1308,32 @@ export function createWalletService(config: WalletServiceConfig): WalletService
     if (!meta) throw new Error("Wallet not found");
     const chainId = params.chainId ?? defaultChainId;
     if (!config.chains[chainId]) throw new Error("Chain " + chainId + " not configured");
-    const to = validateAddress(params.to, "recipient address");
+    const recipient = await resolveAddressInput(params.to, chainId, "recipient", true);
+    const to = recipient.address;
     const amountWei = BigInt(params.amountWei);
     if (amountWei <= 0n) throw new Error("Amount must be positive");
-    if (limits?.allowedChains != null && limits.allowedChains.length > 0) {
-      if (!limits.allowedChains.includes(chainId)) {
-        throw new Error("Chain " + chainId + " not allowed (allowedChains)");
-      }
-    }
-    if (limits?.allowedRecipients != null && limits.allowedRecipients.length > 0) {
-      const normalized = to.toLowerCase();
-      if (!limits.allowedRecipients.some((r) => r.trim().toLowerCase() === normalized)) {
-        throw new Error("Recipient not in allowedRecipients");
-      }
-    }
     const data = encodeErc20Transfer(to, amountWei);
+    const simulation = await preflight({ chainId, from: meta.address, to: tokenAddress, valueWei: 0n, data });
+    const decodedCall = await decodeCalldata(chainId, tokenAddress, data);
     const txId = randomUUID();
+    const request: PolicyRequest = {
+      action: "erc20_transfer",
+      walletId,
+      chainId,
+      to: tokenAddress,
+      recipient: to,
+      token: tokenAddress,
+      valueWei: 0n,
+      tokenAmount: amountWei,
+      tokenOperation: "transfer",
+      selector: selectorOf(data),
+      minuteOfDayUtc: minuteOfDayUtc(),
+      ...simulationFields(simulation),
+    };
+    const { approval, reason, policy, pricing, warnings, quorum } = await evaluateRequest(
+      request,
+      txId,
+    );
     const pending: PendingTx = {
       txId,
       walletId,
@@ -368,8 +1344,16 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       data,
       createdAt: Date.now(),
       status: "pending",
+      action: request.action,
+      recipient: request.recipient,
+      ...recipientDisplay(recipient),
+      ...pricing,
+      ...warnings,
+      ...(simulation ? { simulation } : {}),
+      ...(decodedCall ? { decodedCall } : {}),
+      ...quorum,
     };
-    await pendingStore.add(pending);
+    await addPending(pending);
     await audit.append({
       action: "erc20_transfer_requested",
       txId,
@@ -377,27 +1361,36 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       chainId,
       tokenAddress,
       to,
+      ...auditNames("to", recipient),
       amountWei: params.amountWei,
+      approval,
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
     });
-    return { txId, pending };
+    return submitPending(pending, approval);
   }
 
-  async function requestContractCall(params: {
+  /**
+   * Shared flow of the NFT requests: verified-collection check, recipient / operator resolution,
+   * simulation, policy and the pending tx. `encode` builds the calldata for the wallet and the
+   * resolved counterparty.
+   */
+  async function requestNftCall(params: {
     walletId?: string;
     chainId?: number;
-    to: string;
-    valueWei?: string;
-    data: string;
-    gasLimit?: string;
-    gasPrice?: string;
-    maxFeePerGas?: string;
-    maxPriorityFeePerGas?: string;
-    nonce?: number;
+    collectionAddress: string;
+    action: "erc721_transfer" | "erc1155_transfer" | "nft_approve_all";
+    counterparty: string;
+    role: "recipient" | "operator";
+    encode(from: string, counterparty: string): `0x${string}`;
+    audit: Partial<AuditEntry>;
   }): Promise<{ txId: string; pending: PendingTx }> {
-    const to = validateAddress(params.to, "contract address");
-    if (!isContractAllowed(to, config)) {
+    const collection = validateAddress(params.collectionAddress, "collection address");
+    if (!isContractAllowed(collection, config)) {
       throw new Error(
-        "Contract not in verifiedContractAddresses/verifiedTokenAddresses (set interactWithUnverifiedContracts or add to list)",
+        "Collection not in verifiedContractAddresses/verifiedTokenAddresses (set interactWithUnverifiedContracts or add to list)",
       );
     }
     const state = await stateStore.load();
@@ -407,120 +1400,776 @@ export function createWalletService(config: WalletServiceConfig): WalletService
     if (!meta) throw new Error("Wallet not found");
     const chainId = params.chainId ?? defaultChainId;
     if (!config.chains[chainId]) throw new Error("Chain " + chainId + " not configured");
-    const valueWei = (params.valueWei ?? "0").trim();
-    const valueBigInt = BigInt(valueWei);
-    if (valueBigInt < 0n) throw new Error("valueWei must be non-negative");
-    const data = (params.data ?? "").trim();
-    if (!data.startsWith("0x")) throw new Error("data must be hex (0x...)");
-    const gasLimit = params.gasLimit?.trim();
-    if (gasLimit != null && gasLimit !== "") {
-      const gasLimitBigInt = BigInt(gasLimit);
-      if (gasLimitBigInt <= 0n) throw new Error("gasLimit must be positive");
-    }
-    const gasPrice = params.gasPrice?.trim();
-    if (gasPrice != null && gasPrice !== "") {
-      const gasPriceBigInt = BigInt(gasPrice);
-      if (gasPriceBigInt <= 0n) throw new Error("gasPrice must be positive");
-    }
-    const maxFeePerGas = params.maxFeePerGas?.trim();
-    if (maxFeePerGas != null && maxFeePerGas !== "") {
-      const maxFeePerGasBigInt = BigInt(maxFeePerGas);
-      if (maxFeePerGasBigInt <= 0n) throw new Error("maxFeePerGas must be positive");
-    }
-    const maxPriorityFeePerGas = params.maxPriorityFeePerGas?.trim();
-    if (maxPriorityFeePerGas != null && maxPriorityFeePerGas !== "") {
-      const maxPriorityFeePerGasBigInt = BigInt(maxPriorityFeePerGas);
-      if (maxPriorityFeePerGasBigInt <= 0n) throw new Error("maxPriorityFeePerGas must be positive");
-    }
-    const nonce = params.nonce;
-    if (nonce != null && (!Number.isInteger(nonce) || nonce < 0)) {
-      throw new Error("nonce must be a non-negative integer");
-    }
-    if (limits?.allowedChains != null && limits.allowedChains.length > 0) {
-      if (!limits.allowedChains.includes(chainId)) {
-        throw new Error("Chain " + chainId + " not allowed (allowedChains)");
-      }
-    }
-    if (limits?.allowedRecipients != null && limits.allowedRecipients.length > 0) {
-      const normalized = to.toLowerCase();
-      if (!limits.allowedRecipients.some((r) => r.trim().toLowerCase() === normalized)) {
-        throw new Error("Recipient not in allowedRecipients");
-      }
-    }
-    if (limits?.limitPerTx != null && limits.limitPerTx.trim() !== "") {
-      const limit = BigInt(limits.limitPerTx);
-      if (valueBigInt > limit) {
-        throw new Error("valueWei exceeds limitPerTx");
-      }
-    }
-    if (limits?.dailyLimit != null && limits.dailyLimit.trim() !== "" && valueBigInt > 0n) {
-      const today = getTodayUtc();
-      const current = await dailySpendStore.getTotalForDate(today);
-      const limit = BigInt(limits.dailyLimit);
-      if (current + valueBigInt > limit) {
-        throw new Error("Would exceed dailyLimit");
-      }
-    }
+    // Like ERC20 spenders, operators cannot be given as contact labels.
+    const recipient = await resolveAddressInput(
+      params.counterparty,
+      chainId,
+      params.role,
+      params.role === "recipient",
+    );
+    const counterparty = recipient.address;
+    const data = params.encode(meta.address, counterparty);
+    const simulation = await preflight({ chainId, from: meta.address, to: collection, valueWei: 0n, data });
+    const decodedCall = await decodeCalldata(chainId, collection, data);
     const txId = randomUUID();
+    const request: PolicyRequest = {
+      action: params.action,
+      walletId,
+      chainId,
+      to: collection,
+      recipient: counterparty,
+      valueWei: 0n,
+      ...nftCallFields(collection, data),
+      selector: selectorOf(data),
+      minuteOfDayUtc: minuteOfDayUtc(),
+      ...simulationFields(simulation),
+    };
+    const { approval, reason, policy, pricing, warnings, quorum } = await evaluateRequest(
+      request,
+      txId,
+    );
     const pending: PendingTx = {
       txId,
       walletId,
       chainId,
       from: meta.address,
-      to,
-      valueWei,
+      to: collection,
+      valueWei: "0",
       data,
-      ...(gasLimit ? { gasLimit } : {}),
-      ...(gasPrice ? { gasPrice } : {}),
-      ...(maxFeePerGas ? { maxFeePerGas } : {}),
-      ...(maxPriorityFeePerGas ? { maxPriorityFeePerGas } : {}),
-      ...(nonce != null ? { nonce } : {}),
       createdAt: Date.now(),
       status: "pending",
+      action: request.action,
+      recipient: request.recipient,
+      ...recipientDisplay(recipient),
+      ...pricing,
+      ...warnings,
+      ...(simulation ? { simulation } : {}),
+      ...(decodedCall ? { decodedCall } : {}),
+      ...quorum,
     };
-    await pendingStore.add(pending);
+    await addPending(pending);
+    const field = params.role === "recipient" ? "to" : "operator";
     await audit.append({
-      action: "contract_call_requested",
+      action: `${params.action}_requested`,
       txId,
       walletId,
       chainId,
-      to,
-      valueWei,
+      collectionAddress: collection,
+      [field]: counterparty,
+      ...auditNames(field, recipient),
+      ...params.audit,
+      approval,
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
     });
-    return { txId, pending };
+    return submitPending(pending, approval);
   }
 
-  async function approveTx(txId: string): Promise<{ txHash: string; chainId: number } | { error: string }> {
-    const pending = await pendingStore.get(txId);
-    if (!pending) return { error: "Pending tx not found" };
-    if (pending.status !== "pending") return { error: "Tx status is " + pending.status };
-    // Expiration check: reject stale pending transactions
-    const age = Date.now() - pending.createdAt;
-    if (age > PENDING_TX_TTL_MS) {
-      await pendingStore.update(txId, { status: "failed", error: "Pending tx expired (>30min)" });
-      await audit.append({
-        action: "send_expired",
-        txId,
-        walletId: pending.walletId,
-        chainId: pending.chainId,
+  async function requestErc721Transfer(params: {
+    walletId?: string;
+    chainId?: number;
+    collectionAddress: string;
+    to: string;
+    tokenId: string;
+  }): Promise<{ txId: string; pending: PendingTx }> {
+    const tokenId = parseUint(params.tokenId, "tokenId");
+    return requestNftCall({
+      walletId: params.walletId,
+      chainId: params.chainId,
+      collectionAddress: params.collectionAddress,
+      action: "erc721_transfer",
+      counterparty: params.to,
+      role: "recipient",
+      encode: (from, to) => encodeErc721SafeTransfer(from, to, tokenId),
+      audit: { tokenId: tokenId.toString() },
+    });
+  }
+
+  async function requestErc1155Transfer(params: {
+    walletId?: string;
+    chainId?: number;
+    collectionAddress: string;
+    to: string;
+    tokenId: string;
+    amount?: string;
+  }): Promise<{ txId: string; pending: PendingTx }> {
+    const tokenId = parseUint(params.tokenId, "tokenId");
+    const amount = parseUint(params.amount ?? "1", "amount");
+    if (amount === 0n) throw new Error("Amount must be positive");
+    return requestNftCall({
+      walletId: params.walletId,
+      chainId: params.chainId,
+      collectionAddress: params.collectionAddress,
+      action: "erc1155_transfer",
+      counterparty: params.to,
+      role: "recipient",
+      encode: (from, to) => encodeErc1155SafeTransfer(from, to, tokenId, amount),
+      audit: { tokenId: tokenId.toString(), amount: amount.toString() },
+    });
+  }
+
+  async function requestSetApprovalForAll(params: {
+    walletId?: string;
+    chainId?: number;
+    collectionAddress: string;
+    operator: string;
+    approved: boolean;
+  }): Promise<{ txId: string; pending: PendingTx }> {
+    if (typeof params.approved !== "boolean") throw new Error("approved must be true or false");
+    const approved = params.approved;
+    return requestNftCall({
+      walletId: params.walletId,
+      chainId: params.chainId,
+      collectionAddress: params.collectionAddress,
+      action: "nft_approve_all",
+      counterparty: params.operator,
+      role: "operator",
+      encode: (_from, operator) => encodeSetApprovalForAll(operator, approved),
+      audit: { approved },
+    });
+  }
+
+  /**
+   * Policy requests for a signature: one per token the typed data hands out, shaped like the
+   * ERC20 approval (or NFT transfer) it amounts to, or a single 0-value one for other payloads.
+   */
+  function signaturePolicyRequests(
+    tx: Pick<PendingTx, "walletId" | "chainId" | "from">,
+    preview: TypedDataPreview,
+  ): PolicyRequest[] {
+    const to = preview.domain.verifyingContract ?? tx.from;
+    const base = {
+      action: "sign_typed_data" as const,
+      walletId: tx.walletId,
+      chainId: tx.chainId,
+      to,
+      valueWei: 0n,
+      minuteOfDayUtc: minuteOfDayUtc(),
+    };
+    if (preview.approvals.length === 0) return [{ ...base, recipient: to }];
+    return preview.approvals.map((a): PolicyRequest => {
+      const grant = { ...base, recipient: a.spender, spender: a.spender, token: a.token ?? to };
+      if (a.asset === "erc20") {
+        return { ...grant, tokenAmount: BigInt(a.amount), tokenOperation: "approve" };
+      }
+      if (a.asset === "native") return { ...grant, token: undefined, valueWei: BigInt(a.amount) };
+      return {
+        ...grant,
+        nftOperation: "transfer",
+        ...(a.tokenId && a.tokenId !== "any" ? { tokenId: BigInt(a.tokenId) } : {}),
+      };
+    });
+  }
+
+  /**
+   * Run every leg of a signature through the policy and reserve what it lets spenders take;
+   * the first denial throws and drops the reservation. Traces and warnings are merged, USD
+   * values summed and the strictest quorum kept.
+   */
+  async function evaluateSignature(
+    requests: PolicyRequest[],
+    txId: string,
+    opts: { recheck?: boolean } = {},
+  ): Promise<{
+    reason?: string;
+    policy: PolicyTraceEntry[];
+    pricing: { valueUsd?: string; prices?: PriceQuote[] };
+    warnings: { warnings?: TxWarning[] };
+    quorum: Pick<PendingTx, "requiredApprovals" | "rejectionsToCancel" | "approvers">;
+  }> {
+    const results = [];
+    try {
+      for (const request of requests) {
+        const priorLegs: SpendLeg[] = results.at(-1)?.reserved ?? [];
+        results.push(await evaluateRequest(request, txId, { ...opts, priorLegs }));
+      }
+    } catch (err) {
+      await dailySpendStore.release(txId);
+      throw err;
+    }
+    const reason = results.find((r) => r.reason)?.reason;
+    const usd = results.flatMap((r) =>
+      r.pricing.valueUsd != null ? [parseUnits(r.pricing.valueUsd, USD_DECIMALS)] : [],
+    );
+    const prices = results.flatMap((r) => r.pricing.prices ?? []);
+    const warnings = results.flatMap((r) => r.warnings.warnings ?? []);
+    let quorum: Pick<PendingTx, "requiredApprovals" | "rejectionsToCancel" | "approvers"> = {};
+    for (const r of results) {
+      if ((r.quorum.requiredApprovals ?? 0) > (quorum.requiredApprovals ?? 0)) quorum = r.quorum;
+    }
+    return {
+      ...(reason ? { reason } : {}),
+      policy: results.flatMap((r) => r.policy),
+      pricing: {
+        ...(usd.length > 0 ? { valueUsd: formatUsd(usd.reduce((a, b) => a + b, 0n)) } : {}),
+        ...(prices.length > 0 ? { prices } : {}),
+      },
+      warnings: warnings.length > 0 ? { warnings } : {},
+      quorum,
+    };
+  }
+
+  async function requestSignTypedData(params: {
+    walletId?: string;
+    chainId?: number;
+    typedData: unknown;
+  }): Promise<{ txId: string; pending: PendingTx }> {
+    const typedData = parseTypedData(params.typedData);
+    const state = await stateStore.load();
+    const walletId = params.walletId ?? state.defaultWalletId;
+    if (!walletId) throw new Error("No default wallet");
+    const meta = state.wallets[walletId];
+    if (!meta) throw new Error("Wallet not found");
+    const domainChainId = typedDataChainId(typedData);
+    if (params.chainId != null && domainChainId != null && params.chainId !== domainChainId) {
+      throw new Error(`chainId ${params.chainId} does not match the typed data domain (chain ${domainChainId})`);
+    }
+    const chainId = params.chainId ?? domainChainId ?? defaultChainId;
+    if (!config.chains[chainId]) throw new Error("Chain " + chainId + " not configured");
+    const preview = await previewTypedData(typedData, (token) => getTokenInfo(chainId, token));
+    if (isUnrecognizedSpenderRequest(preview)) {
+      throw new Error(
+        `Unrecognized ${preview.domain.name} typed data (${preview.primaryType}): what it lets the contract take cannot be checked`,
+      );
+    }
+    const verifyingContract = preview.domain.verifyingContract;
+    if (verifyingContract && !isContractAllowed(verifyingContract, config)) {
+      throw new Error(
+        "Verifying contract not in verifiedContractAddresses/verifiedTokenAddresses (set interactWithUnverifiedContracts or add to list)",
+      );
+    }
+    const txId = randomUUID();
+    const requests = signaturePolicyRequests({ walletId, chainId, from: meta.address }, preview);
+    const { reason, policy, pricing, warnings, quorum } = await evaluateSignature(requests, txId);
+    const pending: PendingTx = {
+      txId,
+      walletId,
+      chainId,
+      from: meta.address,
+      to: verifyingContract ?? meta.address,
+      valueWei: "0",
+      createdAt: Date.now(),
+      status: "pending",
+      action: "sign_typed_data",
+      recipient: requests[0].recipient,
+      typedData,
+      typedDataPreview: preview,
+      ...pricing,
+      ...warnings,
+      ...quorum,
+    };
+    await addPending(pending);
+    await audit.append({
+      action: "sign_typed_data_requested",
+      txId,
+      walletId,
+      chainId,
+      from: meta.address,
+      to: pending.to,
+      primaryType: preview.primaryType,
+      typedDataHash: preview.hash,
+      approval: "manual",
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
+    });
+    return submitPending(pending, "manual");
+  }
+
+  /** Re-check an approved signature request against the current policy, then sign it. */
+  async function signPending(
+    pending: PendingTx,
+  ): Promise<{ signature: string; chainId: number } | { error: string }> {
+    const txId = pending.txId;
+    const base = {
+      txId,
+      walletId: pending.walletId,
+      chainId: pending.chainId,
+      from: pending.from,
+      to: pending.to,
+      primaryType: pending.typedData?.primaryType,
+      typedDataHash: pending.typedDataPreview?.hash,
+    };
+    try {
+      if (!pending.typedData || !pending.typedDataPreview) throw new Error("Typed data missing");
+      await evaluateSignature(signaturePolicyRequests(pending, pending.typedDataPreview), txId, {
+        recheck: true,
       });
+      const privateKey = keychain.getPrivateKey(pending.walletId);
+      if (!privateKey) throw new Error("Cannot read wallet key");
+      const signature = await signTypedDataWithKey(privateKey, pending.typedData);
+      await pendingStore.update(txId, { status: "signed", signature, signedAt: Date.now() });
+      await dailySpendStore.finalize(txId);
+      await audit.append({ action: "typed_data_signed", ...base });
+      await notify("signed", txId);
+      return { signature, chainId: pending.chainId };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await pendingStore.update(txId, { status: "failed", error: message });
+      await dailySpendStore.release(txId);
+      await audit.append({ action: "typed_data_sign_failed", ...base, error: message });
+      await notify("failed", txId);
+      return { error: message };
+    }
+  }
+
+  async function requestContractCall(params: {
+    walletId?: string;
+    chainId?: number;
+    to: string;
+    valueWei?: string;
+    data: string;
+    gasLimit?: string;
+    gasPrice?: string;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    nonce?: number;
+  }): Promise<{ txId: string; pending: PendingTx }> {
+    const chainId = params.chainId ?? defaultChainId;
+    if (!config.chains[chainId]) throw new Error("Chain " + chainId + " not configured");
+    const recipient = await resolveAddressInput(params.to, chainId, "contract");
+    const to = recipient.address;
+    if (!isContractAllowed(to, config)) {
+      throw new Error(
+        "Contract not in verifiedContractAddresses/verifiedTokenAddresses (set interactWithUnverifiedContracts or add to list)",
+      );
+    }
+    const state = await stateStore.load();
+    const walletId = params.walletId ?? state.defaultWalletId;
+    if (!walletId) throw new Error("No default wallet");
+    const meta = state.wallets[walletId];
+    if (!meta) throw new Error("Wallet not found");
+    const valueWei = (params.valueWei ?? "0").trim();
+    const valueBigInt = BigInt(valueWei);
+    if (valueBigInt < 0n) throw new Error("valueWei must be non-negative");
+    const data = (params.data ?? "").trim();
+    if (!data.startsWith("0x")) throw new Error("data must be hex (0x...)");
+    const gasLimit = params.gasLimit?.trim();
+    if (gasLimit != null && gasLimit !== "") {
+      const gasLimitBigInt = BigInt(gasLimit);
+      if (gasLimitBigInt <= 0n) throw new Error("gasLimit must be positive");
+    }
+    const gasPrice = params.gasPrice?.trim();
+    if (gasPrice != null && gasPrice !== "") {
+      const gasPriceBigInt = BigInt(gasPrice);
+      if (gasPriceBigInt <= 0n) throw new Error("gasPrice must be positive");
+    }
+    const maxFeePerGas = params.maxFeePerGas?.trim();
+    if (maxFeePerGas != null && maxFeePerGas !== "") {
+      const maxFeePerGasBigInt = BigInt(maxFeePerGas);
+      if (maxFeePerGasBigInt <= 0n) throw new Error("maxFeePerGas must be positive");
+    }
+    const maxPriorityFeePerGas = params.maxPriorityFeePerGas?.trim();
+    if (maxPriorityFeePerGas != null && maxPriorityFeePerGas !== "") {
+      const maxPriorityFeePerGasBigInt = BigInt(maxPriorityFeePerGas);
+      if (maxPriorityFeePerGasBigInt <= 0n) throw new Error("maxPriorityFeePerGas must be positive");
+    }
+    const nonce = params.nonce;
+    if (nonce != null && (!Number.isInteger(nonce) || nonce < 0)) {
+      throw new Error("nonce must be a non-negative integer");
+    }
+    const erc20Call = decodeErc20Call(data);
+    const simulation = await preflight({
+      chainId,
+      from: meta.address,
+      to,
+      valueWei: valueBigInt,
+      data,
+      gasLimit,
+      gasPrice,
+      maxFeePerGas,
+    });
+    const decodedCall = await decodeCalldata(chainId, to, data);
+    const txId = randomUUID();
+    const request: PolicyRequest = {
+      action: "contract_call",
+      walletId,
+      chainId,
+      to,
+      recipient: callRecipient(to, data),
+      valueWei: valueBigInt,
+      ...(erc20Call
+        ? {
+            token: to,
+            tokenAmount: erc20Call.amount,
+            tokenOperation: erc20Call.functionName,
+            ...(erc20Call.functionName === "approve" ? { spender: erc20Call.spender } : {}),
+          }
+        : {}),
+      ...nftCallFields(to, data),
+      selector: selectorOf(data),
+      minuteOfDayUtc: minuteOfDayUtc(),
+      ...simulationFields(simulation),
+    };
+    const { approval, reason, policy, pricing, warnings, quorum } = await evaluateRequest(
+      request,
+      txId,
+    );
+    const pending: PendingTx = {
+      txId,
+      walletId,
+      chainId,
+      from: meta.address,
+      to,
+      valueWei,
+      data,
+      ...(gasLimit ? { gasLimit } : {}),
+      ...(gasPrice ? { gasPrice } : {}),
+      ...(maxFeePerGas ? { maxFeePerGas } : {}),
+      ...(maxPriorityFeePerGas ? { maxPriorityFeePerGas } : {}),
+      ...(nonce != null ? { nonce } : {}),
+      createdAt: Date.now(),
+      status: "pending",
+      action: request.action,
+      recipient: request.recipient,
+      // Names resolved for `to` belong to the contract, not to a decoded payee or spender.
+      ...(request.recipient === to ? recipientDisplay(recipient) : {}),
+      ...pricing,
+      ...warnings,
+      ...(simulation ? { simulation } : {}),
+      ...(decodedCall ? { decodedCall } : {}),
+      ...quorum,
+    };
+    await addPending(pending);
+    await audit.append({
+      action: "contract_call_requested",
+      txId,
+      walletId,
+      chainId,
+      to,
+      ...auditNames("to", recipient),
+      valueWei,
+      approval,
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
+    });
+    return submitPending(pending, approval);
+  }
+
+  /** Fees for a replacement: the tx's own fees bumped by `percent`, or the network's if higher. */
+  async function bumpedFees(
+    tx: PendingTx,
+    percent: number,
+  ): Promise<Pick<PendingTx, "maxFeePerGas" | "maxPriorityFeePerGas" | "gasPrice">> {
+    if (!Number.isFinite(percent) || percent < MIN_FEE_BUMP_PERCENT || percent > 1000) {
+      throw new Error(`feeBumpPercent must be between ${MIN_FEE_BUMP_PERCENT} and 1000`);
+    }
+    const factor = BigInt(Math.round((100 + percent) * 100));
+    const bump = (value: string) => (BigInt(value) * factor + 9_999n) / 10_000n;
+    const max = (...values: bigint[]) => values.reduce((a, b) => (b > a ? b : a));
+    const client = getRpc(tx.chainId).publicClient;
+    if (tx.maxFeePerGas != null && tx.maxPriorityFeePerGas != null) {
+      const current = await client.estimateFeesPerGas().catch(() => null);
+      const maxPriorityFeePerGas = max(
+        bump(tx.maxPriorityFeePerGas),
+        current?.maxPriorityFeePerGas ?? 0n,
+      );
+      const maxFeePerGas = max(
+        bump(tx.maxFeePerGas),
+        current?.maxFeePerGas ?? 0n,
+        maxPriorityFeePerGas,
+      );
+      return {
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      };
+    }
+    if (tx.gasPrice != null) {
+      const current = await client.getGasPrice().catch(() => null);
+      return { gasPrice: max(bump(tx.gasPrice), current ?? 0n).toString() };
+    }
+    throw new Error("The fees this tx was sent with are unknown; it cannot be replaced");
+  }
+
+  async function requestReplacement(
+    kind: "speed_up" | "cancel",
+    params: { txId: string; feeBumpPercent?: number },
+  ): Promise<{ txId: string; pending: PendingTx }> {
+    const target = await pendingStore.get(params.txId);
+    if (!target) throw new Error("Tx not found");
+    if (target.status !== "sent" || !target.txHash) {
+      throw new Error(`Only sent txs can be replaced (status: ${target.status})`);
+    }
+    if (target.nonce == null) throw new Error("The nonce of this tx is unknown; it cannot be replaced");
+    const rootId = target.replaces ?? target.txId;
+    const fees = await bumpedFees(target, params.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT);
+    const cancel = kind === "cancel";
+
+    const simulation = await preflight({
+      chainId: target.chainId,
+      from: target.from,
+      to: cancel ? target.from : target.to,
+      valueWei: cancel ? 0n : BigInt(target.valueWei),
+      data: cancel ? undefined : target.data,
+      gasLimit: cancel ? "21000" : target.gasLimit,
+      gasPrice: fees.gasPrice,
+      maxFeePerGas: fees.maxFeePerGas,
+    });
+    const txId = randomUUID();
+    const request: PolicyRequest = {
+      ...(cancel
+        ? {
+            action: "tx_cancel" as const,
+            walletId: target.walletId,
+            chainId: target.chainId,
+            to: target.from,
+            recipient: target.from,
+            valueWei: 0n,
+            minuteOfDayUtc: minuteOfDayUtc(),
+          }
+        : policyRequestFromPending(target)),
+      // The replacement's own simulation counts, not the original's.
+      simulationError: undefined,
+      ...simulationFields(simulation),
+    };
+    const { approval, reason, policy, pricing, warnings, quorum } = await evaluateRequest(
+      request,
+      txId,
+      { replaces: rootId },
+    );
+    const pending: PendingTx = {
+      txId,
+      walletId: target.walletId,
+      chainId: target.chainId,
+      from: target.from,
+      to: cancel ? target.from : target.to,
+      valueWei: cancel ? "0" : target.valueWei,
+      ...(!cancel && target.data ? { data: target.data } : {}),
+      gasLimit: cancel ? "21000" : target.gasLimit,
+      ...fees,
+      nonce: target.nonce,
+      createdAt: Date.now(),
+      status: "pending",
+      action: request.action,
+      recipient: request.recipient,
+      ...(!cancel
+        ? {
+            recipientLabel: target.recipientLabel,
+            recipientName: target.recipientName,
+            resolvedNames: target.resolvedNames,
+          }
+        : {}),
+      ...pricing,
+      ...warnings,
+      ...(simulation ? { simulation } : {}),
+      ...(!cancel && target.decodedCall ? { decodedCall: target.decodedCall } : {}),
+      ...quorum,
+      replaces: rootId,
+      replacement: kind,
+    };
+    await addPending(pending);
+    const root = await pendingStore.get(rootId);
+    await pendingStore.update(rootId, { replacedBy: [...(root?.replacedBy ?? []), txId] });
+    await audit.append({
+      action: cancel ? "cancel_requested" : "speed_up_requested",
+      txId,
+      walletId: pending.walletId,
+      chainId: pending.chainId,
+      from: pending.from,
+      to: pending.to,
+      valueWei: pending.valueWei,
+      replaces: rootId,
+      approval,
+      ...(reason ? { reason } : {}),
+      policy,
+      ...pricing,
+      ...warnings,
+    });
+    return submitPending(pending, approval);
+  }
+
+  /**
+   * Once one tx of a replacement group (original plus its speed-ups / cancels, all with the
+   * same nonce) is mined, no other can be: record the winner on the original, mark the others
+   * dropped or failed, and undo the original's spend when a cancel won.
+   */
+  async function settleReplacements(winner: PendingTx): Promise<void> {
+    const rootId = winner.replaces ?? winner.txId;
+    const root = await pendingStore.get(rootId);
+    if (!root?.replacedBy?.length) return;
+    await pendingStore.update(rootId, { minedTxId: winner.txId });
+    for (const id of [rootId, ...root.replacedBy]) {
+      if (id === winner.txId) continue;
+      const tx = await pendingStore.get(id);
+      if (!tx) continue;
+      const base = { txId: tx.txId, walletId: tx.walletId, chainId: tx.chainId };
+      if (tx.status === "sent") {
+        const error = `Nonce used by ${winner.txId}`;
+        await pendingStore.update(id, { status: "dropped", error, receipt: undefined });
+        await audit.append({ action: "tx_dropped", ...base, txHash: tx.txHash, reason: error });
+        await notify("dropped", id);
+      } else if (tx.status === "pending") {
+        const error = `Nonce already used by ${winner.txId}`;
+        await pendingStore.update(id, { status: "failed", error });
+        await dailySpendStore.release(id);
+        await approvalCodeStore.remove(id);
+        await audit.append({ action: "send_failed", ...base, error });
+        await notify("failed", id);
+      }
+    }
+    if (winner.replacement === "cancel") await dailySpendStore.remove(rootId);
+  }
+
+  /**
+   * Validate and record a quorum vote on a pending tx. Returns the updated vote list, or an
+   * error when the approver is missing, not allowed, or has already voted.
+   */
+  function addVote(
+    pending: PendingTx,
+    kind: "approvals" | "rejections",
+    approver: string | undefined,
+  ): { votes: ApprovalVote[] } | { error: string } {
+    const who = approver?.trim();
+    if (!who) return { error: "Approver identity required (quorum tx)" };
+    if (pending.approvers?.length && !pending.approvers.includes(who)) {
+      return { error: `${who} is not an allowed approver for this tx` };
+    }
+    const voted = [...(pending.approvals ?? []), ...(pending.rejections ?? [])];
+    if (voted.some((v) => v.approver === who)) return { error: `${who} already voted on this tx` };
+    return { votes: [...(pending[kind] ?? []), { approver: who, at: Date.now() }] };
+  }
+
+  async function approveTx(
+    txId: string,
+    approver?: string,
+    code?: string,
+  ): Promise<
+    | { txHash: string; chainId: number }
+    | { signature: string; chainId: number }
+    | { status: "awaiting_approvals"; approvals: number; requiredApprovals: number }
+    | { error: string }
+  > {
+    const pending = await pendingStore.get(txId);
+    if (!pending) return { error: "Pending tx not found" };
+    if (pending.status !== "pending") return { error: "Tx status is " + pending.status };
+    // Expiration check: reject stale pending transactions
+    const age = Date.now() - pending.createdAt;
+    if (age > PENDING_TX_TTL_MS) {
+      await expirePending(pending);
       return { error: "Pending tx expired. Create a new transaction." };
     }
-    // Optimistic lock: mark as "approved" immediately to prevent double-approval.
-    // If another concurrent call already changed the status, this re-check catches it.
-    const freshCheck = await pendingStore.get(txId);
-    if (!freshCheck || freshCheck.status !== "pending") {
-      return { error: "Tx already processed (status: " + (freshCheck?.status ?? "unknown") + ")" };
+    // Record the vote and claim the tx ("approved") atomically to prevent double-approval.
+    const claim = await approvalMutex.run(async () => {
+      const fresh = await pendingStore.get(txId);
+      if (!fresh || fresh.status !== "pending") {
+        return { error: "Tx already processed (status: " + (fresh?.status ?? "unknown") + ")" };
+      }
+      // Invalid or repeated voters are turned away before they can use up code attempts.
+      const vote = fresh.requiredApprovals != null ? addVote(fresh, "approvals", approver) : null;
+      if (vote && "error" in vote) return vote;
+      // With codes enabled every manual approval needs one, even if issuing it failed.
+      if (approvalCode || fresh.approvalCodeExpiresAt != null) {
+        const failure = await checkApprovalCode(fresh, code);
+        if (failure) return failure;
+      }
+      // The nonce is taken here so txs get nonces in the order they were approved.
+      if (!vote || fresh.requiredApprovals == null) {
+        const reserved = await reserveNonce(fresh);
+        if ("error" in reserved) return reserved;
+        await pendingStore.update(txId, { status: "approved" });
+        return { approvals: 1, reservedNonce: reserved.nonce };
+      }
+      const met = vote.votes.length >= fresh.requiredApprovals;
+      const reserved = met ? await reserveNonce(fresh) : {};
+      if ("error" in reserved) return reserved;
+      await pendingStore.update(txId, {
+        approvals: vote.votes,
+        ...(met ? { status: "approved" as const } : {}),
+      });
+      return {
+        approvals: vote.votes.length,
+        requiredApprovals: fresh.requiredApprovals,
+        reservedNonce: reserved.nonce,
+      };
+    });
+    if ("error" in claim) {
+      if ("locked" in claim) await lockOutApprovalCode(pending);
+      return { error: claim.error };
+    }
+    if (claim.requiredApprovals != null) {
+      await audit.append({
+        action: "approval_recorded",
+        txId,
+        walletId: pending.walletId,
+        chainId: pending.chainId,
+        approver: approver?.trim(),
+      });
+      if (claim.approvals < claim.requiredApprovals) {
+        return {
+          status: "awaiting_approvals",
+          approvals: claim.approvals,
+          requiredApprovals: claim.requiredApprovals,
+        };
+      }
+    }
+    await approvalCodeStore.remove(txId);
+    await notify("approved", txId);
+    if (pending.typedData) return signPending(pending);
+    // Re-check against the current limits and spend; the tx's own reservation is replaced.
+    try {
+      const { pricing } = await evaluateRequest(policyRequestFromPending(pending), txId, {
+        recheck: true,
+        replaces: pending.replaces,
+      });
+      if (pricing.valueUsd != null) await pendingStore.update(txId, pricing);
+      return broadcastPending({ ...pending, ...pricing }, "manual", claim.reservedNonce);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      await pendingStore.update(txId, { status: "failed", error: message });
+      await dailySpendStore.release(txId);
+      if (claim.reservedNonce != null) {
+        await nonceManager.release(nonceKey(pending), claim.reservedNonce);
+      }
+      await notify("failed", txId);
+      return { error: message };
+    }
+  }
+
+  function nonceKey(tx: PendingTx): NonceKey {
+    return { walletId: tx.walletId, chainId: tx.chainId, address: tx.from };
+  }
+
+  /** Take the next local nonce for a tx that did not come with its own. Signatures need none. */
+  async function reserveNonce(tx: PendingTx): Promise<{ nonce?: number } | { error: string }> {
+    if (tx.nonce != null || tx.typedData) return {};
+    try {
+      return { nonce: await nonceManager.reserve(nonceKey(tx), getRpc(tx.chainId)) };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { error: `Could not reserve a nonce: ${message}` };
     }
-    await pendingStore.update(txId, { status: "approved" });
+  }
 
+  /**
+   * Sign and broadcast a tx already marked "approved", recording spend and audit entries.
+   * Txs without their own nonce use `reservedNonce`, or reserve one now; a nonce that was not
+   * broadcast is released as a gap for the next tx.
+   */
+  async function broadcastPending(
+    pending: PendingTx,
+    approval: "auto" | "manual",
+    reservedNonce?: number,
+  ): Promise<{ txHash: string; chainId: number } | { error: string }> {
+    const txId = pending.txId;
+    let managedNonce = pending.nonce == null ? reservedNonce : undefined;
     const privateKey = keychain.getPrivateKey(pending.walletId);
     if (!privateKey) {
       await pendingStore.update(txId, { status: "failed", error: "Cannot read wallet key" });
+      await dailySpendStore.release(txId);
+      if (managedNonce != null) await nonceManager.release(nonceKey(pending), managedNonce);
+      await notify("failed", txId);
       return { error: "Cannot read wallet key" };
     }
     const rpc = getRpc(pending.chainId);
     try {
+      if (pending.nonce == null && managedNonce == null) {
+        managedNonce = await nonceManager.reserve(nonceKey(pending), rpc);
+      }
       const txParams = {
         privateKeyHex: privateKey,
         chainId: pending.chainId,
@@ -532,16 +2181,28 @@ export function createWalletService(config: WalletServiceConfig): WalletService
         maxFeePerGas: pending.maxFeePerGas != null ? BigInt(pending.maxFeePerGas) : undefined,
         maxPriorityFeePerGas:
           pending.maxPriorityFeePerGas != null ? BigInt(pending.maxPriorityFeePerGas) : undefined,
-        nonce: pending.nonce,
+        nonce: pending.nonce ?? managedNonce,
         rpc,
       };
-      const { signedHex } = await buildAndSignTx(txParams);
-      const txHash = await rpc.sendRawTransaction(signedHex);
-      await pendingStore.update(txId, { status: "sent", txHash });
-      if (limits?.dailyLimit != null && limits.dailyLimit.trim() !== "") {
-        const today = getTodayUtc();
-        await dailySpendStore.addSpend(today, BigInt(pending.valueWei));
-      }
+      const signed = await buildAndSignTx(txParams);
+      const txHash = await rpc.sendRawTransaction(signed.signedHex);
+      await nonceManager.confirm(nonceKey(pending), signed.nonce);
+      // Keep the nonce and fees actually used so the tx can be sped up or cancelled later.
+      await pendingStore.update(txId, {
+        status: "sent",
+        txHash,
+        sentAt: Date.now(),
+        nonce: signed.nonce,
+        gasLimit: signed.gasLimit.toString(),
+        ...(signed.maxFeePerGas != null
+          ? {
+              maxFeePerGas: signed.maxFeePerGas.toString(),
+              maxPriorityFeePerGas: signed.maxPriorityFeePerGas?.toString(),
+            }
+          : {}),
+        ...(signed.gasPrice != null ? { gasPrice: signed.gasPrice.toString() } : {}),
+      });
+      await dailySpendStore.finalize(txId);
       await audit.append({
         action: "send_approved",
         txId,
@@ -551,29 +2212,131 @@ export function createWalletService(config: WalletServiceConfig): WalletService
         to: pending.to,
         valueWei: pending.valueWei,
         txHash,
+        approval,
       });
+      await notify("sent", txId);
       return { txHash, chainId: pending.chainId };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       await pendingStore.update(txId, { status: "failed", error: message });
+      await dailySpendStore.release(txId);
+      if (managedNonce != null) await nonceManager.release(nonceKey(pending), managedNonce);
       await audit.append({
         action: "send_failed",
         txId,
         walletId: pending.walletId,
         chainId: pending.chainId,
         error: message,
+        approval,
       });
+      await notify("failed", txId);
       return { error: message };
     }
   }
 
-  async function rejectTx(txId: string): Promise<{ ok: boolean; error?: string }> {
+  /**
+   * Verify the approval code for a tx (called under approvalMutex). Returns an error, flagged
+   * `locked` once the attempts are used up, or null when the code is valid.
+   */
+  async function checkApprovalCode(
+    pending: PendingTx,
+    code: string | undefined,
+  ): Promise<{ error: string; locked?: true } | null> {
+    const base = { txId: pending.txId, walletId: pending.walletId, chainId: pending.chainId };
+    if (!code?.trim()) {
+      return { error: "Approval code required: ask the user for the code sent to them for this tx" };
+    }
+    const check = await approvalCodeStore.verify(pending.txId, code);
+    if (check.ok) {
+      await audit.append({ action: "approval_code_verified", ...base });
+      return null;
+    }
+    await audit.append({
+      action: "approval_code_failed",
+      ...base,
+      reason: check.reason,
+      attemptsLeft: check.attemptsLeft,
+    });
+    if (check.reason === "locked") {
+      return { error: "Too many wrong approval codes; the tx was rejected", locked: true };
+    }
+    if (check.reason === "expired" || check.reason === "missing") {
+      return { error: "Approval code expired or not issued; re-send it with resendApprovalCode" };
+    }
+    return { error: `Wrong approval code (${check.attemptsLeft} attempts left)` };
+  }
+
+  /** Reject a tx whose approval code attempts are used up. */
+  async function lockOutApprovalCode(pending: PendingTx): Promise<void> {
+    const current = await pendingStore.get(pending.txId);
+    if (current?.status !== "pending") return;
+    await pendingStore.update(pending.txId, {
+      status: "rejected",
+      error: "Too many wrong approval codes",
+    });
+    await dailySpendStore.release(pending.txId);
+    await approvalCodeStore.remove(pending.txId);
+    await audit.append({
+      action: pending.typedData ? "typed_data_rejected" : "send_rejected",
+      txId: pending.txId,
+      walletId: pending.walletId,
+      chainId: pending.chainId,
+      to: pending.to,
+      valueWei: pending.valueWei,
+      reason: "Too many wrong approval codes",
+    });
+    await notify("rejected", pending.txId);
+  }
+
+  async function resendApprovalCode(
+    txId: string,
+  ): Promise<{ ok: boolean; error?: string; expiresAt?: number }> {
+    if (!approvalCode) return { ok: false, error: "Approval codes are not enabled" };
     const pending = await pendingStore.get(txId);
     if (!pending) return { ok: false, error: "Pending tx not found" };
     if (pending.status !== "pending") return { ok: false, error: "Tx status is " + pending.status };
-    await pendingStore.update(txId, { status: "rejected" });
+    const expiresAt = await approvalMutex.run(() => issueApprovalCode(pending));
+    if (expiresAt == null) return { ok: false, error: "Approval code delivery failed" };
+    return { ok: true, expiresAt };
+  }
+
+  async function rejectTx(
+    txId: string,
+    approver?: string,
+  ): Promise<{ ok: boolean; error?: string; cancelled?: boolean; rejections?: number }> {
+    const result = await approvalMutex.run(async () => {
+      const fresh = await pendingStore.get(txId);
+      if (!fresh) return { error: "Pending tx not found" };
+      if (fresh.status !== "pending") return { error: "Tx status is " + fresh.status };
+      if (fresh.requiredApprovals == null) {
+        await pendingStore.update(txId, { status: "rejected" });
+        return { pending: fresh, cancelled: true };
+      }
+      const vote = addVote(fresh, "rejections", approver);
+      if ("error" in vote) return vote;
+      const cancelled = vote.votes.length >= (fresh.rejectionsToCancel ?? 1);
+      await pendingStore.update(txId, {
+        rejections: vote.votes,
+        ...(cancelled ? { status: "rejected" as const } : {}),
+      });
+      return { pending: fresh, cancelled, rejections: vote.votes.length };
+    });
+    if ("error" in result) return { ok: false, error: result.error };
+    const pending = result.pending;
+    if (result.rejections != null) {
+      await audit.append({
+        action: "rejection_recorded",
+        txId,
+        walletId: pending.walletId,
+        chainId: pending.chainId,
+        approver: approver?.trim(),
+      });
+      if (!result.cancelled) return { ok: true, cancelled: false, rejections: result.rejections };
+    }
+    await dailySpendStore.release(txId);
+    await approvalCodeStore.remove(txId);
     await audit.append({
-      action: "send_rejected",
+      action: pending.typedData ? "typed_data_rejected" : "send_rejected",
       txId,
       walletId: pending.walletId,
       chainId: pending.chainId,
@@ -581,20 +2344,602 @@ export function createWalletService(config: WalletServiceConfig): WalletService
       to: pending.to,
       valueWei: pending.valueWei,
     });
-    return { ok: true };
+    await notify("rejected", txId);
+    return {
+      ok: true,
+      cancelled: true,
+      ...(result.rejections != null ? { rejections: result.rejections } : {}),
+    };
   }
 
   async function getPendingTx(txId: string): Promise<PendingTx | null> {
     return pendingStore.get(txId);
   }
 
+  // Receipt checks for one tx never overlap (on-demand refresh vs. background loop).
+  const receiptMutex = createMutex();
+
+  async function refreshTxStatus(txId: string): Promise<PendingTx | null> {
+    return receiptMutex.run(async () => {
+      const tx = await pendingStore.get(txId);
+      if (!tx || tx.status !== "sent" || !tx.txHash) return tx;
+      let check: ReceiptCheck;
+      try {
+        check = await checkSentTx(getRpc(tx.chainId), { ...tx, txHash: tx.txHash }, {
+          confirmations: config.chains[tx.chainId]?.confirmations ?? DEFAULT_CONFIRMATIONS,
+          dropAfterMs:
+            (config.receipts?.dropAfterSeconds ?? DEFAULT_DROP_AFTER_SECONDS) * 1000,
+        });
+      } catch {
+        // RPC trouble: keep the stored status and try again on the next check.
+        return tx;
+      }
+      return applyReceiptCheck(tx, check);
+    });
+  }
+
+  async function applyReceiptCheck(tx: PendingTx, check: ReceiptCheck): Promise<PendingTx | null> {
+    const base = { txId: tx.txId, walletId: tx.walletId, chainId: tx.chainId, txHash: tx.txHash };
+    if (check.status === "sent") {
+      const previous = tx.receipt;
+      if (previous && previous.blockHash !== check.receipt?.blockHash) {
+        await audit.append({
+          action: "tx_reorged",
+          ...base,
+          blockNumber: previous.blockNumber,
+          reason: check.receipt ? `Now in block ${check.receipt.blockNumber}` : "Receipt removed",
+        });
+      }
+      if (!previous && !check.receipt) return tx;
+      return pendingStore.update(tx.txId, { receipt: check.receipt });
+    }
+    if (check.status === "dropped") {
+      const updated = await pendingStore.update(tx.txId, {
+        status: "dropped",
+        error: check.reason,
+        receipt: undefined,
+      });
+      await audit.append({ action: "tx_dropped", ...base, reason: check.reason });
+      await notify("dropped", tx.txId);
+      // Hand the nonce out again unless a replacement is still trying to use it.
+      const others = await pendingStore.load();
+      const inUse = others.some(
+        (t) =>
+          t.txId !== tx.txId &&
+          t.walletId === tx.walletId &&
+          t.chainId === tx.chainId &&
+          t.nonce === tx.nonce &&
+          (t.status === "sent" || t.status === "pending" || t.status === "approved"),
+      );
+      if (tx.nonce != null && !inUse) await nonceManager.release(nonceKey(tx), tx.nonce);
+      return updated;
+    }
+    const updated = await pendingStore.update(tx.txId, {
+      status: check.status,
+      receipt: check.receipt,
+      ...(check.status === "reverted" ? { error: "Transaction reverted" } : {}),
+    });
+    await audit.append({
+      action: check.status === "confirmed" ? "tx_confirmed" : "tx_reverted",
+      ...base,
+      blockNumber: check.receipt.blockNumber,
+      gasUsed: check.receipt.gasUsed,
+      effectiveGasPrice: check.receipt.effectiveGasPrice,
+    });
+    await notify(check.status, tx.txId);
+    await settleReplacements(tx);
+    return (await pendingStore.get(tx.txId)) ?? updated;
+  }
+
+  async function trackSentTxs(): Promise<number> {
+    const sent = (await pendingStore.load()).filter((t) => t.status === "sent");
+    let settled = 0;
+    for (const tx of sent) {
+      const updated = await refreshTxStatus(tx.txId);
+      if (updated && updated.status !== "sent") settled++;
+    }
+    return settled;
+  }
+
   async function listPending(): Promise<PendingTx[]> {
+    await withBudgetLock(sweepExpired);
     const items = await pendingStore.load();
     return items.filter((t) => t.status === "pending");
   }
 
+  /**
+   * Audit entries with contact labels and primary names filled in for `to` / `spender`
+   * where missing.
+   */
   async function queryHistory(filter?: AuditLogFilter): Promise<AuditEntry[]> {
-    return audit.query(filter);
+    const entries = await audit.query(filter);
+    const contacts = await contactStore.load();
+    const labelOf = (address: string | undefined) =>
+      address ? contacts.find((c) => c.address.toLowerCase() === address.toLowerCase())?.label : undefined;
+    const lookups = new Map<string, { address: string; chainId: number }>();
+    for (const entry of entries) {
+      const chainId = entry.chainId ?? defaultChainId;
+      const candidates = [
+        { address: entry.to, known: entry.toName },
+        { address: entry.spender, known: entry.spenderName },
+      ];
+      for (const { address, known } of candidates) {
+        if (!address || known || !isAddress(address)) continue;
+        lookups.set(`${chainId}:${address.toLowerCase()}`, { address, chainId });
+      }
+    }
+    // Each distinct address is looked up once, a few at a time.
+    const names = new Map<string, string | null>();
+    const queue = [...lookups];
+    await Promise.all(
+      Array.from({ length: Math.min(NAME_LOOKUP_CONCURRENCY, queue.length) }, async () => {
+        for (let next = queue.shift(); next; next = queue.shift()) {
+          const [key, { address, chainId }] = next;
+          names.set(key, await nameResolver.lookupAddress(address, chainId));
+        }
+      }),
+    );
+    const nameOf = (address: string | undefined, chainId: number | undefined) =>
+      address ? names.get(`${chainId ?? defaultChainId}:${address.toLowerCase()}`) ?? undefined : undefined;
+    return entries.map((entry) => {
+      const toLabel = entry.toLabel ?? labelOf(entry.to);
+      const spenderLabel = entry.spenderLabel ?? labelOf(entry.spender);
+      const toName = entry.toName ?? nameOf(entry.to, entry.chainId);
+      const spenderName = entry.spenderName ?? nameOf(entry.spender, entry.chainId);
+      return {
+        ...entry,
+        ...(toLabel ? { toLabel } : {}),
+        ...(spenderLabel ? { spenderLabel } : {}),
+        ...(toName ? { toName } : {}),
+        ...(spenderName ? { spenderName } : {}),
+      };
+    });
+  }
+
+  async function lookupName(address: string, chainId?: number): Promise<string | null> {
+    if (!isAddress(address)) return null;
+    return nameResolver.lookupAddress(address, chainId ?? defaultChainId);
+  }
+
+  function tokenChainId(chainId: number | undefined): number {
+    const id = chainId ?? defaultChainId;
+    if (!Number.isInteger(id) || id <= 0) throw new Error("chainId must be a positive integer");
+    return id;
+  }
+
+  async function listTokens(params?: { chainId?: number; includeHidden?: boolean }): Promise<{
+    chainId: number;
+    tokens: TokenListing[];
+    listErrors?: Array<{ source: string; error: string }>;
+  }> {
+    const chainId = tokenChainId(params?.chainId);
+    const tokens = await tokenRegistry.list(chainId, { includeHidden: params?.includeHidden });
+    const listErrors = await tokenRegistry.listErrors();
+    return { chainId, tokens, ...(listErrors.length > 0 ? { listErrors } : {}) };
+  }
+
+  async function resolveToken(params: {
+    address: string;
+    chainId?: number;
+    publicClient?: PublicClient;
+  }): Promise<TokenListing | null> {
+    const chainId = tokenChainId(params.chainId);
+    const address = validateAddress(params.address, "token address");
+    const client = params.publicClient ?? (config.chains[chainId] ? getRpc(chainId).publicClient : undefined);
+    return tokenRegistry.resolve(chainId, address, client);
+  }
+
+  async function addToken(params: {
+    address: string;
+    chainId?: number;
+    symbol?: string;
+    decimals?: number;
+    name?: string;
+  }): Promise<TokenListing> {
+    const chainId = tokenChainId(params.chainId);
+    const address = validateAddress(params.address, "token address");
+    const symbol = params.symbol != null ? sanitizeInput(params.symbol) : undefined;
+    if (symbol != null && (!symbol || symbol.length > 32)) {
+      throw new Error("Token symbol must be 1-32 characters");
+    }
+    const { decimals: givenDecimals } = params;
+    if (givenDecimals != null && !(Number.isInteger(givenDecimals) && givenDecimals >= 0 && givenDecimals <= 255)) {
+      throw new Error("decimals must be an integer between 0 and 255");
+    }
+    const known =
+      symbol == null || givenDecimals == null
+        ? await resolveToken({ address, chainId }).catch(() => null)
+        : null;
+    const decimals = givenDecimals ?? known?.decimals;
+    if (decimals == null) {
+      throw new Error(`Could not read decimals of token ${address} on chain ${chainId}; pass \`decimals\``);
+    }
+    const name = params.name?.trim() || known?.name;
+    const entry = await tokenRegistry.addCustom({
+      chainId,
+      address,
+      symbol: symbol ?? known?.symbol ?? UNKNOWN_TOKEN_SYMBOL,
+      decimals,
+      ...(name ? { name } : {}),
+    });
+    await audit.append({ action: "token_added", chainId, tokenAddress: address, toLabel: entry.symbol });
+    return (await tokenRegistry.resolve(chainId, address)) ?? { ...entry, tracked: true };
+  }
+
+  async function removeToken(params: {
+    address: string;
+    chainId?: number;
+  }): Promise<{ ok: boolean; error?: string }> {
+    const chainId = tokenChainId(params.chainId);
+    const address = validateAddress(params.address, "token address");
+    if (!(await tokenRegistry.removeCustom(chainId, address))) {
+      return { ok: false, error: "Not a custom token; use wallet_hideToken to hide other tokens" };
+    }
+    await audit.append({ action: "token_removed", chainId, tokenAddress: address });
+    return { ok: true };
+  }
+
+  async function hideToken(params: {
+    address: string;
+    chainId?: number;
+    hidden?: boolean;
+    spam?: boolean;
+  }): Promise<{ ok: boolean; status: "hidden" | "spam" | "visible" }> {
+    const chainId = tokenChainId(params.chainId);
+    const address = validateAddress(params.address, "token address");
+    const status = params.hidden === false ? null : params.spam ? "spam" : "hidden";
+    const changed = await tokenRegistry.setFlag(chainId, address, status);
+    if (changed) {
+      await audit.append({
+        action: status ? "token_hidden" : "token_unhidden",
+        chainId,
+        tokenAddress: address,
+        ...(status === "spam" ? { reason: "spam" } : {}),
+      });
+    }
+    return { ok: changed, status: status ?? "visible" };
+  }
+
+  async function importTokenList(params: { url?: string; json?: unknown }): Promise<
+    Omit<ImportedTokenList, "tokens"> & { tokenCount: number; chainIds: number[] }
+  > {
+    const { tokens, ...list } = await tokenRegistry.importList(params);
+    await audit.append({ action: "token_list_imported", toLabel: list.name });
+    return {
+      ...list,
+      tokenCount: tokens.length,
+      chainIds: [...new Set(tokens.map((t) => t.chainId))].sort((a, b) => a - b),
+    };
+  }
+
+  async function getNftHoldings(params?: { walletId?: string; chainId?: number }): Promise<{
+    address: string;
+    collections: NftHolding[];
+  }> {
+    const address = await getAddress(params?.walletId);
+    if (!address) throw new Error(params?.walletId ? "Wallet not found" : "No default wallet");
+    const collections = (config.nfts ?? [])
+      .filter((c) => params?.chainId == null || c.chainId === params.chainId)
+      .map((c) => ({ ...c, address: validateAddress(c.address, "collection address") }));
+    const chainIds = [...new Set(collections.map((c) => c.chainId))];
+    const perChain = await Promise.all(
+      chainIds.map(async (chainId): Promise<NftHolding[]> => {
+        const onChain = collections.filter((c) => c.chainId === chainId);
+        try {
+          return await readNftHoldings(getRpc(chainId).publicClient, address, onChain);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          return onChain.map((c) => ({
+            chainId,
+            address: c.address,
+            standard: c.standard,
+            ...(c.name ? { name: c.name } : {}),
+            tokens: [],
+            error,
+          }));
+        }
+      }),
+    );
+    return { address, collections: perChain.flat() };
+  }
+
+  async function addContact(params: {
+    label: string;
+    address: string;
+    chains?: number[];
+    notes?: string;
+  }): Promise<Contact> {
+    const label = sanitizeInput(params.label);
+    if (!label) throw new Error("Contact label is required");
+    if (label.toLowerCase().startsWith("0x")) throw new Error("Contact label must not start with 0x");
+    if (label.length > 64) throw new Error("Contact label must be at most 64 characters");
+    const address = validateAddress(params.address, "contact address");
+    const chains = params.chains?.filter((c) => Number.isInteger(c) && c > 0);
+    const notes = params.notes?.trim();
+    const contact: Contact = {
+      label,
+      address,
+      ...(chains && chains.length > 0 ? { chains } : {}),
+      ...(notes ? { notes } : {}),
+      createdAt: Date.now(),
+    };
+    await contactStore.add(contact);
+    await audit.append({ action: "contact_added", to: address, toLabel: label });
+    return contact;
+  }
+
+  async function listContacts(): Promise<Contact[]> {
+    const contacts = await contactStore.load();
+    return contacts.sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  async function removeContact(label: string): Promise<{ ok: boolean; error?: string }> {
+    const contact = await contactStore.findByLabel(label);
+    if (!contact) return { ok: false, error: "Contact not found" };
+    await contactStore.remove(contact.label);
+    await audit.append({ action: "contact_removed", to: contact.address, toLabel: contact.label });
+    return { ok: true };
+  }
+
+  async function registerContractAbi(params: {
+    label: string;
+    address: string;
+    chainId?: number;
+    abi: Abi | string[] | string;
+  }): Promise<ContractAbi> {
+    const label = sanitizeInput(params.label);
+    if (!label) throw new Error("Contract label is required");
+    if (label.toLowerCase().startsWith("0x")) throw new Error("Contract label must not start with 0x");
+    if (label.length > 64) throw new Error("Contract label must be at most 64 characters");
+    const address = validateAddress(params.address, "contract address");
+    if (params.chainId != null && (!Number.isInteger(params.chainId) || params.chainId <= 0)) {
+      throw new Error("chainId must be a positive integer");
+    }
+    const abi = parseAbiInput(params.abi);
+    if (abiFunctions(abi).length === 0) throw new Error("ABI has no functions");
+    const entry: ContractAbi = {
+      label,
+      address,
+      ...(params.chainId != null ? { chainId: params.chainId } : {}),
+      abi,
+      createdAt: Date.now(),
+    };
+    await abiStore.put(entry);
+    await audit.append({
+      action: "abi_registered",
+      to: address,
+      toLabel: label,
+      ...(entry.chainId != null ? { chainId: entry.chainId } : {}),
+    });
+    return entry;
+  }
+
+  async function listContractAbis(): Promise<
+    Array<Omit<ContractAbi, "abi"> & { functionCount: number }>
+  > {
+    const entries = await abiStore.load();
+    return entries
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(({ abi, ...rest }) => ({ ...rest, functionCount: abiFunctions(abi).length }));
+  }
+
+  /** Registry entry by label or address; a label bound to another chain is an error. */
+  async function findContractAbi(contract: string, chainId?: number): Promise<ContractAbi> {
+    const input = sanitizeInput(contract);
+    if (!input) throw new Error("contract is required");
+    const entry = input.startsWith("0x")
+      ? await abiStore.findByAddress(validateAddress(input, "contract address"), chainId)
+      : await abiStore.findByLabel(input);
+    if (!entry) throw new Error(`No ABI registered for "${input}"`);
+    if (chainId != null && entry.chainId != null && entry.chainId !== chainId) {
+      throw new Error(`Contract "${entry.label}" is registered on chain ${entry.chainId}, not ${chainId}`);
+    }
+    return entry;
+  }
+
+  async function getContractFunctions(
+    contract: string,
+    chainId?: number,
+  ): Promise<Omit<ContractAbi, "abi"> & { functions: AbiFunctionSummary[] }> {
+    const { abi, ...entry } = await findContractAbi(contract, chainId);
+    return { ...entry, functions: abiFunctions(abi).map(summarizeFunction) };
+  }
+
+  async function removeContractAbi(label: string): Promise<{ ok: boolean; error?: string }> {
+    const entry = await abiStore.findByLabel(label);
+    if (!entry) return { ok: false, error: "Contract ABI not found" };
+    await abiStore.remove(entry.label);
+    await audit.append({ action: "abi_removed", to: entry.address, toLabel: entry.label });
+    return { ok: true };
+  }
+
+  async function encodeContractCall(params: {
+    contract: string;
+    chainId?: number;
+    functionName: string;
+    args?: CallArgs;
+  }): Promise<{ to: string; label: string; data: Hex; signature: string; function: AbiFunction }> {
+    const entry = await findContractAbi(params.contract, params.chainId);
+    const fn = selectFunction(entry.abi, params.functionName, params.args);
+    const data = encodeCall(fn, params.args);
+    return {
+      to: entry.address,
+      label: entry.label,
+      data,
+      signature: summarizeFunction(fn).signature,
+      function: fn,
+    };
+  }
+
+  async function decodeCall(params: {
+    data: string;
+    to?: string;
+    chainId?: number;
+  }): Promise<DecodedCall | null> {
+    const data = sanitizeInput(params.data);
+    if (!/^0x[0-9a-fA-F]*$/.test(data)) throw new Error("data must be hex (0x...)");
+    if (data.length < 10) throw new Error("data is shorter than a function selector");
+    const to = params.to ? validateAddress(params.to, "target address") : undefined;
+    return calldataDecoder.decode({ chainId: params.chainId ?? defaultChainId, to, data });
+  }
+
+  async function getLogs(params: {
+    chainId?: number;
+    address?: string;
+    contract?: string;
+    event?: string;
+    args?: Record<string, unknown>;
+    topics?: Array<string | string[] | null>;
+    fromBlock?: number | "latest";
+    toBlock?: number | "latest";
+    limit?: number;
+  }): Promise<{
+    chainId: number;
+    address?: string;
+    event?: string;
+    fromBlock: string;
+    toBlock: string;
+    count: number;
+    truncated: boolean;
+    logs: DecodedLog[];
+  }> {
+    const chainId = params.chainId ?? defaultChainId;
+    const rpc = getRpc(chainId);
+    const entry = params.contract ? await findContractAbi(params.contract, chainId) : null;
+    const address = entry?.address ?? (params.address ? validateAddress(params.address, "address") : undefined);
+    if (params.event && params.topics) throw new Error("Pass either event or topics, not both");
+    if (params.args && !params.event) throw new Error("args needs an event whose indexed params it filters");
+    const event = params.event ? resolveEvent(params.event, entry?.abi) : undefined;
+    const topics = event ? eventTopics(event, params.args) : (params.topics ?? []);
+    const limit = params.limit ?? DEFAULT_LOG_LIMIT;
+    if (!Number.isInteger(limit) || limit <= 0 || limit > MAX_LOG_LIMIT) {
+      throw new Error(`limit must be between 1 and ${MAX_LOG_LIMIT}`);
+    }
+
+    const block = (value: number | "latest" | undefined, name: string) => {
+      if (value == null || value === "latest") return value;
+      if (!Number.isInteger(value) || value < 0) throw new Error(`${name} must be a block number or "latest"`);
+      return BigInt(value);
+    };
+    const fromInput = block(params.fromBlock, "fromBlock");
+    const toInput = block(params.toBlock, "toBlock");
+    const latest =
+      typeof fromInput === "bigint" && typeof toInput === "bigint" ? 0n : await rpc.getBlockNumber();
+    const range = BigInt(DEFAULT_LOG_BLOCK_RANGE - 1);
+    let fromBlock = fromInput === "latest" ? latest : fromInput;
+    let toBlock = toInput === "latest" ? latest : toInput;
+    if (toBlock === undefined) {
+      toBlock = fromBlock === undefined || fromBlock + range > latest ? latest : fromBlock + range;
+    }
+    if (fromBlock === undefined) fromBlock = toBlock > range ? toBlock - range : 0n;
+    if (fromBlock > toBlock) throw new Error("fromBlock is after toBlock");
+    if (toBlock - fromBlock + 1n > BigInt(MAX_LOG_BLOCK_RANGE)) {
+      throw new Error(`Block range too large (max ${MAX_LOG_BLOCK_RANGE} blocks)`);
+    }
+
+    const raw = (await rpc.publicClient.request({
+      method: "eth_getLogs",
+      params: [
+        {
+          ...(address ? { address: address as `0x${string}` } : {}),
+          topics: topics as Array<Hex | Hex[] | null>,
+          fromBlock: numberToHex(fromBlock),
+          toBlock: numberToHex(toBlock),
+        },
+      ],
+    })) as unknown as RawLog[];
+    const abis = await registeredAbis(chainId);
+    const logs = raw.slice(-limit).map((log) =>
+      decodeLog(log, [
+        ...(event ? [{ source: "query", events: [event] }] : []),
+        ...abis
+          .filter((a) => a.address == null || a.address.toLowerCase() === log.address.toLowerCase())
+          .map((a) => ({ source: a.label ?? "registered", events: abiEvents(parseAbiInput(a.abi)) })),
+      ]),
+    );
+    return {
+      chainId,
+      ...(address ? { address } : {}),
+      ...(event ? { event: params.event } : {}),
+      fromBlock: fromBlock.toString(),
+      toBlock: toBlock.toString(),
+      count: logs.length,
+      truncated: raw.length > logs.length,
+      logs,
+    };
+  }
+
+  function budgetLine(
+    totals: { spent: bigint; reserved: bigint },
+    limit: bigint | undefined,
+    format: (v: bigint) => string,
+  ): BudgetLine {
+    const used = totals.spent + totals.reserved;
+    return {
+      ...(limit != null ? { limit: format(limit) } : {}),
+      spent: format(totals.spent),
+      reserved: format(totals.reserved),
+      ...(limit != null ? { remaining: format(limit > used ? limit - used : 0n) } : {}),
+    };
+  }
+
+  async function getNonceState(
+    params: { walletId?: string; chainId?: number } = {},
+  ): Promise<NonceState & { latestCount: number; pendingCount: number }> {
+    const state = await stateStore.load();
+    const walletId = params.walletId ?? state.defaultWalletId;
+    if (!walletId) throw new Error("No default wallet");
+    const meta = state.wallets[walletId];
+    if (!meta) throw new Error("Wallet not found");
+    const chainId = params.chainId ?? defaultChainId;
+    return nonceManager.sync({ walletId, chainId, address: meta.address }, getRpc(chainId));
+  }
+
+  async function getSpendBudget(walletIdParam?: string): Promise<SpendBudget> {
+    const state = await stateStore.load();
+    const walletId = walletIdParam ?? state.defaultWalletId;
+    if (!walletId) throw new Error("No default wallet");
+    if (!state.wallets[walletId]) throw new Error("Wallet not found");
+    await withBudgetLock(sweepExpired);
+    const since = getWindowStart(spendWindow);
+    const native: SpendBudget["native"] = [];
+    for (const chainId of Object.keys(config.chains).map(Number)) {
+      const { dailyLimit } = resolveWeiLimits(limits, chainId);
+      const totals = await dailySpendStore.getTotals({ walletId, chainId, asset: "native" }, since);
+      const limit = dailyLimit != null ? BigInt(dailyLimit) : undefined;
+      native.push({ chainId, ...budgetLine(totals, limit, (v) => v.toString()) });
+    }
+    const tokens: SpendBudget["tokens"] = [];
+    for (const tokenLimit of limits?.tokenLimits ?? []) {
+      const totals = await dailySpendStore.getTotals(
+        { walletId, chainId: tokenLimit.chainId, asset: tokenLimit.token },
+        since,
+      );
+      const daily = tokenLimit.dailyLimit?.trim();
+      const limit = daily ? parseUnits(daily, tokenLimit.decimals) : undefined;
+      tokens.push({
+        chainId: tokenLimit.chainId,
+        token: tokenLimit.token,
+        ...budgetLine(totals, limit, (v) => formatUnits(v, tokenLimit.decimals)),
+      });
+    }
+    let usd: BudgetLine | undefined;
+    if (hasUsdLimits) {
+      const totals = await dailySpendStore.getTotals({ walletId, asset: "usd" }, since);
+      const daily = limits?.dailyLimitUsd?.trim();
+      usd = budgetLine(totals, daily ? parseUnits(daily, USD_DECIMALS) : undefined, formatUsd);
+    }
+    return {
+      walletId,
+      window: {
+        type: spendWindow?.type ?? "calendar",
+        ...(spendWindow?.type !== "rolling" ? { timezone: spendWindow?.timezone ?? "UTC" } : {}),
+        since: new Date(since).toISOString(),
+      },
+      native,
+      tokens,
+      ...(usd ? { usd } : {}),
+    };
   }
 
   return {
@@ -609,11 +2954,40 @@ export function createWalletService(config: WalletServiceConfig): WalletService
     requestSend,
     requestErc20Approve,
     requestErc20Transfer,
+    requestErc721Transfer,
+    requestErc1155Transfer,
+    requestSetApprovalForAll,
+    requestSignTypedData,
     requestContractCall,
+    requestSpeedUp: (params) => requestReplacement("speed_up", params),
+    requestCancel: (params) => requestReplacement("cancel", params),
     approveTx,
     rejectTx,
+    resendApprovalCode,
     getPendingTx,
+    refreshTxStatus,
+    trackSentTxs,
     listPending,
     queryHistory,
+    getSpendBudget,
+    getNonceState,
+    addContact,
+    listContacts,
+    removeContact,
+    registerContractAbi,
+    listContractAbis,
+    getContractFunctions,
+    removeContractAbi,
+    encodeContractCall,
+    decodeCall,
+    getLogs,
+    lookupName,
+    listTokens,
+    resolveToken,
+    addToken,
+    removeToken,
+    hideToken,
+    importTokenList,
+    getNftHoldings,
   };
 }
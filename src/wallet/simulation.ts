@@ -0,0 +1,182 @@
+/**
+ * Pre-flight simulation of a tx at request time: `eth_call` for success or the revert reason,
+ * `estimateGas`, and the worst-case fee and total cost the approver should expect.
+ */
+
+import {
+  BaseError,
+  decodeErrorResult,
+  ExecutionRevertedError,
+  formatEther,
+  RawContractError,
+  type Hex,
+} from "viem";
+
+import type { AssetDiff } from "./asset-diff.js";
+import type { RpcClient } from "./rpc.js";
+import { estimateMaxFeePerGas, GAS_LIMIT_BUFFER } from "./tx-builder.js";
+
+/** `wallets.defaults.spending.simulation`. */
+export type SimulationConfig = {
+  /** Simulate every request (default true). */
+  enabled?: boolean;
+  /** Deny requests whose simulation reverts instead of flagging them (default false). */
+  blockOnRevert?: boolean;
+  /**
+   * Preview asset changes with `debug_traceCall` on the chain's RPC when the chain has no
+   * `forkRpcUrl` (default false; needs a node with the debug API).
+   */
+  traceCall?: boolean;
+};
+
+export type TxSimulation = {
+  /** "error" when the simulation itself could not run (e.g. RPC failure). */
+  status: "success" | "reverted" | "error";
+  revertReason?: string;
+  error?: string;
+  /** `estimateGas` result. */
+  gasEstimate?: string;
+  /** Gas limit the tx will be signed with: the requested one, or the estimate plus a buffer. */
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  /** gasLimit × maxFeePerGas, in wei and in native units. */
+  maxFeeWei?: string;
+  maxFee?: string;
+  /** value + maxFee, in wei and in native units. */
+  totalCostWei?: string;
+  totalCost?: string;
+  /** What leaves the wallet and what comes back, when a fork or trace backend is available. */
+  assetDiff?: AssetDiff;
+  simulatedAt: number;
+};
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function",
+};
+
+/** Human-readable reason for revert data: Error(string), Panic(uint256) or a custom error selector. */
+export function decodeRevertReason(data: string | undefined): string {
+  if (!data || data === "0x") return "execution reverted without a reason";
+  try {
+    const decoded = decodeErrorResult({ data: data as Hex });
+    if (decoded.errorName === "Error") return String(decoded.args?.[0] ?? "");
+    if (decoded.errorName === "Panic") {
+      const code = Number(decoded.args?.[0] ?? 0);
+      return `panic 0x${code.toString(16)} (${PANIC_REASONS[code] ?? "unknown"})`;
+    }
+  } catch {
+    // Not a built-in error.
+  }
+  return `custom error ${data.slice(0, 10)}`;
+}
+
+/** Revert data carried by the error chain (RawContractError or the node's JSON-RPC error). */
+function revertDataOf(err: BaseError): string | undefined {
+  const raw = err.walk((e) => e instanceof RawContractError);
+  if (raw instanceof RawContractError) {
+    return typeof raw.data === "object" ? raw.data.data : raw.data;
+  }
+  const withData = err.walk((e) => {
+    const data = (e as { data?: unknown }).data;
+    return typeof data === "string" && data.startsWith("0x");
+  });
+  return (withData as { data?: string } | null)?.data;
+}
+
+/** Revert reason when `err` is an execution revert; null for other failures (RPC, network). */
+function revertReasonOf(err: unknown): string | null {
+  if (!(err instanceof BaseError)) return null;
+  const data = revertDataOf(err);
+  if (data != null) return decodeRevertReason(data);
+  const reverted = err.walk((e) => e instanceof ExecutionRevertedError);
+  if (reverted instanceof ExecutionRevertedError) {
+    return reverted.details?.replace(/^execution reverted:?\s*/i, "") || "execution reverted";
+  }
+  return null;
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof BaseError) return err.shortMessage;
+  return err instanceof Error ? err.message : String(err);
+}
+
+export async function simulateTx(
+  rpc: RpcClient,
+  tx: {
+    from: string;
+    to: string;
+    valueWei: bigint;
+    data?: string;
+    gasLimit?: bigint;
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+  },
+): Promise<TxSimulation> {
+  const simulatedAt = Date.now();
+  const call = { from: tx.from, to: tx.to, value: tx.valueWei, data: tx.data };
+  try {
+    await rpc.call(call);
+  } catch (err) {
+    const revertReason = revertReasonOf(err);
+    return revertReason != null
+      ? { status: "reverted", revertReason, simulatedAt }
+      : { status: "error", error: errorMessage(err), simulatedAt };
+  }
+  let gasEstimate: bigint;
+  try {
+    gasEstimate = await rpc.estimateGas(call);
+  } catch (err) {
+    // Some reverts only show up with the gas limit applied by estimateGas.
+    const revertReason = revertReasonOf(err);
+    return revertReason != null
+      ? { status: "reverted", revertReason, simulatedAt }
+      : { status: "success", error: `Gas estimation failed: ${errorMessage(err)}`, simulatedAt };
+  }
+  const gasLimit = tx.gasLimit ?? gasEstimate + GAS_LIMIT_BUFFER;
+  const result: TxSimulation = {
+    status: "success",
+    gasEstimate: gasEstimate.toString(),
+    gasLimit: gasLimit.toString(),
+    simulatedAt,
+  };
+  try {
+    const maxFeePerGas = tx.maxFeePerGas ?? tx.gasPrice ?? (await estimateMaxFeePerGas(rpc));
+    const maxFeeWei = gasLimit * maxFeePerGas;
+    const totalCostWei = tx.valueWei + maxFeeWei;
+    return {
+      ...result,
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxFeeWei: maxFeeWei.toString(),
+      maxFee: formatEther(maxFeeWei),
+      totalCostWei: totalCostWei.toString(),
+      totalCost: formatEther(totalCostWei),
+    };
+  } catch (err) {
+    return { ...result, error: `Fee estimation failed: ${errorMessage(err)}` };
+  }
+}
+
+/** One-line summary for approvers and tool output. */
+export function formatSimulation(simulation: TxSimulation | undefined): string | undefined {
+  if (!simulation) return undefined;
+  if (simulation.status === "reverted") {
+    return `Simulation reverted: ${simulation.revertReason ?? "unknown reason"}`;
+  }
+  if (simulation.status === "error") {
+    return `Simulation unavailable: ${simulation.error ?? "unknown error"}`;
+  }
+  const parts = ["Simulation succeeded"];
+  if (simulation.gasEstimate) parts.push(`gas ~${simulation.gasEstimate}`);
+  if (simulation.maxFee) parts.push(`max fee ${simulation.maxFee}`);
+  if (simulation.totalCost) parts.push(`max total cost ${simulation.totalCost} (native units)`);
+  if (simulation.error) parts.push(simulation.error);
+  return parts.join("; ");
+}
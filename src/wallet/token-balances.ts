@@ -1,10 +1,12 @@
 /**
- * Read-only ERC20 balanceOf for known tokens per chain.
+ * Read-only ERC20 balanceOf for known tokens per chain, batched through Multicall3. The built-in list is the base of the
+ * token registry (token-registry.ts).
  */
 
-import type { Address } from "viem";
 import { parseAbi, type PublicClient } from "viem";
 
+import { readContracts } from "./multicall.js";
+
 const ERC20_BALANCE_ABI = parseAbi(["function balanceOf(address account) view returns (uint256)"]);
 
 export type KnownToken = {
@@ -25,7 +27,7 @@ export const KNOWN_TOKENS_BY_CHAIN: Record<number, KnownToken[]> = {
     { address: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", symbol: "WETH", decimals: 18 },
     { address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", symbol: "USDC", decimals: 6 },
     { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", symbol: "USDT", decimals: 6 },
-    { address: "0x6B175474E89094C44Da98b954Eedeac495271d0F", symbol: "DAI", decimals: 18 },
+    { address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", decimals: 18 },
     { address: "0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599", symbol: "WBTC", decimals: 8 },
   ],
   11155111: [
@@ -49,38 +51,36 @@ export const KNOWN_TOKENS_BY_CHAIN: Record<number, KnownToken[]> = {
   ],
 };
 
+/** Non-zero balances of `tokens` (default: the built-in tokens of the chain). */
 export async function getTokenBalances(
   publicClient: PublicClient,
   chainId: number,
   walletAddress: string,
+  tokens: KnownToken[] | undefined = KNOWN_TOKENS_BY_CHAIN[chainId],
 ): Promise<TokenBalance[]> {
-  const tokens = KNOWN_TOKENS_BY_CHAIN[chainId];
   if (!tokens || tokens.length === 0) return [];
 
-  const wallet = (walletAddress.startsWith("0x") ? walletAddress : "0x" + walletAddress) as Address;
-  const results: TokenBalance[] = [];
-
-  for (const token of tokens) {
-    const addr = (token.address.startsWith("0x") ? token.address : "0x" + token.address) as Address;
-    try {
-      const balance = await publicClient.readContract({
-        address: addr,
-        abi: ERC20_BALANCE_ABI,
-        functionName: "balanceOf",
-        args: [wallet],
-      });
-      if (balance > 0n) {
-        results.push({
-          tokenAddress: token.address,
-          symbol: token.symbol,
-          decimals: token.decimals,
-          balanceWei: balance.toString(),
-        });
-      }
-    } catch {
-      // Skip token if RPC fails
-    }
-  }
-
-  return results;
+  const wallet = walletAddress.startsWith("0x") ? walletAddress : "0x" + walletAddress;
+  // One Multicall3 call for all tokens; tokens whose read fails are skipped.
+  const balances = await readContracts(
+    publicClient,
+    tokens.map((token) => ({
+      address: token.address.startsWith("0x") ? token.address : "0x" + token.address,
+      abi: ERC20_BALANCE_ABI,
+      functionName: "balanceOf",
+      args: [wallet],
+    })),
+  );
+  return tokens.flatMap((token, i) => {
+    const read = balances[i];
+    if (read.status !== "success" || typeof read.result !== "bigint" || read.result === 0n) return [];
+    return [
+      {
+        tokenAddress: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        balanceWei: read.result.toString(),
+      },
+    ];
+  });
 }
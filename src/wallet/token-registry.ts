@@ -0,0 +1,473 @@
+/**
+ * Token registry: built-in tokens, config entries and token lists (Uniswap token-list JSON)
+ * merged with per-peer custom tokens, hidden / spam flags and metadata discovered on-chain
+ * (tokens.json next to state.json).
+ */
+
+import dns from "node:dns";
+import fs from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import path from "node:path";
+import { getAddress, isAddress, parseAbi, type PublicClient } from "viem";
+
+import { readContracts } from "./multicall.js";
+import { KNOWN_TOKENS_BY_CHAIN } from "./token-balances.js";
+
+const TOKENS_FILENAME = "tokens.json";
+/** Symbol of discovered tokens whose contract has no usable symbol(). */
+export const UNKNOWN_TOKEN_SYMBOL = "UNKNOWN";
+const LIST_FETCH_TIMEOUT_MS = 10_000;
+/** Token lists larger than this are refused (the big public lists are well below it). */
+const MAX_LIST_BYTES = 10 * 1024 * 1024;
+
+/** Loopback, private, link-local, CGNAT, multicast and reserved ranges lists are never fetched from. */
+const NON_PUBLIC_RANGES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_RANGES.addSubnet(net, prefix, "ipv6");
+}
+
+const ERC20_METADATA_ABI = parseAbi([
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+]);
+
+/**
+ * Where an entry comes from, in increasing precedence (custom wins). Lists only add tokens that
+ * are otherwise unknown, so a list cannot rename a built-in or config token.
+ */
+export type TokenSource = "chain" | "list" | "builtin" | "config" | "custom";
+
+export type TokenEntry = {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+  logoURI?: string;
+  source: TokenSource;
+  /** Token list the entry comes from. */
+  list?: string;
+};
+
+export type TokenListing = TokenEntry & {
+  /** Included in balance scans: built-in, config and custom tokens that are not hidden. */
+  tracked: boolean;
+  hidden?: boolean;
+  spam?: boolean;
+};
+
+export type TokenConfigEntry = {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+};
+
+export type TokenRegistryConfig = {
+  /** Extra tokens, tracked in balances like the built-in ones. */
+  custom?: TokenConfigEntry[];
+  /** Token lists to load at startup: file paths or http(s) URLs. */
+  lists?: string[];
+  /** Hosts importList may fetch from (default: any public host). */
+  importHosts?: string[];
+  /** Tokens hidden from balances for every peer (`chainId` unset: every chain). */
+  hidden?: Array<{ chainId?: number; address: string }>;
+};
+
+export type TokenFlag = {
+  chainId: number;
+  address: string;
+  status: "hidden" | "spam";
+  createdAt: number;
+};
+
+export type ImportedTokenList = {
+  name: string;
+  /** URL or path it was imported from; unset for inline JSON. */
+  source?: string;
+  version?: string;
+  importedAt: number;
+  tokens: TokenEntry[];
+};
+
+type TokenState = {
+  custom: TokenEntry[];
+  flags: TokenFlag[];
+  lists: ImportedTokenList[];
+  /** Metadata read from the token contracts, so each is only asked once. */
+  discovered: TokenEntry[];
+};
+
+export type TokenRegistry = {
+  dir: string;
+  /** Entry for a token, discovering (and caching) symbol / decimals / name on-chain when unknown. */
+  resolve(chainId: number, address: string, client?: PublicClient): Promise<TokenListing | null>;
+  /** Every known token on the chain, hidden ones only when asked. */
+  list(chainId: number, options?: { includeHidden?: boolean }): Promise<TokenListing[]>;
+  /** Adds or replaces a per-peer custom token. */
+  addCustom(entry: Omit<TokenEntry, "source" | "list">): Promise<TokenEntry>;
+  /** Returns false when the token is not a custom token. */
+  removeCustom(chainId: number, address: string): Promise<boolean>;
+  /** Hide or flag a token as spam; status null clears the flag. Returns false when nothing changed. */
+  setFlag(chainId: number, address: string, status: TokenFlag["status"] | null): Promise<boolean>;
+  /** Load a token list from an http(s) URL or inline JSON; a list with the same name is replaced. */
+  importList(input: { url?: string; json?: unknown }): Promise<ImportedTokenList>;
+  /** Config token lists that could not be loaded, with the reason. */
+  listErrors(): Promise<Array<{ source: string; error: string }>>;
+};
+
+function keyOf(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+function isDecimals(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 255;
+}
+
+/**
+ * Tokens of a token list (https://tokenlists.org). Entries with a bad address or decimals are
+ * skipped; a document without a `tokens` array is an error.
+ */
+export function parseTokenList(
+  json: unknown,
+  source?: string,
+): Omit<ImportedTokenList, "importedAt"> {
+  if (!json || typeof json !== "object" || !Array.isArray((json as { tokens?: unknown }).tokens)) {
+    throw new Error("Token list must be a JSON object with a `tokens` array");
+  }
+  const doc = json as {
+    name?: unknown;
+    version?: { major?: number; minor?: number; patch?: number };
+    tokens: Array<Record<string, unknown>>;
+  };
+  const name = typeof doc.name === "string" && doc.name.trim() ? doc.name.trim() : (source ?? "Token list");
+  const tokens: TokenEntry[] = [];
+  for (const t of doc.tokens) {
+    if (!t || typeof t !== "object") continue;
+    const { chainId, address, symbol, decimals } = t;
+    if (typeof chainId !== "number" || !Number.isInteger(chainId) || chainId <= 0) continue;
+    if (typeof address !== "string" || !isAddress(address, { strict: false })) continue;
+    if (typeof symbol !== "string" || !symbol.trim() || !isDecimals(decimals)) continue;
+    tokens.push({
+      chainId,
+      address: getAddress(address),
+      symbol: symbol.trim(),
+      decimals,
+      ...(typeof t.name === "string" && t.name.trim() ? { name: t.name.trim() } : {}),
+      ...(typeof t.logoURI === "string" ? { logoURI: t.logoURI } : {}),
+      source: "list",
+      list: name,
+    });
+  }
+  const v = doc.version;
+  return {
+    name,
+    ...(source ? { source } : {}),
+    ...(v && typeof v.major === "number" ? { version: `${v.major}.${v.minor ?? 0}.${v.patch ?? 0}` } : {}),
+    tokens,
+  };
+}
+
+function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return !NON_PUBLIC_RANGES.check(mapped, "ipv4");
+  return !NON_PUBLIC_RANGES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/** dns.lookup that fails for non-public addresses, checked at connect time (no DNS rebinding). */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 4);
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to a non-public address (${blocked.address})`), "", 4);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0]?.address ?? "", addresses[0]?.family ?? 4);
+  });
+};
+
+/**
+ * GET a JSON document of at most MAX_LIST_BYTES. Redirects are not followed. With
+ * `publicOnly`, hosts that are (or resolve to) loopback, private or link-local addresses
+ * are refused.
+ */
+function fetchJson(url: string, publicOnly: boolean): Promise<unknown> {
+  const target = new URL(url);
+  const host = target.hostname.replace(/^\[|\]$/g, "");
+  if (publicOnly && isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new Error(`${url} points to a non-public address`));
+  }
+  const client = target.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(
+      target,
+      {
+        headers: { accept: "application/json" },
+        signal: AbortSignal.timeout(LIST_FETCH_TIMEOUT_MS),
+        ...(publicOnly ? { lookup: publicOnlyLookup } : {}),
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status < 200 || status >= 300) {
+          res.resume();
+          reject(new Error(`Fetching ${url} failed: HTTP ${status}`));
+          return;
+        }
+        if (Number(res.headers["content-length"] ?? 0) > MAX_LIST_BYTES) {
+          res.destroy();
+          reject(new Error(`${url} is larger than ${MAX_LIST_BYTES} bytes`));
+          return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        res.on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > MAX_LIST_BYTES) {
+            res.destroy();
+            reject(new Error(`${url} is larger than ${MAX_LIST_BYTES} bytes`));
+            return;
+          }
+          chunks.push(chunk);
+        });
+        res.on("error", reject);
+        res.on("end", () => {
+          try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+          } catch {
+            reject(new Error(`${url} is not valid JSON`));
+          }
+        });
+      },
+    );
+    req.on("error", reject);
+  });
+}
+
+/** Config lists may be local files or any URL; imported lists must be public http(s) URLs. */
+async function fetchTokenList(source: string, publicOnly = false): Promise<unknown> {
+  if (/^https?:\/\//i.test(source)) return fetchJson(source, publicOnly);
+  const raw = await fs.readFile(source, "utf8");
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${source} is not valid JSON`);
+  }
+}
+
+export function createTokenRegistry(walletsDir: string, config?: TokenRegistryConfig): TokenRegistry {
+  const filePath = path.join(walletsDir, TOKENS_FILENAME);
+  // Config lists are loaded once per process.
+  let configLists: Promise<{ lists: ImportedTokenList[]; errors: Array<{ source: string; error: string }> }> | null =
+    null;
+
+  function loadConfigLists() {
+    configLists ??= (async () => {
+      const lists: ImportedTokenList[] = [];
+      const errors: Array<{ source: string; error: string }> = [];
+      for (const source of config?.lists ?? []) {
+        try {
+          lists.push({ ...parseTokenList(await fetchTokenList(source), source), importedAt: Date.now() });
+        } catch (err) {
+          errors.push({ source, error: err instanceof Error ? err.message : String(err) });
+        }
+      }
+      return { lists, errors };
+    })();
+    return configLists;
+  }
+
+  async function load(): Promise<TokenState> {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(raw);
+      return {
+        custom: Array.isArray(data?.custom) ? data.custom : [],
+        flags: Array.isArray(data?.flags) ? data.flags : [],
+        lists: Array.isArray(data?.lists) ? data.lists : [],
+        discovered: Array.isArray(data?.discovered) ? data.discovered : [],
+      };
+    } catch {
+      return { custom: [], flags: [], lists: [], discovered: [] };
+    }
+  }
+
+  async function save(state: TokenState): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    await fs.writeFile(filePath, JSON.stringify(state, null, 2), { mode: 0o600 });
+  }
+
+  /** Merged entries keyed by chain and address; later sources override earlier ones. */
+  async function merged(state: TokenState, chainId?: number): Promise<Map<string, TokenEntry>> {
+    const entries = new Map<string, TokenEntry>();
+    const put = (e: TokenEntry) => {
+      if (chainId == null || e.chainId === chainId) entries.set(keyOf(e.chainId, e.address), e);
+    };
+    state.discovered.forEach(put);
+    for (const list of (await loadConfigLists()).lists) list.tokens.forEach(put);
+    for (const list of state.lists) list.tokens.forEach(put);
+    for (const [id, tokens] of Object.entries(KNOWN_TOKENS_BY_CHAIN)) {
+      for (const t of tokens) {
+        put({ chainId: Number(id), ...t, address: getAddress(t.address.toLowerCase()), source: "builtin" });
+      }
+    }
+    for (const t of config?.custom ?? []) {
+      if (!isAddress(t.address, { strict: false }) || !isDecimals(t.decimals)) continue;
+      put({ ...t, address: getAddress(t.address), source: "config" });
+    }
+    state.custom.forEach(put);
+    return entries;
+  }
+
+  function flagOf(state: TokenState, chainId: number, address: string): TokenFlag["status"] | undefined {
+    const flag = state.flags.find((f) => keyOf(f.chainId, f.address) === keyOf(chainId, address));
+    if (flag) return flag.status;
+    const hidden = config?.hidden?.some(
+      (h) => (h.chainId == null || h.chainId === chainId) && h.address.toLowerCase() === address.toLowerCase(),
+    );
+    return hidden ? "hidden" : undefined;
+  }
+
+  function toListing(state: TokenState, entry: TokenEntry): TokenListing {
+    const flag = flagOf(state, entry.chainId, entry.address);
+    const tracked = !flag && (entry.source === "builtin" || entry.source === "config" || entry.source === "custom");
+    return {
+      ...entry,
+      tracked,
+      ...(flag ? { hidden: true } : {}),
+      ...(flag === "spam" ? { spam: true } : {}),
+    };
+  }
+
+  async function discover(
+    chainId: number,
+    address: string,
+    client: PublicClient,
+  ): Promise<TokenEntry | null> {
+    const [decimalsRead, symbolRead, nameRead] = await readContracts(
+      client,
+      (["decimals", "symbol", "name"] as const).map((functionName) => ({
+        address,
+        abi: ERC20_METADATA_ABI,
+        functionName,
+      })),
+    );
+    if (decimalsRead.status !== "success") return null;
+    const decimals = Number(decimalsRead.result);
+    // symbol() / name() are optional in ERC20; some old tokens return bytes32.
+    const symbol = symbolRead.status === "success" ? symbolRead.result : undefined;
+    const name = nameRead.status === "success" ? nameRead.result : undefined;
+    return {
+      chainId,
+      address: getAddress(address),
+      symbol: typeof symbol === "string" && symbol.trim() ? symbol.trim() : UNKNOWN_TOKEN_SYMBOL,
+      decimals,
+      ...(typeof name === "string" && name.trim() ? { name: name.trim() } : {}),
+      source: "chain",
+    };
+  }
+
+  return {
+    dir: walletsDir,
+    async resolve(chainId, address, client) {
+      const state = await load();
+      const known = (await merged(state, chainId)).get(keyOf(chainId, address));
+      if (known) return toListing(state, known);
+      if (!client) return null;
+      const found = await discover(chainId, address, client);
+      if (!found) return null;
+      const latest = await load();
+      latest.discovered = [
+        ...latest.discovered.filter((e) => keyOf(e.chainId, e.address) !== keyOf(chainId, address)),
+        found,
+      ];
+      await save(latest);
+      return toListing(latest, found);
+    },
+    async list(chainId, options) {
+      const state = await load();
+      return [...(await merged(state, chainId)).values()]
+        .map((e) => toListing(state, e))
+        .filter((t) => options?.includeHidden || !t.hidden)
+        .sort((a, b) => a.symbol.localeCompare(b.symbol));
+    },
+    async addCustom(entry) {
+      const state = await load();
+      const custom: TokenEntry = { ...entry, address: getAddress(entry.address), source: "custom" };
+      state.custom = [
+        ...state.custom.filter((e) => keyOf(e.chainId, e.address) !== keyOf(entry.chainId, entry.address)),
+        custom,
+      ];
+      await save(state);
+      return custom;
+    },
+    async removeCustom(chainId, address) {
+      const state = await load();
+      const kept = state.custom.filter((e) => keyOf(e.chainId, e.address) !== keyOf(chainId, address));
+      if (kept.length === state.custom.length) return false;
+      state.custom = kept;
+      await save(state);
+      return true;
+    },
+    async setFlag(chainId, address, status) {
+      const state = await load();
+      const current = state.flags.find((f) => keyOf(f.chainId, f.address) === keyOf(chainId, address));
+      if ((current?.status ?? null) === status) return false;
+      state.flags = state.flags.filter((f) => f !== current);
+      if (status) state.flags.push({ chainId, address: getAddress(address), status, createdAt: Date.now() });
+      await save(state);
+      return true;
+    },
+    async importList(input) {
+      const source = input.url?.trim();
+      if (!source && input.json == null) throw new Error("Either `url` or `json` is required");
+      // Only config lists may be local files or non-public hosts.
+      if (source && !/^https?:\/\//i.test(source)) throw new Error("`url` must be an http(s) URL");
+      const allowedHosts = (config?.importHosts ?? []).map((h) => h.trim().toLowerCase()).filter(Boolean);
+      if (source && allowedHosts.length > 0 && !allowedHosts.includes(new URL(source).hostname.toLowerCase())) {
+        throw new Error(`${new URL(source).hostname} is not in tokens.importHosts`);
+      }
+      let json = source ? await fetchTokenList(source, true) : input.json;
+      if (typeof json === "string") {
+        try {
+          json = JSON.parse(json);
+        } catch {
+          throw new Error("Token list is not valid JSON");
+        }
+      }
+      const parsed = parseTokenList(json, source);
+      if (parsed.tokens.length === 0) throw new Error(`Token list "${parsed.name}" has no valid tokens`);
+      const list: ImportedTokenList = { ...parsed, importedAt: Date.now() };
+      const state = await load();
+      state.lists = [...state.lists.filter((l) => l.name !== list.name), list];
+      await save(state);
+      return list;
+    },
+    async listErrors() {
+      return (await loadConfigLists()).errors;
+    },
+  };
+}
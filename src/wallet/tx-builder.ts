@@ -9,6 +9,8 @@ import type { RpcClient } from "./rpc.js";
 
 const GAS_FEE_BUFFER_MULTIPLIER = 120n;
 const GAS_FEE_BUFFER_DIVISOR = 100n;
+/** Added to estimateGas results when no gas limit is given. */
+export const GAS_LIMIT_BUFFER = 10_000n;
 
 export type TxParams = {
   from: string;
@@ -25,6 +27,11 @@ export type TxParams = {
 export type SignedTx = {
   signedHex: string;
   nonce: number;
+  /** Gas and fees the tx was signed with (EIP-1559 fees or a legacy gasPrice). */
+  gasLimit: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
 };
 
 export function privateKeyToAddress(privateKeyHex: string): string {
@@ -33,6 +40,17 @@ export function privateKeyToAddress(privateKeyHex: string): string {
   return account.address as string;
 }
 
+/** Max fee per gas buildAndSignTx would use without explicit fees (EIP-1559, else legacy). */
+export async function estimateMaxFeePerGas(rpc: RpcClient): Promise<bigint> {
+  try {
+    const fees = await rpc.publicClient.estimateFeesPerGas();
+    return (fees.maxFeePerGas * GAS_FEE_BUFFER_MULTIPLIER) / GAS_FEE_BUFFER_DIVISOR;
+  } catch {
+    const gasPrice = await rpc.publicClient.getGasPrice();
+    return (gasPrice * GAS_FEE_BUFFER_MULTIPLIER) / GAS_FEE_BUFFER_DIVISOR;
+  }
+}
+
 export type BuildAndSignTxParams = {
   privateKeyHex: string;
   chainId: number;
@@ -66,7 +84,7 @@ export async function buildAndSignTx(params: BuildAndSignTxParams): Promise<Sign
           to,
           value: params.valueWei,
           data: params.data,
-        })) + BigInt(10000);
+        })) + GAS_LIMIT_BUFFER;
 
   const client = params.rpc.publicClient;
 
@@ -136,5 +154,12 @@ export async function buildAndSignTx(params: BuildAndSignTxParams): Promise<Sign
   }
 
   const signedHex = await account.signTransaction(tx);
-  return { signedHex, nonce };
+  return {
+    signedHex,
+    nonce,
+    gasLimit: gas,
+    ...(tx.type === "eip1559"
+      ? { maxFeePerGas: tx.maxFeePerGas, maxPriorityFeePerGas: tx.maxPriorityFeePerGas }
+      : { gasPrice: tx.gasPrice }),
+  };
 }
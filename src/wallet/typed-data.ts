@@ -0,0 +1,384 @@
+/**
+ * EIP-712 typed data (eth_signTypedData_v4): parsing and validation, a decoded preview for
+ * approvers, and recognition of payloads that hand out tokens (EIP-2612 and DAI permits,
+ * Permit2, Seaport orders).
+ */
+
+import { formatEther, formatUnits, hashTypedData, maxUint256, type AbiParameter, type Hex, type TypedDataDomain } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { coerceValue } from "./abi-codec.js";
+import type { TokenInfo } from "./calldata-decoder.js";
+import { isUnlimitedAllowance } from "./policy.js";
+
+export type TypedDataField = { name: string; type: string };
+
+/** An eth_signTypedData_v4 payload as given by the dapp or protocol API. */
+export type TypedDataRequest = {
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  domain: Record<string, unknown>;
+  message: Record<string, unknown>;
+};
+
+export type TypedDataKind =
+  | "permit"
+  | "dai_permit"
+  | "permit2_allowance"
+  | "permit2_transfer"
+  | "seaport_order"
+  | "seaport_bulk_order"
+  | "other";
+
+export type TypedDataAsset = {
+  asset: "native" | "erc20" | "erc721" | "erc1155";
+  /** Token contract; unset for native. */
+  token?: string;
+  symbol?: string;
+  /** Base units; the number of tokens for NFTs. */
+  amount: string;
+  /** Whole units, e.g. "1.5 USDC", "unlimited USDC" or "0.1 native". */
+  formatted?: string;
+  /** NFT id; "any" for Seaport criteria items. */
+  tokenId?: string;
+};
+
+/** Tokens the signature lets `spender` take from the wallet. */
+export type TypedDataApproval = TypedDataAsset & {
+  spender: string;
+  /** Unix seconds after which the allowance or the signature can no longer be used. */
+  expiresAt?: number;
+};
+
+export type TypedDataPreview = {
+  primaryType: string;
+  kind: TypedDataKind;
+  domain: { name?: string; version?: string; chainId?: number; verifyingContract?: string; salt?: string };
+  /** The signed message (fields of the primary type only), integers as decimal strings. */
+  message: Record<string, unknown>;
+  /** EIP-712 digest that gets signed. */
+  hash: Hex;
+  approvals: TypedDataApproval[];
+  /** Seaport: what the order pays back to the wallet. */
+  receives?: TypedDataAsset[];
+};
+
+type Normalized = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+};
+
+const DOMAIN_FIELDS: TypedDataField[] = [
+  { name: "name", type: "string" },
+  { name: "version", type: "string" },
+  { name: "chainId", type: "uint256" },
+  { name: "verifyingContract", type: "address" },
+  { name: "salt", type: "bytes32" },
+];
+
+const ATOMIC_TYPE = /^(address|bool|string|bytes(\d+)?|u?int(\d+)?)$/;
+
+/**
+ * Domain names of contracts that take assets on the strength of a signature. Their typed data
+ * is only signed when the primary type is recognized, so nothing is granted unseen.
+ */
+const SPENDER_DOMAIN_NAMES = new Set(["Permit2", "Seaport"]);
+
+/** Seaport ItemType: NATIVE, ERC20, ERC721, ERC1155, ERC721_WITH_CRITERIA, ERC1155_WITH_CRITERIA. */
+const SEAPORT_ITEM_ASSETS: TypedDataAsset["asset"][] = ["native", "erc20", "erc721", "erc1155", "erc721", "erc1155"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function coerceField(types: Record<string, TypedDataField[]>, type: string, value: unknown, path: string): unknown {
+  const array = /^(.*)\[(\d*)\]$/.exec(type);
+  if (array) {
+    if (!Array.isArray(value)) throw new Error(`Invalid typed data ${path}: expected ${type}`);
+    if (array[2] !== "" && value.length !== Number(array[2])) {
+      throw new Error(`Invalid typed data ${path}: expected ${array[2]} items, got ${value.length}`);
+    }
+    return value.map((item, i) => coerceField(types, array[1], item, `${path}[${i}]`));
+  }
+  if (types[type]) return coerceStruct(types, type, value, path);
+  if (!ATOMIC_TYPE.test(type)) throw new Error(`Invalid typed data ${path}: unknown type ${type}`);
+  if (value === undefined) throw new Error(`Invalid typed data ${path}: missing ${type} value`);
+  return coerceValue({ name: "", type } as AbiParameter, value, path);
+}
+
+function coerceStruct(
+  types: Record<string, TypedDataField[]>,
+  typeName: string,
+  value: unknown,
+  path: string,
+): Record<string, unknown> {
+  if (!isRecord(value)) throw new Error(`Invalid typed data ${path}: expected a ${typeName} object`);
+  return Object.fromEntries(
+    types[typeName].map((field) => [
+      field.name,
+      coerceField(types, field.type, value[field.name], `${path}.${field.name}`),
+    ]),
+  );
+}
+
+/** Values as viem signs them: checksummed addresses, bigint integers, hex bytes. */
+function normalize(typedData: TypedDataRequest): Normalized {
+  const { EIP712Domain, ...types } = typedData.types;
+  const domainFields = EIP712Domain ?? DOMAIN_FIELDS.filter((f) => typedData.domain[f.name] != null);
+  const domain = coerceStruct({ EIP712Domain: domainFields }, "EIP712Domain", typedData.domain, "domain");
+  const message = coerceStruct(types, typedData.primaryType, typedData.message, "message");
+  return {
+    domain: domain as TypedDataDomain,
+    types: { EIP712Domain: domainFields, ...types },
+    primaryType: typedData.primaryType,
+    message,
+  };
+}
+
+function toJson(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return value.map(toJson);
+  if (isRecord(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJson(v)]));
+  return value;
+}
+
+/**
+ * Parse and validate a typed-data payload given as an object or a JSON string. Every field of
+ * the primary type must be present and match its type; the domain is checked against
+ * EIP712Domain, or the standard domain fields when the payload does not declare it.
+ */
+export function parseTypedData(input: unknown): TypedDataRequest {
+  let value = input;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new Error("typedData is not valid JSON");
+    }
+  }
+  if (!isRecord(value)) throw new Error("typedData must be an object with types, primaryType, domain and message");
+  const { types, primaryType, domain, message } = value;
+  if (!isRecord(types)) throw new Error("typedData.types must be an object");
+  for (const [name, fields] of Object.entries(types)) {
+    const valid =
+      Array.isArray(fields) &&
+      fields.every((f) => isRecord(f) && typeof f.name === "string" && typeof f.type === "string");
+    if (!valid) throw new Error(`typedData.types.${name} must be a list of { name, type }`);
+  }
+  if (typeof primaryType !== "string" || !primaryType) throw new Error("typedData.primaryType is required");
+  if (primaryType === "EIP712Domain") throw new Error("typedData.primaryType cannot be EIP712Domain");
+  if (!Array.isArray(types[primaryType])) throw new Error(`typedData.types has no ${primaryType} type`);
+  if (!isRecord(domain)) throw new Error("typedData.domain must be an object");
+  if (!isRecord(message)) throw new Error("typedData.message must be an object");
+  const typedData = { types, primaryType, domain, message } as TypedDataRequest;
+  const normalized = normalize(typedData);
+  try {
+    hashTypedData(normalized as Parameters<typeof hashTypedData>[0]);
+  } catch (err) {
+    throw new Error(`Invalid typed data: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return typedData;
+}
+
+/** Chain id from the domain, if it has one. */
+export function typedDataChainId(typedData: TypedDataRequest): number | undefined {
+  const chainId = normalize(typedData).domain.chainId;
+  return chainId == null ? undefined : Number(chainId);
+}
+
+/** Sign with the wallet key, as eth_signTypedData_v4 would. */
+export async function signTypedDataWithKey(privateKeyHex: string, typedData: TypedDataRequest): Promise<Hex> {
+  const account = privateKeyToAccount(privateKeyHex as Hex);
+  return account.signTypedData(normalize(typedData) as Parameters<typeof account.signTypedData>[0]);
+}
+
+/**
+ * Known permit and order types. Matching is by primary type and field shape; a payload that
+ * does not have the expected fields is shown as "other", since the contract would reject it.
+ */
+function recognize(
+  primaryType: string,
+  message: Record<string, unknown>,
+  verifyingContract: string | undefined,
+): { kind: TypedDataKind; approvals: TypedDataApproval[]; receives?: TypedDataAsset[] } {
+  const seconds = (value: unknown) => (typeof value === "bigint" && value > 0n ? { expiresAt: Number(value) } : {});
+  const erc20 = (token: unknown, spender: unknown, amount: unknown, expiry: unknown): TypedDataApproval | null =>
+    typeof token === "string" && typeof spender === "string" && typeof amount === "bigint"
+      ? { asset: "erc20", token, spender, amount: amount.toString(), ...seconds(expiry) }
+      : null;
+  // Normalized structs: one record, or an array of records for the batch variants.
+  const records = (value: unknown) =>
+    (Array.isArray(value) ? value : [value]).filter(isRecord) as Record<string, unknown>[];
+  const all = <T>(items: Array<T | null>): T[] | null =>
+    items.length > 0 && items.every((item) => item != null) ? (items as T[]) : null;
+  const other = { kind: "other" as const, approvals: [] };
+
+  if (primaryType === "Permit" && verifyingContract) {
+    const approvals =
+      "value" in message
+        ? all([erc20(verifyingContract, message.spender, message.value, message.deadline)])
+        : "allowed" in message
+          ? all([erc20(verifyingContract, message.spender, message.allowed === true ? maxUint256 : 0n, message.expiry)])
+          : null;
+    if (!approvals) return other;
+    return { kind: "value" in message ? "permit" : "dai_permit", approvals };
+  }
+  if (primaryType === "PermitSingle" || primaryType === "PermitBatch") {
+    const approvals = all(
+      records(message.details).map((d) => erc20(d.token, message.spender, d.amount, d.expiration)),
+    );
+    return approvals ? { kind: "permit2_allowance", approvals } : other;
+  }
+  if (/^Permit(Batch)?(Witness)?TransferFrom$/.test(primaryType)) {
+    const approvals = all(
+      records(message.permitted).map((p) => erc20(p.token, message.spender, p.amount, message.deadline)),
+    );
+    return approvals ? { kind: "permit2_transfer", approvals } : other;
+  }
+  const seaportOrder = (order: Record<string, unknown>, spender: string) => {
+    if (typeof order.offerer !== "string") return null;
+    const item = (i: Record<string, unknown>): TypedDataAsset | null => {
+      const asset = SEAPORT_ITEM_ASSETS[Number(i.itemType)];
+      const { startAmount: start, endAmount: end, identifierOrCriteria: id } = i;
+      if (!asset || typeof start !== "bigint" || typeof end !== "bigint" || typeof i.token !== "string") return null;
+      return {
+        asset,
+        ...(asset !== "native" ? { token: i.token } : {}),
+        amount: String(end > start ? end : start),
+        ...(asset === "erc721" || asset === "erc1155"
+          ? { tokenId: Number(i.itemType) >= 4 ? "any" : String(id) }
+          : {}),
+      };
+    };
+    const offer = all(records(order.offer).map(item));
+    const offerer = order.offerer.toLowerCase();
+    const receives = records(order.consideration)
+      .filter((i) => typeof i.recipient === "string" && i.recipient.toLowerCase() === offerer)
+      .map(item);
+    if (!offer || receives.some((r) => r == null)) return null;
+    return {
+      approvals: offer.map((a): TypedDataApproval => ({ ...a, spender, ...seconds(order.endTime) })),
+      receives: receives as TypedDataAsset[],
+    };
+  };
+  if (primaryType === "OrderComponents" && verifyingContract) {
+    const order = seaportOrder(message, verifyingContract);
+    return order ? { kind: "seaport_order", ...order } : other;
+  }
+  if (primaryType === "BulkOrder" && verifyingContract && Array.isArray(message.tree)) {
+    // One signature over a Merkle tree of orders; empty padding leaves grant nothing.
+    const leaves = (message.tree as unknown[]).flat(Infinity).filter(isRecord);
+    const orders = leaves
+      .filter((leaf) => records(leaf.offer).length > 0 || records(leaf.consideration).length > 0)
+      .map((leaf) => seaportOrder(leaf, verifyingContract));
+    const valid = all(orders);
+    if (!valid) return other;
+    return {
+      kind: "seaport_bulk_order",
+      approvals: valid.flatMap((o) => o.approvals),
+      receives: valid.flatMap((o) => o.receives),
+    };
+  }
+  return other;
+}
+
+/**
+ * Whether the typed data is for a contract that takes assets on the strength of a signature
+ * (Permit2, Seaport) but its primary type was not recognized, so what it grants is unknown.
+ */
+export function isUnrecognizedSpenderRequest(preview: TypedDataPreview): boolean {
+  return preview.kind === "other" && SPENDER_DOMAIN_NAMES.has(preview.domain.name ?? "");
+}
+
+/**
+ * Decoded domain and message for approvers, plus the tokens the signature hands out when the
+ * primary type is a known permit or order. ERC20 amounts are formatted with `getTokenInfo`.
+ */
+export async function previewTypedData(
+  typedData: TypedDataRequest,
+  getTokenInfo?: (token: string) => Promise<TokenInfo | null>,
+): Promise<TypedDataPreview> {
+  const normalized = normalize(typedData);
+  const { domain } = normalized;
+  const verifyingContract = domain.verifyingContract;
+  const { kind, approvals, receives } = recognize(typedData.primaryType, normalized.message, verifyingContract);
+
+  const format = async <T extends TypedDataAsset>(asset: T): Promise<T> => {
+    if (asset.asset === "native") return { ...asset, formatted: `${formatEther(BigInt(asset.amount))} native` };
+    if (asset.asset !== "erc20" || !asset.token || !getTokenInfo) return asset;
+    const meta = await getTokenInfo(asset.token).catch(() => null);
+    if (!meta) return asset;
+    const amount = BigInt(asset.amount);
+    const symbol = meta.symbol ? ` ${meta.symbol}` : "";
+    return {
+      ...asset,
+      ...(meta.symbol ? { symbol: meta.symbol } : {}),
+      formatted: isUnlimitedAllowance(amount) ? `unlimited${symbol}` : `${formatUnits(amount, meta.decimals)}${symbol}`,
+    };
+  };
+
+  return {
+    primaryType: typedData.primaryType,
+    kind,
+    domain: {
+      ...(domain.name != null ? { name: domain.name } : {}),
+      ...(domain.version != null ? { version: domain.version } : {}),
+      ...(domain.chainId != null ? { chainId: Number(domain.chainId) } : {}),
+      ...(verifyingContract ? { verifyingContract } : {}),
+      ...(domain.salt ? { salt: domain.salt } : {}),
+    },
+    message: toJson(normalized.message) as Record<string, unknown>,
+    hash: hashTypedData(normalized as Parameters<typeof hashTypedData>[0]),
+    approvals: await Promise.all(approvals.map(format)),
+    ...(receives ? { receives: await Promise.all(receives.map(format)) } : {}),
+  };
+}
+
+const KIND_LABELS: Record<TypedDataKind, string> = {
+  permit: "EIP-2612 permit",
+  dai_permit: "DAI permit",
+  permit2_allowance: "Permit2 allowance",
+  permit2_transfer: "Permit2 transfer",
+  seaport_order: "Seaport order",
+  seaport_bulk_order: "Seaport bulk order",
+  other: "",
+};
+
+/** Lines at most this long when the message of an unrecognized type is shown field by field. */
+const MAX_FIELD_LENGTH = 160;
+
+/** Lines for approvers: domain, then what the signature grants, or the raw message fields. */
+export function formatTypedDataPreview(preview: TypedDataPreview): string[] {
+  const { domain } = preview;
+  const describe = (a: TypedDataAsset) => {
+    if (a.asset === "native") return a.formatted ?? `${a.amount} wei`;
+    if (a.asset !== "erc20") {
+      const ids = a.tokenId === "any" ? "any NFT" : `NFT #${a.tokenId}`;
+      return `${a.amount === "1" ? "" : `${a.amount} × `}${ids} of ${a.token}`;
+    }
+    const amount = a.formatted ?? `${a.amount} base units`;
+    return a.symbol ? amount : `${amount} of ${a.token}`;
+  };
+  const label = KIND_LABELS[preview.kind];
+  const lines = [
+    `Type: ${preview.primaryType}${label ? ` (${label})` : ""}`,
+    `Domain: ${[domain.name, domain.version && `v${domain.version}`].filter(Boolean).join(" ") || "(unnamed)"}` +
+      `${domain.verifyingContract ? ` at ${domain.verifyingContract}` : ""}`,
+    ...preview.approvals.map((a) => {
+      const expires = a.expiresAt ? ` until ${new Date(a.expiresAt * 1000).toISOString()}` : "";
+      return `Lets ${a.spender} take ${describe(a)}${expires}`;
+    }),
+    ...(preview.receives ?? []).map((a) => `Receives: ${describe(a)}`),
+  ];
+  if (preview.kind === "other") {
+    for (const [name, value] of Object.entries(preview.message)) {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      const line = `${name}: ${text}`;
+      lines.push(line.length > MAX_FIELD_LENGTH ? `${line.slice(0, MAX_FIELD_LENGTH - 1)}…` : line);
+    }
+  }
+  lines.push(`Hash: ${preview.hash}`);
+  return lines;
+}
@@ -3,6 +3,16 @@
  * Wallet is app-owned; keys stored in OS keychain.
  */
 
+import type { Abi } from "viem";
+
+import type { DecodedCall } from "./calldata-decoder.js";
+import type { SpendWindow } from "./daily-spend-store.js";
+import type { NameServiceConfig } from "./ens.js";
+import type { PolicyAction, PolicyRuleConfig } from "./policy.js";
+import type { PriceQuote } from "./price-source.js";
+import type { SimulationConfig, TxSimulation } from "./simulation.js";
+import type { TypedDataPreview, TypedDataRequest } from "./typed-data.js";
+
 export type WalletId = string;
 
 export type ChainId = number;
@@ -30,25 +40,230 @@ export type PendingTx = {
   maxPriorityFeePerGas?: string;
   nonce?: number;
   createdAt: number;
-  status: "pending" | "approved" | "rejected" | "sent" | "failed";
+  status:
+    | "pending"
+    | "approved"
+    | "rejected"
+    | "sent"
+    | "failed"
+    | "confirmed"
+    | "reverted"
+    | "dropped"
+    /** Signature requests: approved and signed; nothing is broadcast. */
+    | "signed";
   txHash?: string;
   error?: string;
+  /** When the tx was broadcast. */
+  sentAt?: number;
+  /** Latest receipt seen for the tx; cleared again if its block is reorged out. */
+  receipt?: TxReceiptInfo;
+  /** On a speed-up / cancel: the original tx it replaces (same nonce) and how. */
+  replaces?: string;
+  replacement?: "speed_up" | "cancel";
+  /** On the original: replacement txs requested for it, and which tx of the group was mined. */
+  replacedBy?: string[];
+  minedTxId?: string;
+  /** USD value at request time (decimal string), when USD limits are configured. */
+  valueUsd?: string;
+  /** Prices used to compute valueUsd. */
+  prices?: PriceQuote[];
+  /** Risk flags shown to the approver (e.g. unlimited ERC20 approval). */
+  warnings?: TxWarning[];
+  /** Pre-flight eth_call / estimateGas result and expected cost, from request time. */
+  simulation?: TxSimulation;
+  /** Calldata decoded with a known ABI: function, named args and token amounts. */
+  decodedCall?: DecodedCall;
+  /** Request kind and effective recipient, used to re-check the policy at approval. */
+  action?: PolicyAction;
+  recipient?: string;
+  /** Contact label of the recipient, when it is in the address book. */
+  recipientLabel?: string;
+  /** ENS-style name of the recipient: the name that was resolved, or its primary name. */
+  recipientName?: string;
+  /** Names given in the request and the addresses they resolved to. */
+  resolvedNames?: ResolvedName[];
+  /** Quorum snapshot; set only when a quorum rule applies. */
+  requiredApprovals?: number;
+  rejectionsToCancel?: number;
+  approvers?: string[];
+  approvals?: ApprovalVote[];
+  rejections?: ApprovalVote[];
+  /** Session that made the request (plugin session key); replies and codes go back there. */
+  origin?: string;
+  /** Set when approving needs an out-of-band code; the code itself is only stored hashed. */
+  approvalCodeExpiresAt?: number;
+  /**
+   * Signature requests (action "sign_typed_data"): the EIP-712 payload as given, its decoded
+   * preview, and the signature once approved. `to` is the verifying contract and nothing is sent.
+   */
+  typedData?: TypedDataRequest;
+  typedDataPreview?: TypedDataPreview;
+  signature?: string;
+  signedAt?: number;
+};
+
+export type TxReceiptInfo = {
+  blockNumber: string;
+  blockHash: string;
+  gasUsed: string;
+  effectiveGasPrice?: string;
+  /** Blocks on top of (and including) the receipt's block when last checked. */
+  confirmations: number;
+  checkedAt: number;
+};
+
+export type ApprovalVote = {
+  approver: string;
+  at: number;
+};
+
+export type ResolvedName = {
+  role: "recipient" | "spender" | "operator" | "contract";
+  name: string;
+  address: string;
+};
+
+/** Address book entry. `chains` restricts which chains the contact can be paid on. */
+export type Contact = {
+  label: string;
+  address: string;
+  chains?: ChainId[];
+  notes?: string;
+  createdAt: number;
+};
+
+/** A contract ABI in the per-peer registry, callable by label. */
+export type ContractAbi = {
+  label: string;
+  address: string;
+  /** Chain the contract is deployed on; unset means the same address on every chain. */
+  chainId?: ChainId;
+  abi: Abi;
+  createdAt: number;
+};
+
+export type TxWarning = {
+  code:
+    | "unlimited_approval"
+    | "near_max_approval"
+    | "approval_for_all"
+    | "signature_approval"
+    | "simulation_reverted";
+  message: string;
 };
 
 export type WalletConfig = {
   chainId: ChainId;
   rpcUrl: string;
+  /** Name service used to resolve names for txs on this chain. */
+  nameService?: NameServiceConfig;
+  /** Blocks a receipt needs before a tx counts as confirmed (default 1). */
+  confirmations?: number;
+  /** Anvil-compatible fork of this chain, used to preview a request's asset changes. */
+  forkRpcUrl?: string;
+  /** Multicall3 deployment for batched reads (default: the canonical 0xcA11...CA11). */
+  multicall3Address?: string;
   /** Base URL for block explorer (e.g. https://etherscan.io). Use /tx/<hash> for tx links, /address/<address> for address links. */
   blockExplorerUrl?: string;
 };
 
+/** Per-token caps for ERC20 transfers/approvals, in whole-token units (e.g. "1000" USDC). */
+export type TokenLimit = {
+  chainId: ChainId;
+  token: string;
+  decimals: number;
+  limitPerTx?: string;
+  dailyLimit?: string;
+  /** Largest allowance an approve may grant for this token. */
+  maxAllowance?: string;
+};
+
+/** Guardrails for ERC20 approve, including approve calldata sent through contract calls. */
+export type ApprovalLimits = {
+  /** When set, approvals to any other spender (or NFT operator) are denied. */
+  allowedSpenders?: string[];
+  /**
+   * Deny unlimited / near-max approvals and setApprovalForAll(true) instead of only requiring
+   * manual approval.
+   */
+  requireExactAmount?: boolean;
+};
+
+/** One-time codes, delivered out of band, that approveTx requires for pending txs. */
+export type ApprovalCodeConfig = {
+  enabled?: boolean;
+  /** Code lifetime (default 600). Expired codes can be re-sent while the tx is pending. */
+  ttlSeconds?: number;
+  /** Wrong codes allowed per tx before it is rejected (default 5). */
+  maxAttempts?: number;
+  /** Code length in digits (default 6). */
+  digits?: number;
+};
+
+/** M-of-N approval for a wallet, optionally only above a value threshold. */
+export type QuorumRule = {
+  /** Wallet this rule applies to (default: every wallet). */
+  walletId?: WalletId;
+  /**
+   * Applies when the native value is at least this (wei). Token amounts are not in wei: without
+   * minValueUsd, every token transfer or approval counts as above it.
+   */
+  minValueWei?: string;
+  /** Applies when the USD value (native plus token amount) is at least this; needs a price source. */
+  minValueUsd?: string;
+  requiredApprovals: number;
+  /** Rejections that cancel the tx (default 1). */
+  rejectionsToCancel?: number;
+  /** Identities allowed to vote; empty means anyone. */
+  approvers?: string[];
+};
+
 export type WalletsLimits = {
   mode?: "notify" | "auto";
   limitPerTx?: string;
   dailyLimit?: string;
+  /** Per-chain overrides for limitPerTx / dailyLimit (wei of that chain's native token), keyed by chain id. */
+  chainLimits?: Record<string, { limitPerTx?: string; dailyLimit?: string }>;
+  /** Daily window for dailyLimit, token and USD daily caps. Defaults to the UTC calendar day. */
+  window?: SpendWindow;
+  /** Per-transaction cap in USD (decimal string, e.g. "250"). Requires a price source. */
+  limitPerTxUsd?: string;
+  /** Daily cap in USD. Requires a price source. */
+  dailyLimitUsd?: string;
   allowedChains?: number[];
   allowedRecipients?: string[];
   notifyChannels?: string[];
+  tokenLimits?: TokenLimit[];
+  approvals?: ApprovalLimits;
+  /** Multi-approver rules; the strictest matching rule applies. */
+  quorum?: QuorumRule[];
+  approvalCode?: ApprovalCodeConfig;
+  /** Pre-flight simulation of every request; reverts are flagged or denied. */
+  simulation?: SimulationConfig;
+  /** Ordered custom policy rules, evaluated after the built-in limit rules. */
+  rules?: PolicyRuleConfig[];
+};
+
+/**
+ * Spent (broadcast) and reserved (pending) vs. limit for one asset in the current window;
+ * remaining is omitted when unlimited.
+ */
+export type BudgetLine = {
+  limit?: string;
+  spent: string;
+  reserved: string;
+  remaining?: string;
+};
+
+export type SpendBudget = {
+  walletId: WalletId;
+  window: { type: "rolling" | "calendar"; timezone?: string; since: string };
+  /** Native amounts in wei, per configured chain. */
+  native: Array<BudgetLine & { chainId: ChainId }>;
+  /** Token amounts in whole-token units, per configured token limit. */
+  tokens: Array<BudgetLine & { chainId: ChainId; token: string }>;
+  /** USD amounts, across all chains. */
+  usd?: BudgetLine;
 };
 
 export type WalletState = {
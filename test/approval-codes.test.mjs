@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+
+import { createApprovalCodeStore } from "../dist/index.js";
+
+const opts = { ttlSeconds: 600, maxAttempts: 3, digits: 6 };
+
+function tempStore() {
+  return createApprovalCodeStore(fs.mkdtempSync(path.join(os.tmpdir(), "approval-codes-")));
+}
+
+test("accepts the issued code until it is removed, and stores no plain code", async () => {
+  const store = tempStore();
+  const { code } = await store.issue("tx1", opts);
+  assert.match(code, /^\d{6}$/);
+  assert.equal(fs.readFileSync(path.join(store.dir, "approval-codes.json"), "utf8").includes(code), false);
+  assert.deepEqual(await store.verify("tx1", ` ${code} `), { ok: true });
+  assert.deepEqual(await store.verify("tx1", code), { ok: true });
+  await store.remove("tx1");
+  assert.deepEqual(await store.verify("tx1", code), { ok: false, reason: "missing", attemptsLeft: 0 });
+});
+
+test("a code is bound to its tx", async () => {
+  const store = tempStore();
+  const { code } = await store.issue("tx1", opts);
+  await store.issue("tx2", opts);
+  const check = await store.verify("tx2", code);
+  // The other tx's code could collide by chance; only a mismatch is meaningful here.
+  if (!check.ok) assert.equal(check.reason, "invalid");
+  assert.deepEqual(await store.verify("tx1", code), { ok: true });
+});
+
+test("locks a tx after maxAttempts wrong codes, also across re-issued codes", async () => {
+  const store = tempStore();
+  const { code } = await store.issue("tx1", opts);
+  const wrong = code === "000000" ? "111111" : "000000";
+  assert.deepEqual(await store.verify("tx1", wrong), { ok: false, reason: "invalid", attemptsLeft: 2 });
+  const reissued = await store.issue("tx1", opts);
+  assert.deepEqual(await store.verify("tx1", reissued.code === wrong ? code : wrong), {
+    ok: false,
+    reason: "invalid",
+    attemptsLeft: 1,
+  });
+  assert.deepEqual(await store.verify("tx1", reissued.code === wrong ? code : wrong), {
+    ok: false,
+    reason: "locked",
+    attemptsLeft: 0,
+  });
+  assert.deepEqual(await store.verify("tx1", reissued.code), { ok: false, reason: "locked", attemptsLeft: 0 });
+});
+
+test("refuses an expired code without counting an attempt", async () => {
+  const store = tempStore();
+  const { code } = await store.issue("tx1", { ...opts, ttlSeconds: -1 });
+  assert.deepEqual(await store.verify("tx1", code), { ok: false, reason: "expired", attemptsLeft: 3 });
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeFunctionResult,
+  parseAbi,
+  toCoinType,
+  toHex,
+} from "viem";
+import { namehash, packetToBytes } from "viem/ens";
+
+import { createNameResolver } from "../dist/index.js";
+
+const LOCAL_CHAIN_ID = 31337;
+const UNIVERSAL_RESOLVER = "0x00000000000000000000000000000000000000e5";
+const ALICE_MAINNET = "0x1111111111111111111111111111111111111111";
+const ALICE_BASE = "0x2222222222222222222222222222222222222222";
+const BOB_DEFAULT = "0x3333333333333333333333333333333333333333";
+
+const universalResolverAbi = parseAbi([
+  "function resolveWithGateways(bytes name, bytes data, string[] gateways) view returns (bytes, address)",
+  "function reverseWithGateways(bytes lookupAddress, uint256 coinType, string[] gateways) view returns (string, address, address)",
+]);
+const addrAbi = parseAbi(["function addr(bytes32 node, uint256 coinType) view returns (bytes)"]);
+
+/** A local ENS deployment: addresses per name and coin type, primary names per address and coin type. */
+function localRegistry() {
+  const addresses = new Map([
+    [`${namehash("alice.test")}:60`, ALICE_MAINNET],
+    [`${namehash("alice.test")}:${toCoinType(8453)}`, ALICE_BASE],
+    [`${namehash("bob.test")}:${0x80000000}`, BOB_DEFAULT],
+  ]);
+  const names = new Map([[`${ALICE_BASE}:${toCoinType(8453)}`, "alice.test"]]);
+  const calls = [];
+  const client = createPublicClient({
+    transport: custom({
+      async request({ method, params }) {
+        if (method === "eth_chainId") return `0x${LOCAL_CHAIN_ID.toString(16)}`;
+        if (method !== "eth_call") throw new Error(`unexpected ${method}`);
+        const [{ to, data }] = params;
+        assert.equal(to.toLowerCase(), UNIVERSAL_RESOLVER);
+        const call = decodeFunctionData({ abi: universalResolverAbi, data });
+        calls.push(call);
+        if (call.functionName === "resolveWithGateways") {
+          const inner = decodeFunctionData({ abi: addrAbi, data: call.args[1] });
+          const address = addresses.get(`${inner.args[0]}:${inner.args[1]}`) ?? "0x";
+          return encodeFunctionResult({
+            abi: universalResolverAbi,
+            functionName: "resolveWithGateways",
+            result: [encodeFunctionResult({ abi: addrAbi, functionName: "addr", result: address }), UNIVERSAL_RESOLVER],
+          });
+        }
+        const name = names.get(`${call.args[0].toLowerCase()}:${call.args[1]}`) ?? "";
+        return encodeFunctionResult({
+          abi: universalResolverAbi,
+          functionName: "reverseWithGateways",
+          result: [name, UNIVERSAL_RESOLVER, UNIVERSAL_RESOLVER],
+        });
+      },
+    }),
+  });
+  const chain = { nameService: { chainId: LOCAL_CHAIN_ID, universalResolverAddress: UNIVERSAL_RESOLVER } };
+  const resolver = createNameResolver({
+    chains: { 1: chain, 8453: chain, 10: chain, [LOCAL_CHAIN_ID]: chain },
+    getRpc: () => ({ publicClient: client }),
+  });
+  return { resolver, calls };
+}
+
+test("resolves names through a local universal resolver", async () => {
+  const { resolver, calls } = localRegistry();
+  assert.deepEqual(await resolver.resolveName("Alice.test", 1), {
+    name: "alice.test",
+    address: ALICE_MAINNET,
+  });
+  assert.equal(calls[0].args[0], toHex(packetToBytes("alice.test")));
+});
+
+test("uses the ENSIP-11 coin type of the tx chain", async () => {
+  const { resolver } = localRegistry();
+  assert.equal((await resolver.resolveName("alice.test", 8453)).address, ALICE_BASE);
+});
+
+test("falls back to the default EVM coin type, not the mainnet address", async () => {
+  const { resolver } = localRegistry();
+  assert.equal((await resolver.resolveName("bob.test", 10)).address, BOB_DEFAULT);
+  await assert.rejects(resolver.resolveName("alice.test", 10), /does not resolve to an address on chain 10/);
+});
+
+test("reverse lookups use the chain coin type and are cached", async () => {
+  const { resolver, calls } = localRegistry();
+  assert.equal(await resolver.lookupAddress(ALICE_BASE, 8453), "alice.test");
+  assert.equal(await resolver.lookupAddress(ALICE_BASE, 8453), "alice.test");
+  assert.equal(calls.length, 1);
+  assert.equal(await resolver.lookupAddress(ALICE_BASE, 1), null);
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import os from "node:os";
+import path from "node:path";
+import { after, before, test } from "node:test";
+
+import { createWalletService } from "../dist/index.js";
+
+const FROM = "0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A";
+const gwei = (n) => BigInt(Math.round(n * 1e9));
+const hex = (n) => `0x${BigInt(n).toString(16)}`;
+
+/** JSON-RPC node reporting `network` fees; null fees make fee queries fail. */
+const network = { baseFee: null, priorityFee: null, gasPrice: null };
+let server;
+let rpcUrl;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const answer = (msg) => {
+        const fail = (message) => ({ jsonrpc: "2.0", id: msg.id, error: { code: -32000, message } });
+        const ok = (result) => ({ jsonrpc: "2.0", id: msg.id, result });
+        switch (msg.method) {
+          case "eth_chainId":
+            return ok("0x1");
+          case "eth_getBlockByNumber":
+            return network.baseFee == null
+              ? fail("no block")
+              : ok({ number: "0x1", hash: `0x${"11".repeat(32)}`, timestamp: "0x1", baseFeePerGas: hex(network.baseFee), transactions: [] });
+          case "eth_maxPriorityFeePerGas":
+            return network.priorityFee == null ? fail("unsupported") : ok(hex(network.priorityFee));
+          case "eth_gasPrice":
+            return network.gasPrice == null ? fail("unsupported") : ok(hex(network.gasPrice));
+          default:
+            return fail(`unexpected ${msg.method}`);
+        }
+      };
+      const msg = JSON.parse(body);
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(Array.isArray(msg) ? msg.map(answer) : answer(msg)));
+    });
+  });
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  rpcUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(() => server.close());
+
+/** Service whose wallet has one sent tx with the given fees. */
+function serviceWithSentTx(fees) {
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "fee-bump-"));
+  fs.mkdirSync(path.join(stateDir, "wallets"), { recursive: true });
+  const sent = {
+    txId: "sent",
+    walletId: "w1",
+    chainId: 1,
+    from: FROM,
+    to: "0x000000000000000000000000000000000000dEaD",
+    valueWei: "1",
+    gasLimit: "21000",
+    nonce: 7,
+    txHash: `0x${"aa".repeat(32)}`,
+    status: "sent",
+    createdAt: Date.now(),
+    sentAt: Date.now(),
+    ...fees,
+  };
+  fs.writeFileSync(path.join(stateDir, "wallets", "pending.json"), JSON.stringify([sent]));
+  return createWalletService({
+    stateDir,
+    chains: { 1: { chainId: 1, rpcUrl } },
+    defaultChainId: 1,
+    limits: { simulation: { enabled: false } },
+    keychainAdapter: { createWallet: () => ({ walletId: "w1", privateKeyHex: `0x${"11".repeat(32)}` }), getPrivateKey: () => null },
+  });
+}
+
+function setNetwork(fees) {
+  Object.assign(network, { baseFee: null, priorityFee: null, gasPrice: null }, fees);
+}
+
+test("bumps EIP-1559 fees by 15% by default, rounding up, at the same nonce", async () => {
+  setNetwork({});
+  const svc = serviceWithSentTx({ maxFeePerGas: "30000000001", maxPriorityFeePerGas: "1000000000" });
+  const { pending } = await svc.requestSpeedUp({ txId: "sent" });
+  assert.equal(pending.maxFeePerGas, "34500000002");
+  assert.equal(pending.maxPriorityFeePerGas, "1150000000");
+  assert.equal(pending.nonce, 7);
+  assert.equal(pending.replaces, "sent");
+  assert.equal(pending.replacement, "speed_up");
+});
+
+test("uses the network's fees when they are above the bump", async () => {
+  setNetwork({ baseFee: gwei(100), priorityFee: gwei(3) });
+  const svc = serviceWithSentTx({ maxFeePerGas: String(gwei(30)), maxPriorityFeePerGas: String(gwei(1)) });
+  const { pending } = await svc.requestSpeedUp({ txId: "sent", feeBumpPercent: 20 });
+  assert.equal(pending.maxPriorityFeePerGas, String(gwei(3)));
+  assert.ok(BigInt(pending.maxFeePerGas) > gwei(100));
+});
+
+test("bumps a legacy gasPrice, and a cancel is a 0-value transfer to the wallet", async () => {
+  setNetwork({ gasPrice: gwei(5) });
+  const svc = serviceWithSentTx({ gasPrice: String(gwei(10)) });
+  const { pending } = await svc.requestCancel({ txId: "sent", feeBumpPercent: 10 });
+  assert.equal(pending.gasPrice, String(gwei(11)));
+  assert.equal(pending.valueWei, "0");
+  assert.equal(pending.to, FROM);
+  assert.equal(pending.replacement, "cancel");
+});
+
+test("refuses bumps below 10% and txs sent with unknown fees", async () => {
+  setNetwork({});
+  const svc = serviceWithSentTx({ gasPrice: String(gwei(10)) });
+  await assert.rejects(svc.requestSpeedUp({ txId: "sent", feeBumpPercent: 5 }), /between 10 and 1000/);
+  const unknown = serviceWithSentTx({});
+  await assert.rejects(unknown.requestSpeedUp({ txId: "sent" }), /fees this tx was sent with are unknown/);
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+
+import { createNonceManager } from "../dist/index.js";
+
+const key = { walletId: "w1", chainId: 1, address: "0x19E7E376E7C213B7E7e7e46cc70A5dD086DAff2A" };
+
+/** RPC stand-in whose `pending` count can be moved by the test. */
+function fakeRpc(pending = 0) {
+  const rpc = { pending, getTransactionCount: async (_address, tag) => (tag === "pending" ? rpc.pending : 0) };
+  return rpc;
+}
+
+function tempManager() {
+  return createNonceManager(fs.mkdtempSync(path.join(os.tmpdir(), "nonces-")));
+}
+
+test("hands out consecutive nonces from the node's pending count", async () => {
+  const nonces = tempManager();
+  const rpc = fakeRpc(4);
+  assert.deepEqual(
+    await Promise.all([nonces.reserve(key, rpc), nonces.reserve(key, rpc), nonces.reserve(key, rpc)]),
+    [4, 5, 6],
+  );
+});
+
+test("a released nonce is handed out again before new ones", async () => {
+  const nonces = tempManager();
+  const rpc = fakeRpc();
+  for (let i = 0; i < 3; i++) await nonces.reserve(key, rpc);
+  await nonces.release(key, 1);
+  assert.equal(await nonces.reserve(key, rpc), 1);
+  assert.equal(await nonces.reserve(key, rpc), 3);
+});
+
+test("releasing the highest nonces moves next back instead of leaving gaps", async () => {
+  const nonces = tempManager();
+  const rpc = fakeRpc();
+  for (let i = 0; i < 3; i++) await nonces.reserve(key, rpc);
+  await nonces.release(key, 2);
+  await nonces.release(key, 1);
+  const state = await nonces.sync(key, rpc);
+  assert.equal(state.next, 1);
+  assert.deepEqual(state.gaps, []);
+});
+
+test("gaps the node has filled are dropped", async () => {
+  const nonces = tempManager();
+  const rpc = fakeRpc();
+  for (let i = 0; i < 4; i++) await nonces.reserve(key, rpc);
+  await nonces.release(key, 0);
+  await nonces.release(key, 2);
+  rpc.pending = 1;
+  assert.equal(await nonces.reserve(key, rpc), 2);
+  rpc.pending = 6;
+  assert.equal(await nonces.reserve(key, rpc), 6);
+});
+
+test("a caller-chosen nonce ahead of next leaves the skipped ones as gaps", async () => {
+  const nonces = tempManager();
+  const rpc = fakeRpc();
+  await nonces.confirm(key, 3);
+  assert.deepEqual((await nonces.sync(key, rpc)).gaps, [0, 1, 2]);
+  assert.equal(await nonces.reserve(key, rpc), 0);
+});
+
+test("state of a re-created wallet (new address) starts over", async () => {
+  const nonces = tempManager();
+  const rpc = fakeRpc();
+  await nonces.confirm(key, 9);
+  const recreated = { ...key, address: "0x000000000000000000000000000000000000dEaD" };
+  assert.equal(await nonces.reserve(recreated, rpc), 0);
+});
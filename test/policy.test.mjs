@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+
+import { encodeFunctionData, parseAbi } from "viem";
+
+import { createWalletService } from "../dist/index.js";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const PAYEE = "0x2222222222222222222222222222222222222222";
+const OTHER = "0x3333333333333333333333333333333333333333";
+const erc20 = parseAbi([
+  "function transfer(address to, uint256 amount)",
+  "function approve(address spender, uint256 amount)",
+]);
+
+async function serviceWithLimits(limits) {
+  const stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "policy-"));
+  const key = `0x${"11".repeat(32)}`;
+  const svc = createWalletService({
+    stateDir,
+    // Nothing listens here: the requests below are decided before any chain access matters.
+    chains: { 1: { chainId: 1, rpcUrl: "http://127.0.0.1:1" } },
+    defaultChainId: 1,
+    limits: { simulation: { enabled: false }, ...limits },
+    interactWithUnverifiedContracts: true,
+    keychainAdapter: { createWallet: () => ({ walletId: "w1", privateKeyHex: key }), getPrivateKey: () => key },
+  });
+  await svc.ensureDefaultWallet();
+  return svc;
+}
+
+const transfer = (to) => encodeFunctionData({ abi: erc20, functionName: "transfer", args: [to, 1n] });
+const approve = (spender) => encodeFunctionData({ abi: erc20, functionName: "approve", args: [spender, 1n] });
+
+test("an allowlisted token contract does not let a call transfer to any address", async () => {
+  const svc = await serviceWithLimits({ allowedRecipients: [TOKEN] });
+  await assert.rejects(
+    svc.requestContractCall({ to: TOKEN, data: transfer(OTHER) }),
+    /Recipient not in allowedRecipients/,
+  );
+  await assert.rejects(
+    svc.requestContractCall({ to: TOKEN, data: approve(OTHER) }),
+    /Recipient not in allowedRecipients/,
+  );
+});
+
+test("a call transferring to an allowlisted payee is checked against the payee", async () => {
+  const svc = await serviceWithLimits({ allowedRecipients: [PAYEE] });
+  const { pending } = await svc.requestContractCall({ to: TOKEN, data: transfer(PAYEE) });
+  assert.equal(pending.recipient.toLowerCase(), PAYEE);
+});
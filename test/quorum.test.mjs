@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { resolveQuorum } from "../dist/index.js";
+
+const usd = (dollars) => BigInt(dollars) * 10n ** 8n;
+const send = { walletId: "w1", action: "native_send", valueWei: 10n ** 18n };
+
+test("no rules or no matching rule means a single approval", () => {
+  assert.equal(resolveQuorum(undefined, send), null);
+  assert.equal(resolveQuorum([{ requiredApprovals: 2, walletId: "other" }], send), null);
+  assert.equal(resolveQuorum([{ requiredApprovals: 2, minValueWei: "2000000000000000000" }], send), null);
+});
+
+test("a rule without thresholds always applies, with trimmed approvers", () => {
+  assert.deepEqual(resolveQuorum([{ requiredApprovals: 2, approvers: [" telegram:1 ", ""] }], send), {
+    requiredApprovals: 2,
+    rejectionsToCancel: 1,
+    approvers: ["telegram:1"],
+  });
+});
+
+test("the strictest matching rule wins", () => {
+  const rules = [
+    { requiredApprovals: 2, minValueWei: "1" },
+    { requiredApprovals: 3, minValueWei: "1000000000000000000", rejectionsToCancel: 2 },
+    { requiredApprovals: 5, minValueWei: "5000000000000000000" },
+  ];
+  assert.deepEqual(resolveQuorum(rules, send), { requiredApprovals: 3, rejectionsToCancel: 2, approvers: [] });
+});
+
+test("USD thresholds: priced values are compared, unpriced ones count as above", () => {
+  const rules = [{ requiredApprovals: 2, minValueUsd: "1000" }];
+  assert.equal(resolveQuorum(rules, { ...send, valueUsd: usd(999) }), null);
+  assert.equal(resolveQuorum(rules, { ...send, valueUsd: usd(1000) })?.requiredApprovals, 2);
+  assert.equal(resolveQuorum(rules, send)?.requiredApprovals, 2);
+});
+
+test("token amounts pass a wei-only threshold only when they cannot be measured", () => {
+  const transfer = { walletId: "w1", action: "erc20_transfer", valueWei: 0n, tokenAmount: 5n, tokenOperation: "transfer" };
+  assert.equal(resolveQuorum([{ requiredApprovals: 2, minValueWei: "1" }], transfer)?.requiredApprovals, 2);
+  assert.equal(resolveQuorum([{ requiredApprovals: 2, minValueUsd: "100" }], { ...transfer, valueUsd: usd(1) }), null);
+});
+
+test("NFTs and undecoded calls count as above any threshold; revocations do not", () => {
+  const rules = [{ requiredApprovals: 2, minValueWei: "1", minValueUsd: "1" }];
+  const nft = { walletId: "w1", action: "erc721_transfer", valueWei: 0n, valueUsd: 0n, nftOperation: "transfer" };
+  const call = { walletId: "w1", action: "contract_call", valueWei: 0n, valueUsd: 0n };
+  const revoke = { walletId: "w1", action: "erc20_approve", valueWei: 0n, valueUsd: 0n, tokenOperation: "approve", tokenAmount: 0n };
+  assert.equal(resolveQuorum(rules, nft)?.requiredApprovals, 2);
+  assert.equal(resolveQuorum(rules, call)?.requiredApprovals, 2);
+  assert.equal(resolveQuorum(rules, revoke), null);
+});
+
+test("invalid requiredApprovals is an error", () => {
+  assert.throws(() => resolveQuorum([{ requiredApprovals: 0 }], send), /Invalid quorum requiredApprovals/);
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+
+import { createDailySpendStore } from "../dist/index.js";
+
+const base = { walletId: "w1", chainId: 1 };
+const native = { walletId: "w1", chainId: 1, asset: "native" };
+const usd = { walletId: "w1", asset: "usd" };
+const dayStart = () => Date.now() - 24 * 60 * 60 * 1000;
+
+function tempDir() {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "spend-ledger-"));
+}
+
+test("reservations count until finalized or released", async () => {
+  const store = createDailySpendStore(tempDir());
+  await store.reserve("a", base, [{ asset: "native", amount: 100n }]);
+  await store.reserve("b", base, [{ asset: "native", amount: 50n }]);
+  assert.deepEqual(await store.getTotals(native, dayStart()), { spent: 0n, reserved: 150n });
+
+  await store.finalize("a");
+  await store.release("b");
+  assert.deepEqual(await store.getTotals(native, dayStart()), { spent: 100n, reserved: 0n });
+  assert.deepEqual(await store.listReservations(), []);
+});
+
+test("a new reservation for the same tx replaces the old one", async () => {
+  const store = createDailySpendStore(tempDir());
+  await store.reserve("a", base, [{ asset: "native", amount: 100n }]);
+  await store.reserve("a", base, [
+    { asset: "native", amount: 30n },
+    { asset: "0xtoken", amount: 7n },
+  ]);
+  assert.deepEqual(await store.getTotals(native, dayStart()), { spent: 0n, reserved: 30n });
+  assert.deepEqual(await store.getTotals({ ...base, asset: "0xtoken" }, dayStart()), { spent: 0n, reserved: 7n });
+});
+
+test("totals are split by wallet and chain, except the USD tally which spans chains", async () => {
+  const store = createDailySpendStore(tempDir());
+  await store.reserve("a", base, [{ asset: "native", amount: 1n }, { asset: "usd", amount: 10n }]);
+  await store.reserve("b", { walletId: "w1", chainId: 8453 }, [{ asset: "native", amount: 2n }, { asset: "usd", amount: 5n }]);
+  await store.reserve("c", { walletId: "w2", chainId: 1 }, [{ asset: "native", amount: 4n }]);
+  assert.equal((await store.getTotals(native, dayStart())).reserved, 1n);
+  assert.equal((await store.getTotals(usd, dayStart())).reserved, 15n);
+});
+
+test("excluded txs and final spend before the window are left out; reservations never age out", async () => {
+  const store = createDailySpendStore(tempDir());
+  await store.reserve("a", base, [{ asset: "native", amount: 100n }]);
+  await store.reserve("b", base, [{ asset: "native", amount: 50n }]);
+  await store.finalize("a");
+  assert.deepEqual(await store.getTotals(native, dayStart(), ["b"]), { spent: 100n, reserved: 0n });
+  assert.deepEqual(await store.getTotals(native, Date.now() + 1000), { spent: 0n, reserved: 50n });
+});
+
+test("remove drops final spend too", async () => {
+  const store = createDailySpendStore(tempDir());
+  await store.reserve("a", base, [{ asset: "native", amount: 100n }]);
+  await store.finalize("a");
+  await store.remove("a");
+  assert.deepEqual(await store.getTotals(native, dayStart()), { spent: 0n, reserved: 0n });
+});
+
+test("imports today's legacy total for every wallet and chain", async () => {
+  const dir = tempDir();
+  const today = new Date().toISOString().slice(0, 10);
+  fs.writeFileSync(path.join(dir, "daily-spend.json"), JSON.stringify({ date: today, totalWei: "500" }));
+  const store = createDailySpendStore(dir);
+  assert.deepEqual(await store.getTotals(native, dayStart()), { spent: 500n, reserved: 0n });
+  assert.deepEqual(await store.getTotals({ walletId: "w2", chainId: 10, asset: "native" }, dayStart()), {
+    spent: 500n,
+    reserved: 0n,
+  });
+});
+
+test("ignores a legacy total from another day", async () => {
+  const dir = tempDir();
+  fs.writeFileSync(path.join(dir, "daily-spend.json"), JSON.stringify({ date: "2000-01-01", totalWei: "9" }));
+  const store = createDailySpendStore(dir);
+  assert.deepEqual(await store.getTotals(native, dayStart()), { spent: 0n, reserved: 0n });
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { signWebhookBody, verifyWebhookSignature } from "../dist/index.js";
+
+const secret = "s3cret";
+const body = JSON.stringify({ event: "approved" });
+const now = 1_800_000_000_000;
+const timestamp = now / 1000;
+const signature = `sha256=${signWebhookBody(secret, body, timestamp)}`;
+
+test("accepts a fresh, correctly signed delivery", () => {
+  assert.equal(verifyWebhookSignature({ secret, body, timestamp: String(timestamp), signature, now }), true);
+});
+
+test("rejects a delivery replayed outside the tolerance window", () => {
+  const later = now + 301_000;
+  assert.equal(verifyWebhookSignature({ secret, body, timestamp: String(timestamp), signature, now: later }), false);
+});
+
+test("rejects a signature moved to another timestamp or body", () => {
+  const moved = String(timestamp + 10);
+  assert.equal(verifyWebhookSignature({ secret, body, timestamp: moved, signature, now }), false);
+  assert.equal(verifyWebhookSignature({ secret, body: "{}", timestamp: String(timestamp), signature, now }), false);
+});